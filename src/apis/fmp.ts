@@ -3,15 +3,20 @@
  *
  * Provides ticker lookup functionality using FMP's /stable/profile endpoint.
  * Returns ISIN, CUSIP, CIK, and other identifiers for US securities.
+ * Company name search uses /stable/search-name.
  *
  * Free tier: 250 requests/day
  * Limitations: No reverse lookup (ISIN → ticker) on free tier
  */
 
+import type { CachedIdentifierType } from "../cache.ts";
 import type { SecurityData, PricingData } from "../db.ts";
+import { FMP_SOURCE } from "../provenance.ts";
+import { normalizeTicker, toFmpTicker } from "../ticker.ts";
 
 const FMP_BASE_URL = "https://financialmodelingprep.com";
 const FMP_PROFILE_ENDPOINT = "/stable/profile";
+const FMP_SEARCH_NAME_ENDPOINT = "/stable/search-name";
 
 /**
  * Custom error for FMP API errors
@@ -59,6 +64,26 @@ interface FmpProfileResponse {
   range?: string;
 }
 
+/**
+ * FMP API response structure for /stable/search-name endpoint
+ */
+interface FmpSearchResponse {
+  symbol: string;
+  name: string;
+  currency?: string;
+  exchange: string;
+  exchangeFullName?: string;
+}
+
+/**
+ * Security found by a name search
+ */
+export interface FmpSearchResult {
+  ticker: string;
+  name: string;
+  exchange: string;
+}
+
 /**
  * Combined result with security data and optional pricing
  */
@@ -67,10 +92,19 @@ export interface FmpResult {
   pricing?: PricingData;
 }
 
+/**
+ * Identifier types a profile (fetchTickerProfile) supplies, i.e. the ones an
+ * FMP refresh can bring up to date
+ */
+export const FMP_PROFILE_IDENTIFIER_TYPES: CachedIdentifierType[] = ["ticker", "isin", "cusip", "cik"];
+
 /**
  * Fetch ticker profile from FMP API
  *
- * @param ticker - Stock ticker symbol (e.g., "AAPL", "BRK-B")
+ * The ticker is sent in FMP's hyphenated form; the returned security carries
+ * the canonical form (see normalizeTicker).
+ *
+ * @param ticker - Stock ticker symbol (e.g., "AAPL", "BRK.B")
  * @param apiKey - FMP API key
  * @returns FmpResult with security data and pricing
  * @throws FmpApiError if API call fails
@@ -80,14 +114,105 @@ export async function fetchTickerProfile(
   ticker: string,
   apiKey: string,
 ): Promise<FmpResult> {
+  const data = await fetchFmp(FMP_PROFILE_ENDPOINT, { symbol: toFmpTicker(ticker) }, apiKey);
+
+  // Handle empty array (ticker not found)
+  if (data.length === 0) {
+    throw new FmpApiError(`Ticker not found: ${ticker}`, 404);
+  }
+
+  // Extract first result (should only be one)
+  const profile = data[0] as FmpProfileResponse;
+
+  // Map to SecurityData interface
+  const securityData: SecurityData = {
+    ticker: normalizeTicker(profile.symbol),
+    name: profile.companyName,
+    exchange: profile.exchange,
+    source: FMP_SOURCE,
+    isin: profile.isin,
+    cusip: profile.cusip,
+    cik: profile.cik,
+    market_sector: profile.sector,
+  };
+
+  // Extract pricing data if available
+  const pricing: PricingData | undefined = profile.price !== undefined ? {
+    price: profile.price,
+    change: profile.changes, // Note: FMP uses 'changes' not 'change'
+    change_percentage: profile.changesPercentage,
+    market_cap: profile.marketCap,
+    volume: profile.volume,
+    average_volume: profile.avgVolume,
+    beta: profile.beta,
+    last_dividend: profile.lastDiv,
+    range: profile.range,
+    is_actively_trading: profile.isActivelyTrading ?? true,
+    price_fetched_at: Math.floor(Date.now() / 1000),
+  } : undefined;
+
+  return {
+    security: securityData,
+    pricing,
+  };
+}
+
+/**
+ * Search FMP for securities by company name
+ *
+ * Used when the cache has no match for a name: the candidates are not cached
+ * (they carry no ISIN); look one up by ticker to cache it.
+ *
+ * @param query - Company name or part of it (e.g., "Vanguard Total Stock")
+ * @param apiKey - FMP API key
+ * @param limit - Maximum number of candidates
+ * @returns Candidates (ticker, name, exchange) in FMP's order; empty if none match
+ * @throws FmpApiError if API call fails
+ * @throws FmpRateLimitError if rate limit exceeded
+ */
+export async function searchCompanyName(
+  query: string,
+  apiKey: string,
+  limit: number,
+): Promise<FmpSearchResult[]> {
+  const data = await fetchFmp(
+    FMP_SEARCH_NAME_ENDPOINT,
+    { query, limit: String(limit) },
+    apiKey,
+  );
+
+  return (data as FmpSearchResponse[]).map((result) => ({
+    ticker: normalizeTicker(result.symbol),
+    name: result.name,
+    exchange: result.exchange,
+  }));
+}
+
+/**
+ * Call an FMP endpoint that returns a JSON array
+ *
+ * @param endpoint - Endpoint path (e.g., "/stable/profile")
+ * @param params - Query parameters (the API key is added)
+ * @param apiKey - FMP API key
+ * @returns Response array
+ * @throws FmpApiError if API call fails
+ * @throws FmpRateLimitError if rate limit exceeded
+ */
+async function fetchFmp(
+  endpoint: string,
+  params: Record<string, string>,
+  apiKey: string,
+): Promise<unknown[]> {
   // Validate API key
   if (!apiKey || apiKey.trim() === "") {
     throw new FmpApiError("API key is required");
   }
 
   // Build API URL
-  const url = new URL(FMP_PROFILE_ENDPOINT, FMP_BASE_URL);
-  url.searchParams.set("symbol", ticker);
+  const url = new URL(endpoint, FMP_BASE_URL);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
   url.searchParams.set("apikey", apiKey);
 
   let response: Response;
@@ -159,45 +284,7 @@ export async function fetchTickerProfile(
     );
   }
 
-  // Handle empty array (ticker not found)
-  if (data.length === 0) {
-    throw new FmpApiError(`Ticker not found: ${ticker}`, 404);
-  }
-
-  // Extract first result (should only be one)
-  const profile = data[0] as FmpProfileResponse;
-
-  // Map to SecurityData interface
-  const securityData: SecurityData = {
-    ticker: profile.symbol,
-    name: profile.companyName,
-    exchange: profile.exchange,
-    source: "fmp",
-    isin: profile.isin,
-    cusip: profile.cusip,
-    cik: profile.cik,
-    market_sector: profile.sector,
-  };
-
-  // Extract pricing data if available
-  const pricing: PricingData | undefined = profile.price !== undefined ? {
-    price: profile.price,
-    change: profile.changes, // Note: FMP uses 'changes' not 'change'
-    change_percentage: profile.changesPercentage,
-    market_cap: profile.marketCap,
-    volume: profile.volume,
-    average_volume: profile.avgVolume,
-    beta: profile.beta,
-    last_dividend: profile.lastDiv,
-    range: profile.range,
-    is_actively_trading: profile.isActivelyTrading ?? true,
-    price_fetched_at: Math.floor(Date.now() / 1000),
-  } : undefined;
-
-  return {
-    security: securityData,
-    pricing,
-  };
+  return data;
 }
 
 /**
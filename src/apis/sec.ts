@@ -0,0 +1,83 @@
+/**
+ * SEC EDGAR company tickers
+ *
+ * The SEC publishes every ticker with a CIK filing on EDGAR (~10k US securities)
+ * in company_tickers_exchange.json, free and without an API key:
+ *
+ *   {"fields": ["cik", "name", "ticker", "exchange"],
+ *    "data": [[320193, "Apple Inc.", "AAPL", "Nasdaq"], ...]}
+ *
+ * The file is read from a local copy (see SEC_COMPANY_TICKERS_EXCHANGE_URL);
+ * the SEC asks automated clients to identify themselves, so it is not fetched here.
+ */
+
+export const SEC_COMPANY_TICKERS_EXCHANGE_URL = "https://www.sec.gov/files/company_tickers_exchange.json";
+
+/**
+ * Custom error for files that aren't in the SEC company tickers format
+ */
+export class SecFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecFormatError";
+  }
+}
+
+/**
+ * One entry of company_tickers_exchange.json
+ */
+export interface SecCompanyTicker {
+  // Zero-padded to 10 digits, as FMP and EDGAR URLs write it
+  cik: string;
+  name: string;
+  // As published (e.g., "BRK-B")
+  ticker: string;
+  // Uppercased (e.g., "NASDAQ"); null for tickers the SEC lists without an exchange
+  exchange: string | null;
+}
+
+/**
+ * Parse company_tickers_exchange.json
+ *
+ * Columns are located by the "fields" header, so reordered files still parse.
+ *
+ * @param json - Parsed file contents
+ * @returns Entries in file order
+ * @throws SecFormatError if the file isn't in the expected format
+ */
+export function parseCompanyTickersExchange(json: unknown): SecCompanyTicker[] {
+  const file = json as { fields?: unknown; data?: unknown };
+
+  if (typeof file !== "object" || file === null || !Array.isArray(file.fields) || !Array.isArray(file.data)) {
+    throw new SecFormatError('Expected an object with "fields" and "data" arrays (company_tickers_exchange.json)');
+  }
+
+  const column = (field: string) => {
+    const index = (file.fields as unknown[]).indexOf(field);
+    if (index === -1) {
+      throw new SecFormatError(`Missing field "${field}" (fields: ${(file.fields as unknown[]).join(", ")})`);
+    }
+    return index;
+  };
+
+  const cikColumn = column("cik");
+  const nameColumn = column("name");
+  const tickerColumn = column("ticker");
+  const exchangeColumn = column("exchange");
+
+  return (file.data as unknown[]).map((entry, index) => {
+    if (!Array.isArray(entry)) {
+      throw new SecFormatError(`Entry ${index + 1} is not an array`);
+    }
+
+    const cik = entry[cikColumn];
+    const exchange = entry[exchangeColumn];
+
+    return {
+      cik: cik === null || cik === undefined ? "" : String(cik).padStart(10, "0"),
+      name: String(entry[nameColumn] ?? ""),
+      ticker: String(entry[tickerColumn] ?? ""),
+      exchange: typeof exchange === "string" && exchange ? exchange.toUpperCase() : null,
+    };
+  });
+}
@@ -0,0 +1,202 @@
+/**
+ * Cache freshness and retention policy
+ *
+ * Cached identifiers expire after a time-to-live (TTL) per identifier type.
+ * Expired entries are still returned (marked stale) and refreshed from the API
+ * when possible. Without a configured TTL, identifiers never expire.
+ *
+ * Pricing history is kept according to a retention (maximum age and/or number
+ * of observations per security).
+ *
+ * Durations are written as a number with an optional unit: s, m, h, d or w
+ * (e.g., 3600, 90m, 12h, 30d, 2w). A bare number is seconds.
+ */
+
+/**
+ * Error for a malformed duration or cache setting
+ */
+export class CacheSettingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CacheSettingError";
+  }
+}
+
+/**
+ * Identifier types with their own TTL (figi covers all FIGI levels)
+ */
+export type CachedIdentifierType =
+  | "ticker"
+  | "isin"
+  | "cusip"
+  | "sedol"
+  | "wkn"
+  | "valor"
+  | "cik"
+  | "figi";
+
+export const CACHED_IDENTIFIER_TYPES: CachedIdentifierType[] = [
+  "ticker",
+  "isin",
+  "cusip",
+  "sedol",
+  "wkn",
+  "valor",
+  "cik",
+  "figi",
+];
+
+/**
+ * TTL in seconds per identifier type (types without one never expire)
+ */
+export type CacheTtls = Partial<Record<CachedIdentifierType, number>>;
+
+/**
+ * Seconds per duration unit
+ */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+/**
+ * Durations: a number with an optional unit
+ */
+const DURATION_PATTERN = /^([0-9]+)\s*([smhdw]?)$/i;
+
+/**
+ * Whether a value is a duration (see parseDuration)
+ *
+ * @param value - Value to check
+ * @returns true if parseDuration accepts it
+ */
+export function isDuration(value: string): boolean {
+  return DURATION_PATTERN.test(value.trim());
+}
+
+/**
+ * Parse a duration (e.g., "30d", "12h", "3600")
+ *
+ * @param value - Number with optional unit (s, m, h, d, w)
+ * @returns Duration in seconds
+ * @throws CacheSettingError if the duration is malformed
+ */
+export function parseDuration(value: string): number {
+  const match = DURATION_PATTERN.exec(value.trim());
+
+  if (!match) {
+    throw new CacheSettingError(
+      `Invalid duration "${value}": expected a number with an optional unit s, m, h, d or w (e.g., 30d)`,
+    );
+  }
+
+  return Number(match[1]) * DURATION_UNITS[(match[2] || "s").toLowerCase()];
+}
+
+/**
+ * Read TTLs from the environment
+ *
+ * TICKISINATOR_TTL applies to every identifier type; TICKISINATOR_TTL_{TYPE}
+ * (e.g., TICKISINATOR_TTL_TICKER) overrides it for one type.
+ *
+ * @param getEnv - Environment lookup (default: Deno.env.get)
+ * @returns Configured TTLs
+ * @throws CacheSettingError if a TTL is not a valid duration
+ */
+export function getTtlsFromEnv(
+  getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name),
+): CacheTtls {
+  const ttls: CacheTtls = {};
+  const defaultTtl = getEnv("TICKISINATOR_TTL");
+
+  for (const type of CACHED_IDENTIFIER_TYPES) {
+    const ttl = getEnv(`TICKISINATOR_TTL_${type.toUpperCase()}`) || defaultTtl;
+    if (ttl) {
+      ttls[type] = parseDuration(ttl);
+    }
+  }
+
+  return ttls;
+}
+
+/**
+ * The same TTL for every identifier type (--max-age)
+ *
+ * @param maxAge - Maximum age in seconds
+ * @returns TTLs
+ */
+export function uniformTtls(maxAge: number): CacheTtls {
+  return Object.fromEntries(CACHED_IDENTIFIER_TYPES.map((type) => [type, maxAge]));
+}
+
+/**
+ * Find the cached identifiers that have outlived their TTL
+ *
+ * Only the given types are checked: an identifier the refresh source never
+ * returns would stay expired however often the security is refreshed.
+ *
+ * @param fetchedAt - When each cached identifier type was last fetched (Unix seconds)
+ * @param ttls - TTL per identifier type
+ * @param now - Current time (Unix seconds)
+ * @param types - Identifier types the refresh source supplies (default: all)
+ * @returns Expired identifier types
+ */
+export function findStaleIdentifiers(
+  fetchedAt: Partial<Record<CachedIdentifierType, number>>,
+  ttls: CacheTtls,
+  now: number = Math.floor(Date.now() / 1000),
+  types: CachedIdentifierType[] = CACHED_IDENTIFIER_TYPES,
+): CachedIdentifierType[] {
+  return types.filter((type) => {
+    const ttl = ttls[type];
+    const fetched = fetchedAt[type];
+
+    return ttl !== undefined && fetched !== undefined && now - fetched > ttl;
+  });
+}
+
+/**
+ * Pricing history to keep per security (unset limits keep everything)
+ */
+export interface PricingRetention {
+  // Maximum age of an observation, in seconds
+  maxAge?: number;
+  // Maximum number of observations (the newest are kept)
+  maxRows?: number;
+}
+
+/**
+ * Read pricing history retention from the environment
+ *
+ * TICKISINATOR_PRICE_HISTORY_MAX_AGE is a duration (e.g., 365d);
+ * TICKISINATOR_PRICE_HISTORY_MAX_ROWS a count per security.
+ *
+ * @param getEnv - Environment lookup (default: Deno.env.get)
+ * @returns Configured retention
+ * @throws CacheSettingError if a setting is malformed
+ */
+export function getPricingRetentionFromEnv(
+  getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name),
+): PricingRetention {
+  const retention: PricingRetention = {};
+
+  const maxAge = getEnv("TICKISINATOR_PRICE_HISTORY_MAX_AGE");
+  if (maxAge) {
+    retention.maxAge = parseDuration(maxAge);
+  }
+
+  const maxRows = getEnv("TICKISINATOR_PRICE_HISTORY_MAX_ROWS");
+  if (maxRows) {
+    if (!/^[0-9]+$/.test(maxRows.trim()) || Number(maxRows) === 0) {
+      throw new CacheSettingError(
+        `Invalid TICKISINATOR_PRICE_HISTORY_MAX_ROWS "${maxRows}": expected a positive whole number`,
+      );
+    }
+    retention.maxRows = Number(maxRows);
+  }
+
+  return retention;
+}
@@ -6,12 +6,52 @@
  * - ticker:AAPL
  * - isin:US0378331005
  * - cusip:037833100
+ * - sedol:0263494
+ * - figi:BBG000B9XRY4
+ * - lei:HWUPKR0MPOU8FGXBT394
+ * - wkn:716460
+ * - valor:3886335
+ * - name:Apple (company name search)
+ *
+ * Tickers can be resolved as of a date: ticker:{value}@{YYYY-MM-DD} (e.g., ticker:FB@2021-06-01)
+ *
+ * Designators whose value is a national identifier can be qualified with an
+ * ISIN country code: {type}:{country}:{value} (e.g., sedol:IE:0182704, cusip:CA:13321L108,
+ * valor:LI:3153292)
  */
 
+import {
+  normalizeValor,
+  SEDOL_COUNTRIES,
+  validateCusip,
+  validateIsin,
+  validateSedol,
+  validateValor,
+  validateWkn,
+  VALOR_COUNTRIES,
+} from "./isin.ts";
+import { normalizeTicker } from "./ticker.ts";
+import { validateFigi } from "./figi.ts";
+import { validateLei } from "./lei.ts";
+
 /**
  * Supported designator types
  */
-export type DesignatorType = "ticker" | "isin" | "cusip";
+export type DesignatorType =
+  | "ticker"
+  | "isin"
+  | "cusip"
+  | "sedol"
+  | "figi"
+  | "lei"
+  | "wkn"
+  | "valor"
+  | "name";
+
+/**
+ * Designator types that accept a country qualifier
+ */
+const COUNTRY_QUALIFIED_TYPES: DesignatorType[] = ["cusip", "sedol", "valor"];
 
 /**
  * Parsed designator
@@ -19,6 +59,10 @@ export type DesignatorType = "ticker" | "isin" | "cusip";
 export interface Designator {
   type: DesignatorType;
   value: string;
+  // ISIN country code, when given as {type}:{country}:{value}
+  country?: string;
+  // Date (YYYY-MM-DD) the ticker was held, when given as ticker:{value}@{date}
+  asOf?: string;
 }
 
 /**
@@ -70,22 +114,78 @@ export function parseDesignator(input: string): Designator {
   }
 
   // Validate type is supported
-  const validTypes: DesignatorType[] = ["ticker", "isin", "cusip"];
+  const validTypes: DesignatorType[] = [
+    "ticker",
+    "isin",
+    "cusip",
+    "sedol",
+    "figi",
+    "lei",
+    "wkn",
+    "valor",
+    "name",
+  ];
   if (!validTypes.includes(type as DesignatorType)) {
     throw new CliError(
       `Unknown designator type: "${type}". Supported types: ${validTypes.join(", ")}`,
     );
   }
 
-  // Normalize value to uppercase (tickers, ISINs, and CUSIPs are case-insensitive)
+  // Names are free text: keep them as written, with single spaces
+  if (type === "name") {
+    return { type: "name", value: value.replace(/\s+/g, " ") };
+  }
+
+  // Normalize value to uppercase (all supported identifiers are case-insensitive)
   const normalizedValue = value.toUpperCase();
 
+  // Split off an optional as-of date (ticker:{value}@{date})
+  const atIndex = normalizedValue.lastIndexOf("@");
+  if (type === "ticker" && atIndex !== -1) {
+    return {
+      type: "ticker",
+      value: normalizeTicker(normalizedValue.substring(0, atIndex)),
+      asOf: normalizedValue.substring(atIndex + 1).trim(),
+    };
+  }
+
+  // Split off an optional country qualifier ({type}:{country}:{value})
+  const qualified = /^([A-Z]{2}):(.+)$/.exec(normalizedValue);
+  if (qualified && COUNTRY_QUALIFIED_TYPES.includes(type as DesignatorType)) {
+    return {
+      type: type as DesignatorType,
+      value: normalizeDesignatorValue(type as DesignatorType, qualified[2].trim()),
+      country: qualified[1],
+    };
+  }
+
   return {
     type: type as DesignatorType,
-    value: normalizedValue,
+    value: normalizeDesignatorValue(type as DesignatorType, normalizedValue),
   };
 }
 
+/**
+ * Normalize identifiers that have more than one written form
+ *
+ * @param type - Designator type
+ * @param value - Uppercase value
+ * @returns Canonical value
+ */
+function normalizeDesignatorValue(type: DesignatorType, value: string): string {
+  // BRK.B, BRK-B, BRK/B and "BRK B" are the same ticker
+  if (type === "ticker") {
+    return normalizeTicker(value);
+  }
+
+  // Valor numbers are written with and without leading zeros
+  if (type === "valor" && /^[0-9]+$/.test(value)) {
+    return normalizeValor(value);
+  }
+
+  return value;
+}
+
 /**
  * Validate a designator's value based on its type
  *
@@ -94,6 +194,10 @@ export function parseDesignator(input: string): Designator {
  * @throws CliError if invalid
  */
 export function validateDesignator(designator: Designator): boolean {
+  if (designator.asOf !== undefined) {
+    validateAsOfDate(designator.asOf);
+  }
+
   switch (designator.type) {
     case "ticker":
       return validateTicker(designator.value);
@@ -101,17 +205,78 @@ export function validateDesignator(designator: Designator): boolean {
       return validateIsinFormat(designator.value);
     case "cusip":
       return validateCusipFormat(designator.value);
+    case "sedol":
+      return validateSedolFormat(designator.value, designator.country);
+    case "figi":
+      return validateFigiFormat(designator.value);
+    case "lei":
+      return validateLeiFormat(designator.value);
+    case "wkn":
+      return validateWknFormat(designator.value);
+    case "valor":
+      return validateValorFormat(designator.value, designator.country);
+    case "name":
+      return validateName(designator.value);
     default:
       throw new CliError(`Unknown designator type: ${designator.type}`);
   }
 }
 
 /**
- * Validate ticker format
+ * Validate an as-of date
+ *
+ * Rules:
+ * - Format YYYY-MM-DD
+ * - A real calendar date
+ *
+ * @param date - As-of date
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateAsOfDate(date: string): boolean {
+  const parsed = new Date(`${date}T00:00:00Z`);
+
+  if (
+    !/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(parsed.getTime()) ||
+    parsed.toISOString().substring(0, 10) !== date
+  ) {
+    throw new CliError(
+      `Invalid as-of date "${date}": expected a date in YYYY-MM-DD format`,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Validate a company name search
  *
  * Rules:
+ * - At most 100 characters
+ * - At least one letter or digit
+ *
+ * @param name - Name or part of it
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateName(name: string): boolean {
+  if (name.length > 100) {
+    throw new CliError(`Invalid name "${name}": must be at most 100 characters long`);
+  }
+
+  if (!/[\p{L}\p{N}]/u.test(name)) {
+    throw new CliError(`Invalid name "${name}": must contain a letter or digit`);
+  }
+
+  return true;
+}
+
+/**
+ * Validate ticker format
+ *
+ * Rules (applied to the canonical form, see normalizeTicker):
  * - 1-10 characters
- * - Letters, numbers, hyphens, periods allowed
+ * - Letters, numbers, share class separators (".", "-", "/", " ") allowed
  * - Must start with a letter
  *
  * @param ticker - Ticker symbol
@@ -119,23 +284,25 @@ export function validateDesignator(designator: Designator): boolean {
  * @throws CliError if invalid
  */
 function validateTicker(ticker: string): boolean {
-  if (ticker.length < 1 || ticker.length > 10) {
+  const canonical = normalizeTicker(ticker);
+
+  if (canonical.length < 1 || canonical.length > 10) {
     throw new CliError(
       `Invalid ticker "${ticker}": must be 1-10 characters long`,
     );
   }
 
   // Must start with a letter
-  if (!/^[A-Z]/.test(ticker)) {
+  if (!/^[A-Z]/.test(canonical)) {
     throw new CliError(
       `Invalid ticker "${ticker}": must start with a letter`,
     );
   }
 
-  // Only letters, numbers, hyphens, periods allowed
-  if (!/^[A-Z0-9.-]+$/.test(ticker)) {
+  // Only letters, numbers, separators allowed
+  if (!/^[A-Z0-9.]+$/.test(canonical)) {
     throw new CliError(
-      `Invalid ticker "${ticker}": only letters, numbers, hyphens, and periods allowed`,
+      `Invalid ticker "${ticker}": only letters, numbers, and share class separators (. - / space) allowed`,
     );
   }
 
@@ -143,12 +310,13 @@ function validateTicker(ticker: string): boolean {
 }
 
 /**
- * Validate ISIN format (basic format check, not Luhn algorithm)
+ * Validate ISIN format and check digit
  *
  * Rules:
  * - Exactly 12 characters
  * - First 2 characters are letters (country code)
  * - Remaining 10 characters are alphanumeric
+ * - Last character is a check digit matching the Luhn algorithm
  *
  * @param isin - ISIN to validate
  * @returns true if valid
@@ -175,16 +343,26 @@ function validateIsinFormat(isin: string): boolean {
     );
   }
 
+  const result = validateIsin(isin);
+  if (!result.valid) {
+    if (result.expectedCheckDigit !== undefined) {
+      throw new CliError(
+        `Invalid ISIN "${isin}": check digit should be ${result.expectedCheckDigit}`,
+      );
+    }
+    throw new CliError(`Invalid ISIN "${isin}": ${result.error}`);
+  }
+
   return true;
 }
 
 /**
- * Validate CUSIP format (basic format check, not check digit)
+ * Validate CUSIP format and check digit
  *
  * Rules:
  * - Exactly 9 characters
- * - First 8 characters are alphanumeric
- * - Last character is a check digit (number)
+ * - First 8 characters are alphanumeric (or *, @, # for private placements)
+ * - Last character is a check digit (number) matching the computed one
  *
  * @param cusip - CUSIP to validate
  * @returns true if valid
@@ -197,12 +375,170 @@ function validateCusipFormat(cusip: string): boolean {
     );
   }
 
-  // First 8 characters are alphanumeric, last is a digit
-  if (!/^[A-Z0-9]{8}[0-9]$/.test(cusip)) {
+  // First 8 characters are alphanumeric (or PPN characters), last is a digit
+  if (!/^[A-Z0-9*@#]{8}[0-9]$/.test(cusip)) {
     throw new CliError(
       `Invalid CUSIP "${cusip}": must be 8 alphanumeric characters + 1 check digit`,
     );
   }
 
+  const result = validateCusip(cusip);
+  if (!result.valid) {
+    if (result.expectedCheckDigit !== undefined) {
+      throw new CliError(
+        `Invalid CUSIP "${cusip}": check digit should be ${result.expectedCheckDigit}`,
+      );
+    }
+    throw new CliError(`Invalid CUSIP "${cusip}": ${result.error}`);
+  }
+
+  return true;
+}
+
+/**
+ * Validate SEDOL format and check digit
+ *
+ * Rules:
+ * - Exactly 7 characters
+ * - First 6 characters are digits or consonants (SEDOLs never contain vowels)
+ * - Last character is a check digit (number) matching the computed one
+ * - Country qualifier, if given, must be GB or IE
+ *
+ * @param sedol - SEDOL to validate
+ * @param country - Optional ISIN country code
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateSedolFormat(sedol: string, country?: string): boolean {
+  if (sedol.length !== 7) {
+    throw new CliError(
+      `Invalid SEDOL "${sedol}": must be exactly 7 characters`,
+    );
+  }
+
+  if (!/^[0-9BCDFGHJKLMNPQRSTVWXYZ]{6}[0-9]$/.test(sedol)) {
+    throw new CliError(
+      `Invalid SEDOL "${sedol}": must be 6 digits or consonants + 1 check digit`,
+    );
+  }
+
+  const result = validateSedol(sedol);
+  if (!result.valid) {
+    if (result.expectedCheckDigit !== undefined) {
+      throw new CliError(
+        `Invalid SEDOL "${sedol}": check digit should be ${result.expectedCheckDigit}`,
+      );
+    }
+    throw new CliError(`Invalid SEDOL "${sedol}": ${result.error}`);
+  }
+
+  if (country !== undefined && !(SEDOL_COUNTRIES as string[]).includes(country)) {
+    throw new CliError(
+      `Invalid SEDOL country "${country}": must be one of ${SEDOL_COUNTRIES.join(", ")}`,
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Validate FIGI format and check digit
+ *
+ * Rules:
+ * - Exactly 12 characters
+ * - Digits or consonants only (FIGIs never contain vowels)
+ * - Not a reserved prefix, third character "G"
+ * - Last character is a check digit (number) matching the computed one
+ *
+ * @param figi - FIGI to validate
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateFigiFormat(figi: string): boolean {
+  const result = validateFigi(figi);
+  if (!result.valid) {
+    if (result.expectedCheckDigit !== undefined) {
+      throw new CliError(
+        `Invalid FIGI "${figi}": check digit should be ${result.expectedCheckDigit}`,
+      );
+    }
+    throw new CliError(`Invalid FIGI "${figi}": ${result.error}`);
+  }
+
+  return true;
+}
+
+/**
+ * Validate LEI format and check digits
+ *
+ * Rules:
+ * - Exactly 20 characters
+ * - 18 alphanumeric characters + 2 check digits
+ * - Check digits match ISO 7064 MOD 97-10
+ *
+ * @param lei - LEI to validate
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateLeiFormat(lei: string): boolean {
+  const result = validateLei(lei);
+  if (!result.valid) {
+    if (result.expectedCheckDigits !== undefined) {
+      throw new CliError(
+        `Invalid LEI "${lei}": check digits should be ${result.expectedCheckDigits}`,
+      );
+    }
+    throw new CliError(`Invalid LEI "${lei}": ${result.error}`);
+  }
+
+  return true;
+}
+
+/**
+ * Validate WKN format
+ *
+ * Rules:
+ * - Exactly 6 characters
+ * - Digits or uppercase letters except I and O
+ * - No check digit
+ *
+ * @param wkn - WKN to validate
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateWknFormat(wkn: string): boolean {
+  const result = validateWkn(wkn);
+  if (!result.valid) {
+    throw new CliError(`Invalid WKN "${wkn}": ${result.error}`);
+  }
+
+  return true;
+}
+
+/**
+ * Validate Valor number format
+ *
+ * Rules:
+ * - 1-9 digits (leading zeros are dropped when parsing)
+ * - No check digit
+ * - Country qualifier, if given, must be CH or LI
+ *
+ * @param valor - Valor number to validate
+ * @param country - Optional ISIN country code
+ * @returns true if valid
+ * @throws CliError if invalid
+ */
+function validateValorFormat(valor: string, country?: string): boolean {
+  const result = validateValor(valor);
+  if (!result.valid) {
+    throw new CliError(`Invalid Valor number "${valor}": ${result.error}`);
+  }
+
+  if (country !== undefined && !(VALOR_COUNTRIES as string[]).includes(country)) {
+    throw new CliError(
+      `Invalid Valor country "${country}": must be one of ${VALOR_COUNTRIES.join(", ")}`,
+    );
+  }
+
   return true;
 }
@@ -0,0 +1,101 @@
+/**
+ * Offline conversion ("convert" command)
+ *
+ * Validates identifiers and computes the ones derivable from them (ISIN ↔
+ * CUSIP/SEDOL/WKN/Valor) without calling any API. The cache is only consulted
+ * to report whether identifiers are known (not at all with --skip-db).
+ */
+
+import { CliError, type Designator, type DesignatorType, parseDesignator } from "./cli.ts";
+import { explainDesignator } from "./explain.ts";
+import { PRIVATE_PLACEMENT_ERROR } from "./isin.ts";
+import { type Suggestion, suggestCorrections } from "./suggest.ts";
+
+/**
+ * Output format of the convert command (JSONL)
+ */
+export type Conversion = Partial<Record<DesignatorType, string>> & {
+  input: string;
+  source: "computed";
+  error?: string;
+  // Nearby valid identifiers, when an ISIN or CUSIP fails its check digit
+  suggestions?: Suggestion[];
+  // Whether the identifier is in the local cache (only when a cache is given)
+  cached?: boolean;
+};
+
+/**
+ * Convert a single designator offline
+ *
+ * @param input - Designator string (e.g., cusip:037833100)
+ * @param isCached - Returns whether a designator is in the local cache; without
+ *   one (--skip-db), nothing is looked up and `cached` is left out
+ * @returns The input identifier and the ones computed from it, or an error
+ *   (with suggestions for ISINs and CUSIPs failing their check digit); CINS
+ *   numbers whose country can't be inferred (see inferCusipCountry) come with
+ *   an error asking for it
+ */
+export function convertInput(input: string, isCached?: (designator: Designator) => boolean): Conversion {
+  let designator: Designator;
+  try {
+    designator = parseDesignator(input);
+  } catch (error) {
+    if (error instanceof CliError) {
+      return { input, source: "computed", error: error.message };
+    }
+    return { input, source: "computed", error: `Unexpected error: ${error}` };
+  }
+
+  if (designator.type === "name") {
+    return {
+      input,
+      source: "computed",
+      error: "Names can't be converted offline. Look them up instead (tickisinator name:...).",
+    };
+  }
+
+  const cached = (value: string) => isCached?.({ ...designator, value }) ?? false;
+
+  const explanation = explainDesignator(designator);
+  if (!explanation.valid) {
+    const output: Conversion = { input, source: "computed", error: explanation.error };
+
+    if (designator.type === "isin" || designator.type === "cusip") {
+      const suggestions = suggestCorrections(designator.type, designator.value, cached);
+      if (suggestions.length > 0) {
+        output.suggestions = suggestions;
+      }
+    }
+
+    return output;
+  }
+
+  const output: Conversion = {
+    input,
+    [designator.type]: designator.value,
+    isin: explanation.isin,
+    cusip: explanation.cusip_valid === false ? undefined : explanation.cusip,
+    sedol: explanation.sedol_valid === false ? undefined : explanation.sedol,
+    wkn: explanation.wkn_valid === false ? undefined : explanation.wkn,
+    valor: explanation.valor,
+    source: "computed",
+  };
+
+  // Input identifier wins over the (absent) computed one of the same type
+  output[designator.type] = designator.value;
+
+  // Private placement CUSIPs have no ISIN, and CINS prefixes of a region or of
+  // several countries need the country given
+  if (designator.type === "cusip" && explanation.private_placement) {
+    output.error = `${PRIVATE_PLACEMENT_ERROR}.`;
+  } else if (designator.type === "cusip" && explanation.country_code === undefined) {
+    output.error = `Cannot infer the ISIN country from CINS prefix "${designator.value[0]}"; ` +
+      `use cusip:{country}:${designator.value} to compute the ISIN.`;
+  }
+
+  if (isCached) {
+    output.cached = cached(designator.value);
+  }
+
+  return output;
+}
@@ -3,12 +3,29 @@
  *
  * Manages security identifier mappings with a relational schema:
  * - One securities table (core security data)
- * - Separate identifier tables for ticker, ISIN, CUSIP, CIK, FIGI
+ * - One issuers table (legal entities, identified by CIK and/or LEI)
+ * - Separate identifier tables for ticker, ISIN, CUSIP, SEDOL, WKN, Valor, CIK, FIGI
+ * - Full-text index over security names
  * - Supports partial data (not all identifiers required)
- * - Tracks data source and timestamps
+ * - Tracks data source (per identifier and per security field) and timestamps
+ *
+ * Several processes may share one database file: it's opened in WAL mode
+ * (readers don't block the writer), and writes run in transactions that take
+ * the write lock up front, so concurrent writers wait for each other (up to
+ * BUSY_TIMEOUT_MS) instead of interleaving.
  */
 
 import { Database as SQLiteDatabase } from "@db/sqlite";
+import type { CachedIdentifierType, PricingRetention } from "./cache.ts";
+import { migrateDatabase } from "./migrations.ts";
+import {
+  DEFAULT_SOURCE_PRECEDENCE,
+  MANUAL_SOURCE,
+  outranks,
+  sourceRank,
+  type SourcePrecedence,
+} from "./provenance.ts";
+import { normalizeTicker, tickerAliases } from "./ticker.ts";
 
 export type Database = SQLiteDatabase;
 
@@ -18,19 +35,141 @@ export interface SecurityData {
   exchange: string;
   isin?: string;
   cusip?: string;
+  sedol?: string;
+  wkn?: string;
+  valor?: string;
   cik?: string;
+  lei?: string;
   figi?: string;
+  composite_figi?: string;
+  share_class_figi?: string;
   source: string;
   security_type?: string;
   market_sector?: string;
+  // Date the ticker took effect (YYYY-MM-DD); defaults to today when it replaces another
+  valid_from?: string | null;
+  // Sources of fields that didn't come from `source` (ticker and exchange always do)
+  field_sources?: FieldSources;
 }
 
 export interface SecurityResult extends SecurityData {
   id: number;
   fetched_at?: number;
+  // Date the ticker stopped applying (YYYY-MM-DD, exclusive); null while current
+  valid_to?: string | null;
+  // Current listings, primary listing first
+  listings?: Listing[];
   pricing?: PricingData;
 }
 
+/**
+ * Fields whose source is tracked (ticker and exchange share the listing's source)
+ */
+export type SourcedField =
+  | "name"
+  | "security_type"
+  | "market_sector"
+  | "ticker"
+  | "exchange"
+  | "isin"
+  | "cusip"
+  | "sedol"
+  | "wkn"
+  | "valor"
+  | "cik"
+  | "figi"
+  | "composite_figi"
+  | "share_class_figi";
+
+/**
+ * Source that supplied each cached field of a security (unknown sources are left out)
+ */
+export type FieldSources = Partial<Record<SourcedField, string>>;
+
+/**
+ * A current ticker of a security on one exchange
+ */
+export interface Listing {
+  ticker: string;
+  exchange: string;
+  primary: boolean;
+}
+
+/**
+ * What insertSecurity does with an identifier that belongs to another security
+ * - refuse: record the conflict and write nothing (IdentifierConflictError)
+ * - overwrite: record the conflict and move the identifier to the incoming security
+ */
+export type ConflictPolicy = "refuse" | "overwrite";
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ["refuse", "overwrite"];
+
+/**
+ * Identifiers checked for conflicts (CIK is left out: it identifies the issuer,
+ * which several securities share)
+ */
+export type ConflictIdentifierType =
+  | "isin"
+  | "cusip"
+  | "sedol"
+  | "wkn"
+  | "valor"
+  | "figi"
+  | "composite_figi"
+  | "share_class_figi";
+
+/**
+ * An incoming identifier that already belonged to another security
+ */
+export interface IdentifierConflict {
+  id: number;
+  identifier_type: ConflictIdentifierType;
+  identifier: string;
+  // Security that held the identifier, and the one the incoming data describes
+  // (null once the security is removed from the cache)
+  old_security_id: number | null;
+  new_security_id: number | null;
+  source: string;
+  action: "refused" | "overwritten";
+  detected_at: number;
+}
+
+/**
+ * A recorded conflict with the securities involved, for review
+ */
+export interface ConflictReport extends IdentifierConflict {
+  old_name: string | null;
+  old_ticker: string | null;
+  new_name: string | null;
+  new_ticker: string | null;
+}
+
+/**
+ * Error for incoming data refused because of identifier conflicts
+ */
+export class IdentifierConflictError extends Error {
+  constructor(message: string, public conflicts: IdentifierConflict[]) {
+    super(message);
+    this.name = "IdentifierConflictError";
+  }
+}
+
+/**
+ * Error for a pin whose listing can't be resolved (no exchange given, and the
+ * ticker has no or several current cached listings)
+ */
+export class PinListingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PinListingError";
+  }
+}
+
+/**
+ * FIGI levels stored in identifiers_figi
+ */
+export type FigiType = "figi" | "composite" | "share_class";
+
 export interface PricingData {
   price?: number;
   change?: number;
@@ -46,104 +185,59 @@ export interface PricingData {
 }
 
 /**
- * Initialize database with schema
+ * How long a connection waits for another one's write lock before failing
+ * with SQLITE_BUSY (milliseconds)
+ */
+export const BUSY_TIMEOUT_MS = 5000;
+
+/**
+ * Open a database without touching its schema
  *
- * Creates tables if they don't exist:
- * - securities (core data)
- * - identifiers_ticker, identifiers_isin, identifiers_cusip, identifiers_cik
+ * Used by the db migrate command to inspect pending migrations; everything
+ * else should use initDatabase.
  *
  * @param dbPath - Path to SQLite database file (use ":memory:" for in-memory)
  * @returns Database instance
  */
-export function initDatabase(dbPath: string): Database {
+export function openDatabase(dbPath: string): Database {
   const db = new SQLiteDatabase(dbPath);
 
+  // Wait for concurrent writers (set first: switching to WAL needs the lock too)
+  db.exec(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+
+  // Readers and the writer don't block each other (in-memory databases ignore this)
+  db.exec("PRAGMA journal_mode = WAL");
+
   // Enable foreign keys
   db.exec("PRAGMA foreign_keys = ON");
 
-  // Core securities table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS securities (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT,
-      security_type TEXT,
-      market_sector TEXT,
-      created_at INTEGER DEFAULT (unixepoch()),
-      updated_at INTEGER DEFAULT (unixepoch())
-    )
-  `);
-
-  // Ticker identifiers (many-to-many: one security can have multiple tickers on different exchanges)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS identifiers_ticker (
-      security_id INTEGER NOT NULL,
-      ticker TEXT NOT NULL,
-      exchange TEXT DEFAULT 'US',
-      source TEXT NOT NULL,
-      fetched_at INTEGER NOT NULL,
-      PRIMARY KEY (ticker, exchange),
-      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
-    )
-  `);
-
-  // ISIN identifiers (one-to-one with security)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS identifiers_isin (
-      security_id INTEGER NOT NULL,
-      isin TEXT PRIMARY KEY,
-      source TEXT NOT NULL,
-      fetched_at INTEGER NOT NULL,
-      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
-    )
-  `);
-
-  // CUSIP identifiers (one-to-one with security)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS identifiers_cusip (
-      security_id INTEGER NOT NULL,
-      cusip TEXT PRIMARY KEY,
-      source TEXT NOT NULL,
-      fetched_at INTEGER NOT NULL,
-      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
-    )
-  `);
-
-  // CIK identifiers (SEC Central Index Key, one-to-one with security)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS identifiers_cik (
-      security_id INTEGER NOT NULL,
-      cik TEXT PRIMARY KEY,
-      source TEXT NOT NULL,
-      fetched_at INTEGER NOT NULL,
-      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
-    )
-  `);
-
-  // Pricing data (separate table since prices change frequently)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS pricing (
-      security_id INTEGER PRIMARY KEY,
-      price REAL,
-      change REAL,
-      change_percentage REAL,
-      market_cap REAL,
-      volume REAL,
-      average_volume REAL,
-      beta REAL,
-      last_dividend REAL,
-      range TEXT,
-      is_actively_trading INTEGER DEFAULT 1,
-      price_fetched_at INTEGER NOT NULL,
-      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
-    )
-  `);
+  return db;
+}
+
+/**
+ * Initialize database with schema
+ *
+ * Opens the database and applies pending schema migrations (see migrations.ts).
+ * The schema consists of:
+ * - issuers (legal entities)
+ * - securities (core data, linked to issuers)
+ * - identifiers_ticker, identifiers_isin, identifiers_cusip, identifiers_sedol, identifiers_wkn,
+ *   identifiers_valor, identifiers_cik, identifiers_figi
+ * - pricing
+ *
+ * @param dbPath - Path to SQLite database file (use ":memory:" for in-memory)
+ * @returns Database instance
+ * @throws SchemaVersionError if the database was created by a newer version
+ */
+export function initDatabase(dbPath: string): Database {
+  const db = openDatabase(dbPath);
 
-  // Create indexes for faster lookups
-  db.exec(`CREATE INDEX IF NOT EXISTS idx_ticker ON identifiers_ticker(ticker, exchange)`);
-  db.exec(`CREATE INDEX IF NOT EXISTS idx_isin ON identifiers_isin(isin)`);
-  db.exec(`CREATE INDEX IF NOT EXISTS idx_cusip ON identifiers_cusip(cusip)`);
-  db.exec(`CREATE INDEX IF NOT EXISTS idx_cik ON identifiers_cik(cik)`);
-  db.exec(`CREATE INDEX IF NOT EXISTS idx_pricing_security ON pricing(security_id)`);
+  try {
+    migrateDatabase(db);
+  } catch (error) {
+    db.close();
+    throw error;
+  }
 
   return db;
 }
@@ -151,28 +245,116 @@ export function initDatabase(dbPath: string): Database {
 /**
  * Insert or update security with identifiers
  *
+ * Tickers are stored in canonical form (see normalizeTicker).
+ *
  * Strategy:
- * 1. Check if security exists (by ticker+exchange, ISIN, or CUSIP)
+ * 1. Check if security exists (by ticker+exchange in any spelling, ISIN, CUSIP, SEDOL, WKN, Valor, or FIGI)
+ *    A ticker whose current holder has a different ISIN (or, without ISINs to compare,
+ *    belongs to an issuer with a different CIK) counts as reassigned, not as a match.
  * 2. If exists, get security_id and update
  * 3. If not, create new security record
- * 4. Upsert all provided identifiers
+ * 4. Upsert all provided identifiers; ticker rows are closed (valid_to) rather than
+ *    overwritten when a ticker is reassigned or a security's ticker changes
+ *
+ * Identifiers that already belong to a different security are recorded in
+ * identifier_conflicts. A more trusted source than the one holding them
+ * corrects them (moves them, recorded as overwritten); otherwise the conflict
+ * policy (default: refuse) decides.
+ *
+ * Values supplied by a more trusted source (see provenance.ts) are kept: the
+ * incoming source (per field, with field_sources) can't change the security's
+ * name, type or market sector, take over or add to its identifiers, or move
+ * them to another security. Missing incoming values never clear stored ones.
+ *
+ * Everything (lookups included) runs in one immediate transaction, or a
+ * savepoint inside the caller's transaction, so concurrent writers never see
+ * or leave a partially written security.
  *
  * @param db - Database instance
  * @param security - Security data with identifiers
+ * @param options - conflictPolicy: refuse or overwrite conflicting identifiers;
+ *   precedence: sources, most trusted first (default: DEFAULT_SOURCE_PRECEDENCE);
+ *   fetchedAt: when the data was fetched (Unix seconds, default: now)
  * @returns security_id
+ * @throws IdentifierConflictError if conflicts are refused (only the conflicts are recorded)
  */
-export function insertSecurity(db: Database, security: SecurityData): number {
-  const timestamp = Math.floor(Date.now() / 1000);
+export function insertSecurity(
+  db: Database,
+  security: SecurityData,
+  options: { conflictPolicy?: ConflictPolicy; precedence?: SourcePrecedence; fetchedAt?: number } = {},
+): number {
+  // A refusal is returned rather than thrown, so the recorded conflicts commit
+  const result = db.transaction(() => writeSecurity(db, security, options)).immediate();
+
+  if (result.refused) {
+    throw new IdentifierConflictError(
+      result.refused
+        .map((c) => `${c.identifier_type} ${c.identifier} already belongs to security ${c.old_security_id}`)
+        .join("; "),
+      result.refused,
+    );
+  }
+
+  return result.securityId;
+}
+
+/**
+ * Write a security and its identifiers (see insertSecurity), inside a transaction
+ *
+ * @returns security_id, or the recorded conflicts if they were refused (nothing else is written)
+ */
+function writeSecurity(
+  db: Database,
+  security: SecurityData,
+  options: { conflictPolicy?: ConflictPolicy; precedence?: SourcePrecedence; fetchedAt?: number },
+): { securityId: number; refused?: undefined } | { securityId?: undefined; refused: IdentifierConflict[] } {
+  const now = Math.floor(Date.now() / 1000);
+  const timestamp = options.fetchedAt ?? now;
+  const conflictPolicy = options.conflictPolicy ?? "refuse";
+  const precedence = options.precedence ?? DEFAULT_SOURCE_PRECEDENCE;
+  const sourceOf = (field: SourcedField) => security.field_sources?.[field] ?? security.source;
+
+  // Tickers are stored in canonical form, but older rows may use another spelling
+  const ticker = normalizeTicker(security.ticker);
+  const aliases = tickerAliases(ticker);
+  const aliasPlaceholders = aliases.map(() => "?").join(", ");
 
-  // Try to find existing security by ticker+exchange
+  // Current holder of the ticker on this exchange
+  const currentTicker = db.prepare(`
+    SELECT id, security_id, source FROM identifiers_ticker
+    WHERE ticker IN (${aliasPlaceholders}) AND exchange = ? AND valid_to IS NULL
+  `).get(...aliases, security.exchange) as
+    | { id: number; security_id: number; source: string | null }
+    | undefined;
+
+  // Try to find existing security by ticker+exchange, unless the holder has other
+  // ISINs or, when ISINs can't tell, another issuer's CIK (then the ticker has
+  // been reassigned to a different security). Only a source at least as trusted
+  // as the holder's can reassign a ticker.
   let securityId: number | undefined;
 
-  const existingByTicker = db.prepare(
-    "SELECT security_id FROM identifiers_ticker WHERE ticker = ? AND exchange = ?"
-  ).get(security.ticker, security.exchange) as { security_id: number } | undefined;
+  if (currentTicker) {
+    const holderIsins = db.prepare(`
+      SELECT COUNT(*) AS total, COUNT(CASE WHEN isin = ? THEN 1 END) AS matching
+      FROM identifiers_isin
+      WHERE security_id = ?
+    `).get(security.isin ?? null, currentTicker.security_id) as { total: number; matching: number };
+
+    const holderCik = db.prepare(`
+      SELECT e.cik FROM securities AS s JOIN issuers AS e ON s.issuer_id = e.id WHERE s.id = ?
+    `).get(currentTicker.security_id) as { cik: string | null } | undefined;
 
-  if (existingByTicker) {
-    securityId = existingByTicker.security_id;
+    const sameIsin = !security.isin || holderIsins.total === 0 || holderIsins.matching > 0;
+    const sameIssuer = !security.cik || !holderCik?.cik || holderCik.cik === security.cik;
+
+    // A more trusted listing keeps its security; so does a pinned one, which
+    // later pins correct in place
+    const trustedHolder = outranks(currentTicker.source, security.source, precedence) ||
+      currentTicker.source === MANUAL_SOURCE;
+
+    if (holderIsins.matching > 0 || (sameIsin && sameIssuer) || trustedHolder) {
+      securityId = currentTicker.security_id;
+    }
   }
 
   // If not found by ticker, try ISIN
@@ -197,283 +379,1322 @@ export function insertSecurity(db: Database, security: SecurityData): number {
     }
   }
 
+  // If not found by CUSIP, try SEDOL
+  if (!securityId && security.sedol) {
+    const existingBySedol = db.prepare(
+      "SELECT security_id FROM identifiers_sedol WHERE sedol = ?"
+    ).get(security.sedol) as { security_id: number } | undefined;
+
+    if (existingBySedol) {
+      securityId = existingBySedol.security_id;
+    }
+  }
+
+  // If not found by SEDOL, try WKN
+  if (!securityId && security.wkn) {
+    const existingByWkn = db.prepare(
+      "SELECT security_id FROM identifiers_wkn WHERE wkn = ?"
+    ).get(security.wkn) as { security_id: number } | undefined;
+
+    if (existingByWkn) {
+      securityId = existingByWkn.security_id;
+    }
+  }
+
+  // If not found by WKN, try Valor
+  if (!securityId && security.valor) {
+    const existingByValor = db.prepare(
+      "SELECT security_id FROM identifiers_valor WHERE valor = ?"
+    ).get(security.valor) as { security_id: number } | undefined;
+
+    if (existingByValor) {
+      securityId = existingByValor.security_id;
+    }
+  }
+
+  // FIGIs provided, by level
+  const figis: [FigiType, string | undefined][] = [
+    ["figi", security.figi],
+    ["composite", security.composite_figi],
+    ["share_class", security.share_class_figi],
+  ];
+
+  // If not found by Valor, try FIGI (any level)
+  for (const [figiType, figi] of figis) {
+    if (securityId || !figi) {
+      continue;
+    }
+
+    const existingByFigi = db.prepare(
+      "SELECT security_id FROM identifiers_figi WHERE figi = ? AND figi_type = ?"
+    ).get(figi, figiType) as { security_id: number } | undefined;
+
+    if (existingByFigi) {
+      securityId = existingByFigi.security_id;
+    }
+  }
+
+  // Identifiers the incoming data would take from another security. A more
+  // trusted source corrects them; only the others are refused by the policy.
+  const conflicts = findConflicts(db, security, figis, securityId);
+  const unresolved = conflicts.filter((c) =>
+    sourceRank(sourceOf(c.identifier_type), precedence) >= sourceRank(c.held_source, precedence)
+  );
+
+  if (unresolved.length > 0 && conflictPolicy === "refuse") {
+    return { refused: recordConflicts(db, unresolved, securityId ?? null, security.source, "refused", now) };
+  }
+
+  // Security fields provided, each stored with its source
+  const fields = ([
+    ["name", security.name],
+    ["security_type", security.security_type],
+    ["market_sector", security.market_sector],
+  ] as [SourcedField, string | undefined][]).filter(([, value]) => value);
+  let written = fields;
+
   // Create new security if not found
   if (!securityId) {
     db.prepare(`
-      INSERT INTO securities (name, security_type, market_sector, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(
-      security.name,
-      security.security_type || null,
-      security.market_sector || null,
-      timestamp,
-      timestamp
-    );
+      INSERT INTO securities (${fields.map(([field]) => `${field}, ${field}_source, `).join("")}created_at, updated_at)
+      VALUES (${fields.map(() => "?, ?, ").join("")}?, ?)
+    `).run(...fields.flatMap(([field, value]) => [value, sourceOf(field)]), timestamp, timestamp);
 
     securityId = Number(db.lastInsertRowId);
   } else {
-    // Update existing security
+    // Update existing security, keeping fields supplied by a more trusted source
+    const held = db.prepare(
+      "SELECT name_source, security_type_source, market_sector_source FROM securities WHERE id = ?"
+    ).get(securityId) as Record<string, string | null>;
+
+    written = fields.filter(([field]) => !outranks(held[`${field}_source`], sourceOf(field), precedence));
+
     db.prepare(`
       UPDATE securities
-      SET name = ?, security_type = ?, market_sector = ?, updated_at = ?
+      SET ${written.map(([field]) => `${field} = ?, ${field}_source = ?, `).join("")}updated_at = ?
       WHERE id = ?
-    `).run(
-      security.name,
-      security.security_type || null,
-      security.market_sector || null,
-      timestamp,
-      securityId
-    );
+    `).run(...written.flatMap(([field, value]) => [value, sourceOf(field)]), timestamp, securityId);
   }
 
-  // Upsert ticker identifier
-  db.prepare(`
-    INSERT INTO identifiers_ticker (security_id, ticker, exchange, source, fetched_at)
-    VALUES (?, ?, ?, ?, ?)
-    ON CONFLICT(ticker, exchange) DO UPDATE SET
-      security_id = excluded.security_id,
-      source = excluded.source,
-      fetched_at = excluded.fetched_at
-  `).run(securityId, security.ticker, security.exchange, security.source, timestamp);
+  // Identifiers held by a more trusted source stay with their security
+  const protectedConflicts = conflicts.filter((c) =>
+    outranks(c.held_source, sourceOf(c.identifier_type), precedence)
+  );
+  const movedConflicts = conflicts.filter((c) => !protectedConflicts.includes(c));
 
-  // Upsert ISIN if provided
-  if (security.isin) {
-    db.prepare(`
-      INSERT INTO identifiers_isin (security_id, isin, source, fetched_at)
-      VALUES (?, ?, ?, ?)
-      ON CONFLICT(isin) DO UPDATE SET
-        security_id = excluded.security_id,
-        source = excluded.source,
-        fetched_at = excluded.fetched_at
-    `).run(securityId, security.isin, security.source, timestamp);
+  if (protectedConflicts.length > 0) {
+    recordConflicts(db, protectedConflicts, securityId, security.source, "refused", now);
   }
 
-  // Upsert CUSIP if provided
-  if (security.cusip) {
-    db.prepare(`
-      INSERT INTO identifiers_cusip (security_id, cusip, source, fetched_at)
-      VALUES (?, ?, ?, ?)
-      ON CONFLICT(cusip) DO UPDATE SET
-        security_id = excluded.security_id,
-        source = excluded.source,
-        fetched_at = excluded.fetched_at
-    `).run(securityId, security.cusip, security.source, timestamp);
+  if (movedConflicts.length > 0) {
+    recordConflicts(db, movedConflicts, securityId, security.source, "overwritten", now);
   }
 
-  // Upsert CIK if provided
-  if (security.cik) {
+  if (written.some(([field]) => field === "name")) {
+    indexSecurityName(db, securityId, security.name);
+  }
+
+  // Link security to its issuer (by CIK and/or LEI)
+  const issuerId = upsertIssuer(db, security, timestamp);
+  if (issuerId !== null) {
+    db.prepare("UPDATE securities SET issuer_id = ? WHERE id = ?").run(issuerId, securityId);
+  }
+
+  // Ticker history: a ticker belongs to one security at a time, and a security
+  // has one current ticker per exchange. Replaced rows are closed, not overwritten.
+  const effectiveDate = security.valid_from ?? toIsoDate(timestamp);
+  let closed = 0;
+
+  // A ticker change needs a source at least as trusted as the ticker it replaces
+  const replacedSources = db.prepare(`
+    SELECT source FROM identifiers_ticker
+    WHERE security_id = ? AND exchange = ? AND valid_to IS NULL AND ticker NOT IN (${aliasPlaceholders})
+  `).all(securityId, security.exchange, ...aliases) as { source: string | null }[];
+
+  if (!replacedSources.some((row) => outranks(row.source, security.source, precedence))) {
+    // Ticker reassigned: close the previous holder's row
+    if (currentTicker && currentTicker.security_id !== securityId) {
+      closed += db.prepare(
+        "UPDATE identifiers_ticker SET valid_to = ? WHERE id = ?"
+      ).run(effectiveDate, currentTicker.id);
+    }
+
+    // Ticker changed (e.g., FB → META): close the security's old ticker on this exchange
+    closed += db.prepare(`
+      UPDATE identifiers_ticker SET valid_to = ?
+      WHERE security_id = ? AND exchange = ? AND valid_to IS NULL AND ticker NOT IN (${aliasPlaceholders})
+    `).run(effectiveDate, securityId, security.exchange, ...aliases);
+
+    // Replace other spellings of the ticker with the canonical one
     db.prepare(`
-      INSERT INTO identifiers_cik (security_id, cik, source, fetched_at)
-      VALUES (?, ?, ?, ?)
-      ON CONFLICT(cik) DO UPDATE SET
-        security_id = excluded.security_id,
-        source = excluded.source,
-        fetched_at = excluded.fetched_at
-    `).run(securityId, security.cik, security.source, timestamp);
+      DELETE FROM identifiers_ticker
+      WHERE security_id = ? AND exchange = ? AND valid_to IS NULL
+        AND ticker IN (${aliasPlaceholders}) AND ticker != ?
+    `).run(securityId, security.exchange, ...aliases, ticker);
+
+    // Refresh the current ticker row (keeping a more trusted source), or start a new one
+    const listing = db.prepare(`
+      SELECT id, source FROM identifiers_ticker
+      WHERE security_id = ? AND ticker = ? AND exchange = ? AND valid_to IS NULL
+    `).get(securityId, ticker, security.exchange) as { id: number; source: string | null } | undefined;
+
+    if (listing) {
+      db.prepare("UPDATE identifiers_ticker SET source = ?, fetched_at = ? WHERE id = ?").run(
+        outranks(listing.source, security.source, precedence) ? listing.source : security.source,
+        timestamp,
+        listing.id,
+      );
+    } else {
+      // Start is only known when this replaces something; otherwise it's open-ended
+      const hasHistory = db.prepare(
+        "SELECT 1 FROM identifiers_ticker WHERE ticker = ? AND exchange = ?"
+      ).get(ticker, security.exchange) !== undefined;
+
+      db.prepare(`
+        INSERT INTO identifiers_ticker (security_id, ticker, exchange, source, fetched_at, valid_from)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        securityId,
+        ticker,
+        security.exchange,
+        security.source,
+        timestamp,
+        closed > 0 || hasHistory ? effectiveDate : null,
+      );
+    }
+  }
+
+  // Upsert identifiers if provided
+  const identifiers: [string, SourcedField, string | undefined][] = [
+    ["identifiers_isin", "isin", security.isin],
+    ["identifiers_cusip", "cusip", security.cusip],
+    ["identifiers_sedol", "sedol", security.sedol],
+    ["identifiers_wkn", "wkn", security.wkn],
+    ["identifiers_valor", "valor", security.valor],
+    ["identifiers_cik", "cik", security.cik],
+  ];
+
+  for (const [table, column, value] of identifiers) {
+    if (value) {
+      upsertIdentifier(db, { table, column, value }, securityId, sourceOf(column), timestamp, precedence);
+    }
+  }
+
+  for (const [figiType, figi] of figis) {
+    if (figi) {
+      upsertIdentifier(
+        db,
+        { table: "identifiers_figi", column: "figi", value: figi, figiType },
+        securityId,
+        sourceOf(figiType === "figi" ? "figi" : `${figiType}_figi`),
+        timestamp,
+        precedence,
+      );
+    }
   }
 
-  return securityId;
+  return { securityId };
 }
 
 /**
- * Lookup security by ticker and exchange
+ * Store one identifier of a security, unless a more trusted source holds it
+ *
+ * A row held by a more trusted source keeps its source and security; it's only
+ * marked as fetched again when the incoming data confirms it. A security with a
+ * value of this type from a more trusted source gets no other values from a
+ * less trusted one.
  *
  * @param db - Database instance
- * @param ticker - Ticker symbol
- * @param exchange - Exchange code (default: "US")
- * @returns SecurityResult or null if not found
+ * @param identifier - Table, column and value (and FIGI level, for identifiers_figi)
+ * @param securityId - Security the identifier belongs to
+ * @param source - Incoming source
+ * @param timestamp - Fetch timestamp
+ * @param precedence - Sources, most trusted first
  */
-export function lookupByTicker(
+function upsertIdentifier(
   db: Database,
-  ticker: string,
-  exchange?: string
-): SecurityResult | null {
-  // If exchange is provided, filter by it; otherwise search across all exchanges
-  const query = exchange
-    ? `
-    SELECT
-      s.id,
-      s.name,
-      s.security_type,
-      s.market_sector,
-      t.ticker,
-      t.exchange,
-      t.fetched_at,
-      i.isin,
-      c.cusip,
-      k.cik
-    FROM identifiers_ticker AS t
-    JOIN securities AS s ON t.security_id = s.id
-    LEFT JOIN identifiers_isin AS i ON s.id = i.security_id
-    LEFT JOIN identifiers_cusip AS c ON s.id = c.security_id
-    LEFT JOIN identifiers_cik AS k ON s.id = k.security_id
-    WHERE t.ticker = ? AND t.exchange = ?
-  `
-    : `
-    SELECT
-      s.id,
-      s.name,
-      s.security_type,
-      s.market_sector,
-      t.ticker,
-      t.exchange,
-      t.fetched_at,
-      i.isin,
-      c.cusip,
-      k.cik
-    FROM identifiers_ticker AS t
-    JOIN securities AS s ON t.security_id = s.id
-    LEFT JOIN identifiers_isin AS i ON s.id = i.security_id
-    LEFT JOIN identifiers_cusip AS c ON s.id = c.security_id
-    LEFT JOIN identifiers_cik AS k ON s.id = k.security_id
-    WHERE t.ticker = ?
-    LIMIT 1
-  `;
+  identifier: { table: string; column: string; value: string; figiType?: FigiType },
+  securityId: number,
+  source: string,
+  timestamp: number,
+  precedence: SourcePrecedence,
+): void {
+  const { table, column, value, figiType } = identifier;
+  const levelCondition = figiType ? " AND figi_type = ?" : "";
+  const level = figiType ? [figiType] : [];
 
-  const result = exchange
-    ? db.prepare(query).get(ticker, exchange)
-    : db.prepare(query).get(ticker) as any;
+  const existing = db.prepare(
+    `SELECT rowid AS id, security_id, source FROM ${table} WHERE ${column} = ?${levelCondition}`
+  ).get(value, ...level) as { id: number; security_id: number; source: string | null } | undefined;
 
-  if (!result) {
-    return null;
+  if (existing && outranks(existing.source, source, precedence)) {
+    if (existing.security_id === securityId) {
+      db.prepare(`UPDATE ${table} SET fetched_at = ? WHERE rowid = ?`).run(timestamp, existing.id);
+    }
+    return;
   }
 
-  return {
-    id: result.id,
-    name: result.name,
-    ticker: result.ticker,
-    exchange: result.exchange,
-    isin: result.isin || null,
-    cusip: result.cusip || null,
-    cik: result.cik || null,
-    security_type: result.security_type || null,
-    market_sector: result.market_sector || null,
-    source: "db",
-    fetched_at: result.fetched_at,
-  };
+  if (!existing) {
+    const held = db.prepare(
+      `SELECT source FROM ${table} WHERE security_id = ?${levelCondition}`
+    ).all(securityId, ...level) as { source: string | null }[];
+
+    if (held.some((row) => outranks(row.source, source, precedence))) {
+      return;
+    }
+  }
+
+  db.prepare(`
+    INSERT INTO ${table} (security_id, ${column}, ${figiType ? "figi_type, " : ""}source, fetched_at)
+    VALUES (?, ?, ${figiType ? "?, " : ""}?, ?)
+    ON CONFLICT(${column}${figiType ? ", figi_type" : ""}) DO UPDATE SET
+      security_id = excluded.security_id,
+      source = excluded.source,
+      fetched_at = excluded.fetched_at
+  `).run(securityId, value, ...level, source, timestamp);
 }
 
 /**
- * Lookup security by ISIN
+ * An incoming identifier held by another security, with the source that supplied it
+ */
+type DetectedConflict = Pick<IdentifierConflict, "identifier_type" | "identifier" | "old_security_id"> & {
+  held_source: string | null;
+};
+
+/**
+ * Find incoming identifiers that belong to a security other than the matched one
  *
  * @param db - Database instance
- * @param isin - ISIN code
- * @returns SecurityResult or null if not found
+ * @param security - Incoming security data
+ * @param figis - Incoming FIGIs, by level
+ * @param securityId - Matched security (undefined if the data describes a new one)
+ * @returns Conflicting identifiers with their current owner and source
  */
-export function lookupByIsin(db: Database, isin: string): SecurityResult | null {
-  const result = db.prepare(`
-    SELECT
-      s.id,
-      s.name,
-      s.security_type,
-      s.market_sector,
-      i.isin,
-      i.fetched_at,
-      t.ticker,
-      t.exchange,
-      c.cusip,
-      k.cik
-    FROM identifiers_isin AS i
-    JOIN securities AS s ON i.security_id = s.id
-    LEFT JOIN identifiers_ticker AS t ON s.id = t.security_id
-    LEFT JOIN identifiers_cusip AS c ON s.id = c.security_id
-    LEFT JOIN identifiers_cik AS k ON s.id = k.security_id
-    WHERE i.isin = ?
-  `).get(isin) as any;
+function findConflicts(
+  db: Database,
+  security: SecurityData,
+  figis: [FigiType, string | undefined][],
+  securityId: number | undefined,
+): DetectedConflict[] {
+  const identifiers: [ConflictIdentifierType, string | undefined, string][] = [
+    ["isin", security.isin, "SELECT security_id, source FROM identifiers_isin WHERE isin = ?"],
+    ["cusip", security.cusip, "SELECT security_id, source FROM identifiers_cusip WHERE cusip = ?"],
+    ["sedol", security.sedol, "SELECT security_id, source FROM identifiers_sedol WHERE sedol = ?"],
+    ["wkn", security.wkn, "SELECT security_id, source FROM identifiers_wkn WHERE wkn = ?"],
+    ["valor", security.valor, "SELECT security_id, source FROM identifiers_valor WHERE valor = ?"],
+  ];
 
-  if (!result) {
-    return null;
+  for (const [figiType, figi] of figis) {
+    identifiers.push([
+      figiType === "figi" ? "figi" : `${figiType}_figi` as ConflictIdentifierType,
+      figi,
+      `SELECT security_id, source FROM identifiers_figi WHERE figi = ? AND figi_type = '${figiType}'`,
+    ]);
   }
 
-  return {
-    id: result.id,
-    name: result.name,
-    ticker: result.ticker || null,
-    exchange: result.exchange || null,
-    isin: result.isin,
-    cusip: result.cusip || null,
-    cik: result.cik || null,
-    security_type: result.security_type || null,
-    market_sector: result.market_sector || null,
-    source: "db",
-    fetched_at: result.fetched_at,
-  };
+  const conflicts: DetectedConflict[] = [];
+
+  for (const [identifierType, identifier, query] of identifiers) {
+    if (!identifier) {
+      continue;
+    }
+
+    const owner = db.prepare(query).get(identifier) as
+      | { security_id: number; source: string | null }
+      | undefined;
+
+    if (owner && owner.security_id !== securityId) {
+      conflicts.push({
+        identifier_type: identifierType,
+        identifier,
+        old_security_id: owner.security_id,
+        held_source: owner.source,
+      });
+    }
+  }
+
+  return conflicts;
 }
 
 /**
- * Lookup security by CUSIP
+ * Store detected conflicts in identifier_conflicts
+ *
+ * @returns The stored conflicts
+ */
+function recordConflicts(
+  db: Database,
+  conflicts: DetectedConflict[],
+  newSecurityId: number | null,
+  source: string,
+  action: IdentifierConflict["action"],
+  timestamp: number,
+): IdentifierConflict[] {
+  return conflicts.map(({ held_source: _, ...conflict }) => {
+    db.prepare(`
+      INSERT INTO identifier_conflicts
+        (identifier_type, identifier, old_security_id, new_security_id, source, action, detected_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      conflict.identifier_type,
+      conflict.identifier,
+      conflict.old_security_id,
+      newSecurityId,
+      source,
+      action,
+      timestamp,
+    );
+
+    return {
+      id: Number(db.lastInsertRowId),
+      ...conflict,
+      new_security_id: newSecurityId,
+      source,
+      action,
+      detected_at: timestamp,
+    };
+  });
+}
+
+/**
+ * Get recorded identifier conflicts, oldest first, with the name and primary
+ * ticker of both securities (null once removed from the cache)
  *
  * @param db - Database instance
- * @param cusip - CUSIP code
- * @returns SecurityResult or null if not found
+ * @returns All conflicts
  */
-export function lookupByCusip(db: Database, cusip: string): SecurityResult | null {
-  const result = db.prepare(`
+export function getConflicts(db: Database): ConflictReport[] {
+  const rows = db.prepare(`
+    SELECT
+      c.id,
+      c.identifier_type,
+      c.identifier,
+      c.old_security_id,
+      o.name AS old_name,
+      c.new_security_id,
+      n.name AS new_name,
+      c.source,
+      c.action,
+      c.detected_at
+    FROM identifier_conflicts AS c
+    LEFT JOIN securities AS o ON c.old_security_id = o.id
+    LEFT JOIN securities AS n ON c.new_security_id = n.id
+    ORDER BY c.detected_at, c.id
+  `).all() as Omit<ConflictReport, "old_ticker" | "new_ticker">[];
+
+  const primaryTicker = (securityId: number | null) =>
+    securityId === null ? null : getListings(db, securityId)[0]?.ticker ?? null;
+
+  return rows.map((row) => ({
+    ...row,
+    old_ticker: primaryTicker(row.old_security_id),
+    new_ticker: primaryTicker(row.new_security_id),
+  }));
+}
+
+/**
+ * Keep a security's name in the full-text index (securities_fts)
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID (rowid in securities_fts)
+ * @param name - Current name
+ */
+function indexSecurityName(db: Database, securityId: number, name: string | undefined): void {
+  db.prepare("DELETE FROM securities_fts WHERE rowid = ?").run(securityId);
+
+  if (name) {
+    db.prepare("INSERT INTO securities_fts (rowid, name) VALUES (?, ?)").run(securityId, name);
+  }
+}
+
+/**
+ * Format a Unix timestamp as an ISO date (YYYY-MM-DD, UTC)
+ */
+function toIsoDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().substring(0, 10);
+}
+
+/**
+ * Add an issuer's CIK to a cached security, leaving its fields and listings alone
+ *
+ * For sources that know a listing's issuer but nothing else about a security
+ * another source described (e.g., SEC company tickers for a listing cached from
+ * FMP): only the CIK row and the issuer link are written, with that source.
+ *
+ * @param db - Database instance
+ * @param securityId - Cached security
+ * @param issuer - CIK, and the name for a new issuer
+ * @param options - source: source of the CIK; precedence: sources, most trusted first
+ */
+export function insertIssuerCik(
+  db: Database,
+  securityId: number,
+  issuer: { cik: string; name: string },
+  options: { source: string; precedence?: SourcePrecedence },
+): void {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const precedence = options.precedence ?? DEFAULT_SOURCE_PRECEDENCE;
+
+  db.transaction(() => {
+    const issuerId = upsertIssuer(db, issuer, timestamp);
+    db.prepare("UPDATE securities SET issuer_id = ? WHERE id = ?").run(issuerId, securityId);
+
+    upsertIdentifier(
+      db,
+      { table: "identifiers_cik", column: "cik", value: issuer.cik },
+      securityId,
+      options.source,
+      timestamp,
+      precedence,
+    );
+  }).immediate();
+}
+
+/**
+ * Find or create the issuer for a security
+ *
+ * Issuers are matched by CIK first, then LEI. A matched issuer gets any
+ * identifier it was missing; an unmatched one is created with the security's name.
+ *
+ * @param db - Database instance
+ * @param security - Security data (name, cik and lei are used)
+ * @param timestamp - Update timestamp
+ * @returns issuer_id, or null if the security has neither CIK nor LEI
+ */
+function upsertIssuer(
+  db: Database,
+  security: Pick<SecurityData, "name" | "cik" | "lei">,
+  timestamp: number,
+): number | null {
+  if (!security.cik && !security.lei) {
+    return null;
+  }
+
+  let existing: { id: number } | undefined;
+
+  if (security.cik) {
+    existing = db.prepare("SELECT id FROM issuers WHERE cik = ?").get(security.cik) as
+      | { id: number }
+      | undefined;
+  }
+
+  if (!existing && security.lei) {
+    existing = db.prepare("SELECT id FROM issuers WHERE lei = ?").get(security.lei) as
+      | { id: number }
+      | undefined;
+  }
+
+  if (!existing) {
+    db.prepare(`
+      INSERT INTO issuers (name, cik, lei, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(security.name, security.cik || null, security.lei || null, timestamp, timestamp);
+
+    return Number(db.lastInsertRowId);
+  }
+
+  // Fill in missing identifiers, unless another issuer already holds them
+  db.prepare(`
+    UPDATE issuers
+    SET
+      cik = COALESCE(cik, (SELECT ?1 WHERE NOT EXISTS (SELECT 1 FROM issuers WHERE cik = ?1))),
+      lei = COALESCE(lei, (SELECT ?2 WHERE NOT EXISTS (SELECT 1 FROM issuers WHERE lei = ?2))),
+      updated_at = ?3
+    WHERE id = ?4
+  `).run(security.cik || null, security.lei || null, timestamp, existing.id);
+
+  return existing.id;
+}
+
+/**
+ * Security fields selected by lookups, from the securities table (s), its
+ * identifiers and its issuer (see SECURITY_JOINS)
+ */
+const SECURITY_COLUMNS = `
+  s.id,
+  s.name,
+  s.security_type,
+  s.market_sector,
+  i.isin,
+  c.cusip,
+  d.sedol,
+  COALESCE(k.cik, e.cik) AS cik,
+  e.lei,
+  w.wkn,
+  v.valor
+`;
+
+/**
+ * Joins of the securities table (s) with the identifiers and issuer selected
+ * by SECURITY_COLUMNS
+ */
+const SECURITY_JOINS = `
+  LEFT JOIN identifiers_isin AS i ON s.id = i.security_id
+  LEFT JOIN identifiers_cusip AS c ON s.id = c.security_id
+  LEFT JOIN identifiers_sedol AS d ON s.id = d.security_id
+  LEFT JOIN identifiers_cik AS k ON s.id = k.security_id
+  LEFT JOIN identifiers_wkn AS w ON s.id = w.security_id
+  LEFT JOIN identifiers_valor AS v ON s.id = v.security_id
+  LEFT JOIN issuers AS e ON s.issuer_id = e.id
+`;
+
+/**
+ * Row of a lookup query (SECURITY_COLUMNS plus a fetched_at)
+ */
+interface SecurityRow {
+  id: number;
+  name: string;
+  security_type: string | null;
+  market_sector: string | null;
+  isin: string | null;
+  cusip: string | null;
+  sedol: string | null;
+  cik: string | null;
+  lei: string | null;
+  wkn: string | null;
+  valor: string | null;
+  fetched_at: number;
+}
+
+/**
+ * Row of a ticker lookup: a SecurityRow with the listing that matched
+ */
+interface ListingRow extends SecurityRow {
+  ticker: string;
+  exchange: string;
+  valid_from: string | null;
+  valid_to: string | null;
+}
+
+/**
+ * Convert a lookup row to a SecurityResult, listed by its primary listing
+ * (identifiers the security doesn't have are null, as lookups always returned)
+ */
+function rowToSecurity(db: Database, row: SecurityRow): SecurityResult {
+  const listings = getListings(db, row.id);
+
+  return {
+    id: row.id,
+    name: row.name,
+    ticker: listings[0]?.ticker ?? null,
+    exchange: listings[0]?.exchange ?? null,
+    isin: row.isin || null,
+    cusip: row.cusip || null,
+    sedol: row.sedol || null,
+    cik: row.cik || null,
+    lei: row.lei || null,
+    wkn: row.wkn || null,
+    valor: row.valor || null,
+    security_type: row.security_type || null,
+    market_sector: row.market_sector || null,
+    ...getFigis(db, row.id),
+    listings,
+    source: "db",
+    fetched_at: row.fetched_at,
+  } as SecurityResult;
+}
+
+/**
+ * Lookup security by ticker and exchange
+ *
+ * Any spelling of the ticker matches (BRK.B, BRK-B, BRK/B, "BRK B").
+ * Without a date, only current tickers match; with one, the security that held
+ * the ticker on that date.
+ *
+ * @param db - Database instance
+ * @param ticker - Ticker symbol
+ * @param exchange - Exchange code (default: any exchange)
+ * @param asOf - Date (YYYY-MM-DD) the ticker was held (default: now)
+ * @returns SecurityResult or null if not found
+ */
+export function lookupByTicker(
+  db: Database,
+  ticker: string,
+  exchange?: string,
+  asOf?: string,
+): SecurityResult | null {
+  const aliases = tickerAliases(ticker);
+  const aliasPlaceholders = aliases.map(() => "?").join(", ");
+
+  const conditions = [`t.ticker IN (${aliasPlaceholders})`];
+  const params: string[] = [...aliases];
+
+  // If exchange is provided, filter by it; otherwise search across all exchanges
+  if (exchange) {
+    conditions.push("t.exchange = ?");
+    params.push(exchange);
+  }
+
+  // Validity intervals are [valid_from, valid_to); unknown bounds are open-ended
+  if (asOf) {
+    conditions.push("(t.valid_from IS NULL OR t.valid_from <= ?)");
+    conditions.push("(t.valid_to IS NULL OR t.valid_to > ?)");
+    params.push(asOf, asOf);
+  } else {
+    conditions.push("t.valid_to IS NULL");
+  }
+
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, t.ticker, t.exchange, t.fetched_at, t.valid_from, t.valid_to
+    FROM identifiers_ticker AS t
+    JOIN securities AS s ON t.security_id = s.id
+    ${SECURITY_JOINS}
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY t.id
+    LIMIT 1
+  `).get(...params) as ListingRow | undefined;
+
+  if (!result) {
+    return null;
+  }
+
+  return {
+    ...rowToSecurity(db, result),
+    ticker: result.ticker,
+    exchange: result.exchange,
+    valid_from: result.valid_from,
+    valid_to: result.valid_to,
+  };
+}
+
+/**
+ * Lookup security by ISIN
+ *
+ * @param db - Database instance
+ * @param isin - ISIN code
+ * @returns SecurityResult or null if not found
+ */
+export function lookupByIsin(db: Database, isin: string): SecurityResult | null {
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, i.fetched_at AS fetched_at
+    FROM securities AS s
+    ${SECURITY_JOINS}
+    WHERE i.isin = ?
+  `).get(isin) as SecurityRow | undefined;
+
+  return result ? rowToSecurity(db, result) : null;
+}
+
+/**
+ * Lookup security by CUSIP
+ *
+ * @param db - Database instance
+ * @param cusip - CUSIP code
+ * @returns SecurityResult or null if not found
+ */
+export function lookupByCusip(db: Database, cusip: string): SecurityResult | null {
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, c.fetched_at AS fetched_at
+    FROM securities AS s
+    ${SECURITY_JOINS}
+    WHERE c.cusip = ?
+  `).get(cusip) as SecurityRow | undefined;
+
+  return result ? rowToSecurity(db, result) : null;
+}
+
+/**
+ * Lookup security by SEDOL
+ *
+ * @param db - Database instance
+ * @param sedol - SEDOL code
+ * @returns SecurityResult or null if not found
+ */
+export function lookupBySedol(db: Database, sedol: string): SecurityResult | null {
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, d.fetched_at AS fetched_at
+    FROM securities AS s
+    ${SECURITY_JOINS}
+    WHERE d.sedol = ?
+  `).get(sedol) as SecurityRow | undefined;
+
+  return result ? rowToSecurity(db, result) : null;
+}
+
+/**
+ * Lookup security by WKN
+ *
+ * @param db - Database instance
+ * @param wkn - WKN code
+ * @returns SecurityResult or null if not found
+ */
+export function lookupByWkn(db: Database, wkn: string): SecurityResult | null {
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, w.fetched_at AS fetched_at
+    FROM securities AS s
+    ${SECURITY_JOINS}
+    WHERE w.wkn = ?
+  `).get(wkn) as SecurityRow | undefined;
+
+  return result ? rowToSecurity(db, result) : null;
+}
+
+/**
+ * Lookup security by Valor number
+ *
+ * @param db - Database instance
+ * @param valor - Valor number (without leading zeros)
+ * @returns SecurityResult or null if not found
+ */
+export function lookupByValor(db: Database, valor: string): SecurityResult | null {
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, v.fetched_at AS fetched_at
+    FROM securities AS s
+    ${SECURITY_JOINS}
+    WHERE v.valor = ?
+  `).get(valor) as SecurityRow | undefined;
+
+  return result ? rowToSecurity(db, result) : null;
+}
+
+/**
+ * Lookup security by FIGI (exchange-level, composite, or share class)
+ *
+ * @param db - Database instance
+ * @param figi - FIGI code
+ * @returns SecurityResult or null if not found
+ */
+export function lookupByFigi(db: Database, figi: string): SecurityResult | null {
+  const result = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, f.fetched_at AS fetched_at
+    FROM identifiers_figi AS f
+    JOIN securities AS s ON f.security_id = s.id
+    ${SECURITY_JOINS}
+    WHERE f.figi = ?
+  `).get(figi) as SecurityRow | undefined;
+
+  return result ? rowToSecurity(db, result) : null;
+}
+
+/**
+ * Lookup all securities of the issuer with a given LEI
+ *
+ * @param db - Database instance
+ * @param lei - LEI code
+ * @returns SecurityResult for each cached security of the issuer (empty if none)
+ */
+export function lookupByLei(db: Database, lei: string): SecurityResult[] {
+  const results = db.prepare(`
+    SELECT ${SECURITY_COLUMNS}, s.updated_at AS fetched_at
+    FROM securities AS s
+    ${SECURITY_JOINS}
+    WHERE e.lei = ?
+    GROUP BY s.id
+    ORDER BY s.id
+  `).all(lei) as SecurityRow[];
+
+  return results.map((result) => rowToSecurity(db, result));
+}
+
+/**
+ * Default number of candidates returned by a name search
+ */
+export const NAME_SEARCH_LIMIT = 10;
+
+/**
+ * Search cached securities by name
+ *
+ * Every word of the query must match the start of a word in the name
+ * ("vanguard total" matches "Vanguard Total Stock Market ETF"); case and
+ * diacritics are ignored. Candidates are ranked by BM25 relevance.
+ *
+ * @param db - Database instance
+ * @param query - Name or part of it
+ * @param limit - Maximum number of candidates
+ * @returns Matching securities, best match first
+ */
+export function searchByName(
+  db: Database,
+  query: string,
+  limit: number = NAME_SEARCH_LIMIT,
+): SecurityResult[] {
+  // Quote each word so FTS5 query syntax (AND, NEAR, *, ...) is taken literally
+  const terms = query
+    .split(/\s+/)
+    .filter((word) => /[\p{L}\p{N}]/u.test(word))
+    .map((word) => `"${word.replaceAll('"', '""')}"*`);
+
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results = db.prepare(`
+    WITH matches AS (
+      SELECT rowid AS id, bm25(securities_fts) AS rank
+      FROM securities_fts
+      WHERE securities_fts MATCH ?
+      ORDER BY rank
+      LIMIT ?
+    )
+    SELECT ${SECURITY_COLUMNS}, s.updated_at AS fetched_at
+    FROM matches AS m
+    JOIN securities AS s ON m.id = s.id
+    ${SECURITY_JOINS}
+    GROUP BY s.id
+    ORDER BY m.rank, s.id
+  `).all(terms.join(" "), limit) as SecurityRow[];
+
+  return results.map((result) => rowToSecurity(db, result));
+}
+
+/**
+ * Get a security's current listings
+ *
+ * The primary listing is the earliest cached listing that is still current.
+ * It does not move when more listings of the security are cached later.
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @returns Current listings, primary listing first
+ */
+export function getListings(db: Database, securityId: number): Listing[] {
+  const rows = db.prepare(`
+    SELECT ticker, exchange
+    FROM identifiers_ticker
+    WHERE security_id = ? AND valid_to IS NULL
+    ORDER BY id
+  `).all(securityId) as { ticker: string; exchange: string }[];
+
+  return rows.map((row, index) => ({
+    ticker: row.ticker,
+    exchange: row.exchange,
+    primary: index === 0,
+  }));
+}
+
+/**
+ * Lookup a security as stored after writing a fetched listing
+ *
+ * A more trusted source (or a pin) may keep the fetched listing: then the
+ * security's primary listing is returned, or, if it was left without any
+ * listing, the security now holding the fetched ticker.
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID returned by insertSecurity
+ * @param fetched - Listing the source reported
+ * @returns SecurityResult, or null if no security holds the fetched ticker
+ */
+export function lookupStoredListing(
+  db: Database,
+  securityId: number,
+  fetched: Pick<Listing, "ticker" | "exchange">,
+): SecurityResult | null {
+  const listings = getListings(db, securityId);
+  const listing = listings.find((l) => l.ticker === fetched.ticker && l.exchange === fetched.exchange) ??
+    listings[0] ?? fetched;
+
+  return lookupByTicker(db, listing.ticker, listing.exchange);
+}
+
+/**
+ * Get when each of a security's cached identifier types was fetched
+ *
+ * A type with several rows (e.g., FIGI levels) counts as fetched when its
+ * oldest row was. Tickers count as fetched when any current listing was: a
+ * refresh confirms the one listing the source reports, not the security's
+ * listings on other exchanges. Pinned rows are left out: they don't expire.
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @returns fetched_at (Unix seconds) per identifier type the security has
+ */
+export function getIdentifierFetchedAt(
+  db: Database,
+  securityId: number,
+): Partial<Record<CachedIdentifierType, number>> {
+  const rows = db.prepare(`
+    SELECT 'ticker' AS type, MAX(fetched_at) AS fetched_at FROM identifiers_ticker
+      WHERE security_id = ? AND valid_to IS NULL AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'isin', MIN(fetched_at) FROM identifiers_isin
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'cusip', MIN(fetched_at) FROM identifiers_cusip
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'sedol', MIN(fetched_at) FROM identifiers_sedol
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'wkn', MIN(fetched_at) FROM identifiers_wkn
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'valor', MIN(fetched_at) FROM identifiers_valor
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'cik', MIN(fetched_at) FROM identifiers_cik
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+    UNION ALL SELECT 'figi', MIN(fetched_at) FROM identifiers_figi
+      WHERE security_id = ? AND source IS NOT '${MANUAL_SOURCE}'
+  `).all(...Array(8).fill(securityId)) as { type: CachedIdentifierType; fetched_at: number | null }[];
+
+  return Object.fromEntries(
+    rows.filter((row) => row.fetched_at !== null).map((row) => [row.type, row.fetched_at]),
+  );
+}
+
+/**
+ * Values a pin can set (without an exchange, the ticker's cached listing is pinned)
+ */
+export type PinnedData = Pick<SecurityData, "ticker"> &
+  Partial<Pick<SecurityData, "exchange" | "name" | "isin" | "cusip" | "sedol" | "wkn" | "valor" | "figi">>;
+
+/**
+ * Pin a listing's values (source "manual")
+ *
+ * The security currently holding the ticker on the exchange is corrected in
+ * place (an uncached listing joins the security holding a pinned identifier,
+ * or becomes a new security). Without an exchange, the ticker's only current
+ * cached listing is pinned. The listing and the
+ * pinned values are stored with source "manual", which outranks every other
+ * source: insertSecurity never overwrites them, and the pinned identifiers
+ * replace the security's other values of their type. Identifiers pinned away
+ * from another security are recorded as overwritten conflicts.
+ *
+ * @param db - Database instance
+ * @param pin - Ticker, exchange and the values to pin
+ * @param options - precedence: passed to insertSecurity
+ * @returns security_id
+ * @throws PinListingError if no exchange is given and the ticker doesn't have
+ *   exactly one current cached listing
+ */
+export function pinSecurity(
+  db: Database,
+  pin: PinnedData,
+  options: { precedence?: SourcePrecedence } = {},
+): number {
+  return db.transaction(() => {
+    const aliases = tickerAliases(normalizeTicker(pin.ticker));
+    const aliasPlaceholders = aliases.map(() => "?").join(", ");
+    let exchange = pin.exchange;
+
+    if (!exchange) {
+      const listings = db.prepare(`
+        SELECT DISTINCT exchange FROM identifiers_ticker
+        WHERE ticker IN (${aliasPlaceholders}) AND valid_to IS NULL
+        ORDER BY exchange
+      `).all(...aliases) as { exchange: string }[];
+
+      if (listings.length !== 1) {
+        throw new PinListingError(
+          listings.length === 0
+            ? `${pin.ticker} is not cached; give the exchange of the listing to pin`
+            : `${pin.ticker} is listed on ${listings.map((l) => l.exchange).join(", ")}; give the exchange to pin`,
+        );
+      }
+      exchange = listings[0].exchange;
+    }
+
+    // Pinning the listing first keeps insertSecurity from treating a corrected
+    // ISIN as a reassigned ticker
+    db.prepare(`
+      UPDATE identifiers_ticker SET source = ?
+      WHERE ticker IN (${aliasPlaceholders}) AND exchange = ? AND valid_to IS NULL
+    `).run(MANUAL_SOURCE, ...aliases, exchange);
+
+    const securityId = insertSecurity(db, { ...pin, exchange, name: pin.name ?? "", source: MANUAL_SOURCE }, {
+      conflictPolicy: "overwrite",
+      precedence: options.precedence,
+    });
+
+    const pinned: [string, string, string | undefined][] = [
+      ["identifiers_isin", "isin", pin.isin],
+      ["identifiers_cusip", "cusip", pin.cusip],
+      ["identifiers_sedol", "sedol", pin.sedol],
+      ["identifiers_wkn", "wkn", pin.wkn],
+      ["identifiers_valor", "valor", pin.valor],
+      ["identifiers_figi", "figi", pin.figi],
+    ];
+
+    for (const [table, column, value] of pinned) {
+      if (value) {
+        db.prepare(`
+          DELETE FROM ${table}
+          WHERE security_id = ? AND ${column} != ?${table === "identifiers_figi" ? " AND figi_type = 'figi'" : ""}
+        `).run(securityId, value);
+      }
+    }
+
+    return securityId;
+  }).immediate();
+}
+
+/**
+ * Whether any of a security's values is pinned (source "manual")
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @returns true if a field or identifier was pinned
+ */
+export function isPinned(db: Database, securityId: number): boolean {
+  const queries = [
+    "SELECT 1 FROM securities WHERE id = ? AND ? IN (name_source, security_type_source, market_sector_source)",
+    ...IDENTIFIER_TABLES.map((table) => `SELECT 1 FROM ${table} WHERE security_id = ? AND source = ?`),
+  ];
+
+  const row = db.prepare(`SELECT EXISTS (${queries.join(" UNION ALL ")}) AS pinned`).get(
+    ...queries.flatMap(() => [securityId, MANUAL_SOURCE]),
+  ) as { pinned: number };
+
+  return row.pinned === 1;
+}
+
+/**
+ * Get the source that supplied each cached field of a security
+ *
+ * Ticker and exchange come from the given listing (default: the primary
+ * listing). For identifier types with several values, the first cached one
+ * counts, as in lookups. A CIK known only through the issuer has no source.
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @param listing - Listing the lookup returned
+ * @returns Source per field with a known source
+ */
+export function getFieldSources(
+  db: Database,
+  securityId: number,
+  listing?: { ticker: string; exchange: string },
+): FieldSources {
+  const security = db.prepare(
+    "SELECT name_source, security_type_source, market_sector_source FROM securities WHERE id = ?"
+  ).get(securityId) as Record<string, string | null> | undefined;
+
+  const listingSource = listing
+    ? db.prepare(`
+      SELECT source FROM identifiers_ticker WHERE security_id = ? AND ticker = ? AND exchange = ?
+      ORDER BY valid_to IS NOT NULL, id DESC LIMIT 1
+    `).get(securityId, listing.ticker, listing.exchange)
+    : db.prepare(`
+      SELECT source FROM identifiers_ticker WHERE security_id = ? AND valid_to IS NULL ORDER BY id LIMIT 1
+    `).get(securityId);
+
+  const rows = db.prepare(`
+    SELECT 'isin' AS field, (SELECT source FROM identifiers_isin WHERE security_id = ? ORDER BY rowid LIMIT 1) AS source
+    UNION ALL SELECT 'cusip', (SELECT source FROM identifiers_cusip WHERE security_id = ? ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'sedol', (SELECT source FROM identifiers_sedol WHERE security_id = ? ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'wkn', (SELECT source FROM identifiers_wkn WHERE security_id = ? ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'valor', (SELECT source FROM identifiers_valor WHERE security_id = ? ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'cik', (SELECT source FROM identifiers_cik WHERE security_id = ? ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'figi', (SELECT source FROM identifiers_figi
+      WHERE security_id = ? AND figi_type = 'figi' ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'composite_figi', (SELECT source FROM identifiers_figi
+      WHERE security_id = ? AND figi_type = 'composite' ORDER BY rowid LIMIT 1)
+    UNION ALL SELECT 'share_class_figi', (SELECT source FROM identifiers_figi
+      WHERE security_id = ? AND figi_type = 'share_class' ORDER BY rowid LIMIT 1)
+  `).all(...Array(9).fill(securityId)) as { field: SourcedField; source: string | null }[];
+
+  const tickerSource = (listingSource as { source: string | null } | undefined)?.source ?? null;
+  const sources: [SourcedField, string | null][] = [
+    ["name", security?.name_source ?? null],
+    ["security_type", security?.security_type_source ?? null],
+    ["market_sector", security?.market_sector_source ?? null],
+    ["ticker", tickerSource],
+    ["exchange", tickerSource],
+    ...rows.map((row): [SourcedField, string | null] => [row.field, row.source]),
+  ];
+
+  return Object.fromEntries(sources.filter(([, source]) => source !== null));
+}
+
+/**
+ * Identifier tables, for queries across all identifier types
+ */
+const IDENTIFIER_TABLES = [
+  "identifiers_ticker",
+  "identifiers_isin",
+  "identifiers_cusip",
+  "identifiers_sedol",
+  "identifiers_wkn",
+  "identifiers_valor",
+  "identifiers_cik",
+  "identifiers_figi",
+];
+
+/**
+ * Which cached listings to export
+ */
+export interface ExportFilter {
+  // Only securities with an identifier from this source (e.g., "fmp", "sec")
+  source?: string;
+  // Only listings on this exchange
+  exchange?: string;
+  // Only securities with an identifier fetched at or after this time (Unix seconds)
+  fetchedSince?: number;
+}
+
+/**
+ * A current listing with all identifiers of its security, as exported
+ * (field_sources holds the source of every field)
+ */
+export interface ExportedListing extends SecurityData {
+  id: number;
+  // When the listing was fetched (Unix seconds)
+  fetched_at: number;
+  pricing?: PricingData;
+}
+
+/**
+ * Get every current listing matching a filter, with its security's identifiers
+ *
+ * A security with several rows of one identifier type (e.g., two ISINs) yields
+ * one record per combination, so nothing is left out.
+ *
+ * @param db - Database instance
+ * @param filter - Source, exchange and fetched-since filters (default: everything)
+ * @param options - pricing: include each security's current quote
+ * @returns Listings by security, primary listing first
+ */
+export function exportListings(
+  db: Database,
+  filter: ExportFilter = {},
+  options: { pricing?: boolean } = {},
+): ExportedListing[] {
+  const conditions = ["t.valid_to IS NULL"];
+  const params: (string | number)[] = [];
+
+  if (filter.exchange) {
+    conditions.push("t.exchange = ?");
+    params.push(filter.exchange);
+  }
+
+  if (filter.source !== undefined) {
+    conditions.push(
+      `s.id IN (${IDENTIFIER_TABLES.map((table) => `SELECT security_id FROM ${table} WHERE source = ?`).join(" UNION ")})`,
+    );
+    params.push(...IDENTIFIER_TABLES.map(() => filter.source!));
+  }
+
+  if (filter.fetchedSince !== undefined) {
+    conditions.push(
+      `s.id IN (${IDENTIFIER_TABLES.map((table) => `SELECT security_id FROM ${table} WHERE fetched_at >= ?`).join(" UNION ")})`,
+    );
+    params.push(...IDENTIFIER_TABLES.map(() => filter.fetchedSince!));
+  }
+
+  const rows = db.prepare(`
     SELECT
       s.id,
       s.name,
       s.security_type,
       s.market_sector,
-      c.cusip,
-      c.fetched_at,
+      s.name_source,
+      s.security_type_source,
+      s.market_sector_source,
       t.ticker,
       t.exchange,
+      t.source,
+      t.fetched_at,
       i.isin,
-      k.cik
-    FROM identifiers_cusip AS c
-    JOIN securities AS s ON c.security_id = s.id
-    LEFT JOIN identifiers_ticker AS t ON s.id = t.security_id
+      i.source AS isin_source,
+      c.cusip,
+      c.source AS cusip_source,
+      d.sedol,
+      d.source AS sedol_source,
+      w.wkn,
+      w.source AS wkn_source,
+      v.valor,
+      v.source AS valor_source,
+      COALESCE(k.cik, e.cik) AS cik,
+      k.source AS cik_source,
+      e.lei
+    FROM identifiers_ticker AS t
+    JOIN securities AS s ON t.security_id = s.id
     LEFT JOIN identifiers_isin AS i ON s.id = i.security_id
+    LEFT JOIN identifiers_cusip AS c ON s.id = c.security_id
+    LEFT JOIN identifiers_sedol AS d ON s.id = d.security_id
+    LEFT JOIN identifiers_wkn AS w ON s.id = w.security_id
+    LEFT JOIN identifiers_valor AS v ON s.id = v.security_id
     LEFT JOIN identifiers_cik AS k ON s.id = k.security_id
-    WHERE c.cusip = ?
-  `).get(cusip) as any;
+    LEFT JOIN issuers AS e ON s.issuer_id = e.id
+    WHERE ${conditions.join(" AND ")}
+    ORDER BY s.id, t.id
+  `).all(...params) as ({ id: number; name: string; ticker: string; exchange: string; source: string; fetched_at: number } & Record<
+    "isin" | "cusip" | "sedol" | "wkn" | "valor" | "cik" | "lei" | "security_type" | "market_sector",
+    string | null
+  > & Record<`${SourcedField}_source`, string | null>)[];
 
-  if (!result) {
-    return null;
-  }
+  return rows.map((row) => {
+    const figiSources = getFieldSources(db, row.id);
+    const fieldSources: [SourcedField, string | null | undefined][] = [
+      ["name", row.name_source],
+      ["security_type", row.security_type_source],
+      ["market_sector", row.market_sector_source],
+      ["isin", row.isin_source],
+      ["cusip", row.cusip_source],
+      ["sedol", row.sedol_source],
+      ["wkn", row.wkn_source],
+      ["valor", row.valor_source],
+      ["cik", row.cik_source],
+      ["figi", figiSources.figi],
+      ["composite_figi", figiSources.composite_figi],
+      ["share_class_figi", figiSources.share_class_figi],
+    ];
+
+    const listing: ExportedListing = {
+      id: row.id,
+      name: row.name,
+      ticker: row.ticker,
+      exchange: row.exchange,
+      isin: row.isin ?? undefined,
+      cusip: row.cusip ?? undefined,
+      sedol: row.sedol ?? undefined,
+      wkn: row.wkn ?? undefined,
+      valor: row.valor ?? undefined,
+      cik: row.cik ?? undefined,
+      lei: row.lei ?? undefined,
+      ...getFigis(db, row.id),
+      security_type: row.security_type ?? undefined,
+      market_sector: row.market_sector ?? undefined,
+      source: row.source,
+      field_sources: Object.fromEntries(fieldSources.filter(([, source]) => source)),
+      fetched_at: row.fetched_at,
+    };
+
+    if (options.pricing) {
+      listing.pricing = getPricing(db, row.id) ?? undefined;
+    }
+
+    return listing;
+  });
+}
+
+/**
+ * Get all FIGIs for a security, by level
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @returns FIGI fields for SecurityData (undefined where not stored)
+ */
+function getFigis(
+  db: Database,
+  securityId: number,
+): Pick<SecurityData, "figi" | "composite_figi" | "share_class_figi"> {
+  const rows = db.prepare(
+    "SELECT figi, figi_type FROM identifiers_figi WHERE security_id = ?"
+  ).all(securityId) as { figi: string; figi_type: FigiType }[];
+
+  const byType = (figiType: FigiType) => rows.find((row) => row.figi_type === figiType)?.figi;
 
   return {
-    id: result.id,
-    name: result.name,
-    ticker: result.ticker || null,
-    exchange: result.exchange || null,
-    isin: result.isin || null,
-    cusip: result.cusip,
-    cik: result.cik || null,
-    security_type: result.security_type || null,
-    market_sector: result.market_sector || null,
-    source: "db",
-    fetched_at: result.fetched_at,
+    figi: byType("figi"),
+    composite_figi: byType("composite"),
+    share_class_figi: byType("share_class"),
   };
 }
 
 /**
  * Insert or update pricing data for a security
  *
+ * The quote also goes into pricing_history (append-only; an observation with the
+ * same price_fetched_at is stored once), which is then pruned to the retention.
+ * A quote older than the current one (e.g., imported) only goes into history.
+ * The three writes run in one transaction.
+ *
  * @param db - Database instance
  * @param securityId - Security ID
  * @param pricing - Pricing data
+ * @param options - retention: pricing history to keep (default: everything)
  */
-export function insertPricing(db: Database, securityId: number, pricing: PricingData): void {
-  db.prepare(`
-    INSERT INTO pricing (
-      security_id, price, change, change_percentage, market_cap, volume,
-      average_volume, beta, last_dividend, range, is_actively_trading, price_fetched_at
-    )
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    ON CONFLICT(security_id) DO UPDATE SET
-      price = excluded.price,
-      change = excluded.change,
-      change_percentage = excluded.change_percentage,
-      market_cap = excluded.market_cap,
-      volume = excluded.volume,
-      average_volume = excluded.average_volume,
-      beta = excluded.beta,
-      last_dividend = excluded.last_dividend,
-      range = excluded.range,
-      is_actively_trading = excluded.is_actively_trading,
-      price_fetched_at = excluded.price_fetched_at
-  `).run(
+export function insertPricing(
+  db: Database,
+  securityId: number,
+  pricing: PricingData,
+  options: { retention?: PricingRetention } = {},
+): void {
+  const values = [
     securityId,
     pricing.price ?? null,
     pricing.change ?? null,
@@ -485,8 +1706,81 @@ export function insertPricing(db: Database, securityId: number, pricing: Pricing
     pricing.last_dividend ?? null,
     pricing.range ?? null,
     pricing.is_actively_trading ? 1 : 0,
-    pricing.price_fetched_at
-  );
+    pricing.price_fetched_at,
+  ];
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO pricing (
+        security_id, price, change, change_percentage, market_cap, volume,
+        average_volume, beta, last_dividend, range, is_actively_trading, price_fetched_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(security_id) DO UPDATE SET
+        price = excluded.price,
+        change = excluded.change,
+        change_percentage = excluded.change_percentage,
+        market_cap = excluded.market_cap,
+        volume = excluded.volume,
+        average_volume = excluded.average_volume,
+        beta = excluded.beta,
+        last_dividend = excluded.last_dividend,
+        range = excluded.range,
+        is_actively_trading = excluded.is_actively_trading,
+        price_fetched_at = excluded.price_fetched_at
+      WHERE excluded.price_fetched_at >= pricing.price_fetched_at
+    `).run(...values);
+
+    db.prepare(`
+      INSERT OR IGNORE INTO pricing_history (
+        security_id, price, change, change_percentage, market_cap, volume,
+        average_volume, beta, last_dividend, range, is_actively_trading, price_fetched_at
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(...values);
+
+    if (options.retention) {
+      prunePricingHistory(db, securityId, options.retention);
+    }
+  }).immediate();
+}
+
+/**
+ * Delete pricing history beyond the retention
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @param retention - maxAge (seconds) and/or maxRows (newest kept) per security
+ * @param now - Current time (Unix seconds)
+ * @returns Number of observations deleted
+ */
+export function prunePricingHistory(
+  db: Database,
+  securityId: number,
+  retention: PricingRetention,
+  now: number = Math.floor(Date.now() / 1000),
+): number {
+  let deleted = 0;
+
+  if (retention.maxAge !== undefined) {
+    deleted += db.prepare(
+      "DELETE FROM pricing_history WHERE security_id = ? AND price_fetched_at < ?"
+    ).run(securityId, now - retention.maxAge);
+  }
+
+  if (retention.maxRows !== undefined) {
+    deleted += db.prepare(`
+      DELETE FROM pricing_history
+      WHERE security_id = ? AND id NOT IN (
+        SELECT id FROM pricing_history
+        WHERE security_id = ?
+        ORDER BY price_fetched_at DESC
+        LIMIT ?
+      )
+    `).run(securityId, securityId, retention.maxRows);
+  }
+
+  return deleted;
 }
 
 /**
@@ -509,6 +1803,33 @@ export function getPricing(db: Database, securityId: number): PricingData | null
     return null;
   }
 
+  return toPricingData(result);
+}
+
+/**
+ * Get the stored pricing observations for a security
+ *
+ * @param db - Database instance
+ * @param securityId - Security ID
+ * @returns PricingData per observation, oldest first
+ */
+export function getPricingHistory(db: Database, securityId: number): PricingData[] {
+  const results = db.prepare(`
+    SELECT
+      price, change, change_percentage, market_cap, volume, average_volume,
+      beta, last_dividend, range, is_actively_trading, price_fetched_at
+    FROM pricing_history
+    WHERE security_id = ?
+    ORDER BY price_fetched_at
+  `).all(securityId) as any[];
+
+  return results.map(toPricingData);
+}
+
+/**
+ * Convert a pricing or pricing_history row to PricingData
+ */
+function toPricingData(result: any): PricingData {
   return {
     price: result.price,
     change: result.change,
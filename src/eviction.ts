@@ -0,0 +1,227 @@
+/**
+ * Cache eviction ("cache" command)
+ *
+ * Removes bad or outdated data without opening SQLite by hand:
+ * - rm: securities named by designators
+ * - invalidate: securities nothing was fetched for since a cutoff, so the next
+ *   lookup fetches them again
+ * - purge: everything one source supplied; securities with data from other
+ *   sources keep that data (quotes count as FMP's)
+ *
+ * Removing a security deletes its identifiers, ticker history and pricing
+ * through ON DELETE CASCADE (recorded conflicts keep the row, without the
+ * security). Issuers left without securities are removed too.
+ */
+
+import { CACHED_IDENTIFIER_TYPES } from "./cache.ts";
+import { type Database, getListings, isPinned } from "./db.ts";
+import { FMP_SOURCE } from "./provenance.ts";
+
+/**
+ * Actions of the cache command
+ */
+export type CacheAction = "rm" | "invalidate" | "purge";
+
+export const CACHE_ACTIONS: CacheAction[] = ["rm", "invalidate", "purge"];
+
+/**
+ * A security affected by an eviction
+ */
+export interface EvictionRecord {
+  security_id: number;
+  name: string | null;
+  // Primary listing (null if the security has no current ticker)
+  ticker: string | null;
+  exchange: string | null;
+  // remove: the security and everything cached for it; trim: only the purged source's data
+  action: "remove" | "trim";
+  // Identifier rows deleted (ticker history included)
+  identifiers: number;
+  // pending for a dry run
+  status: "applied" | "pending";
+}
+
+/**
+ * Identifier tables (every row has security_id, source and fetched_at)
+ */
+const IDENTIFIER_TABLES = CACHED_IDENTIFIER_TYPES.map((type) => `identifiers_${type}`);
+
+/**
+ * Security fields recorded with their source
+ */
+const SOURCED_FIELDS = ["name", "security_type", "market_sector"];
+
+/**
+ * Remove securities and everything cached for them
+ *
+ * @param db - Database instance
+ * @param securityIds - Securities to remove (duplicates are removed once)
+ * @param options - dryRun: only report what would be removed
+ * @returns One record per security
+ */
+export function removeSecurities(
+  db: Database,
+  securityIds: number[],
+  options: { dryRun?: boolean } = {},
+): EvictionRecord[] {
+  return evict(db, [...new Set(securityIds)].map((id) => ({ id, action: "remove" })), options);
+}
+
+/**
+ * Remove securities nothing was fetched for since a cutoff
+ *
+ * A security counts as fetched when any of its identifiers was (securities
+ * without identifiers count as never fetched). Securities with pinned values
+ * are kept.
+ *
+ * @param db - Database instance
+ * @param fetchedBefore - Cutoff (Unix seconds)
+ * @param options - dryRun: only report what would be removed
+ * @returns One record per removed security
+ */
+export function invalidateCache(
+  db: Database,
+  fetchedBefore: number,
+  options: { dryRun?: boolean } = {},
+): EvictionRecord[] {
+  const rows = db.prepare(`
+    SELECT s.id FROM securities AS s
+    LEFT JOIN (${IDENTIFIER_TABLES.map((t) => `SELECT security_id, fetched_at FROM ${t}`).join(" UNION ALL ")}) AS i
+      ON i.security_id = s.id
+    GROUP BY s.id
+    HAVING COALESCE(MAX(i.fetched_at), 0) < ?
+    ORDER BY s.id
+  `).all(fetchedBefore) as { id: number }[];
+
+  const targets = rows.filter(({ id }) => !isPinned(db, id));
+
+  return evict(db, targets.map(({ id }) => ({ id, action: "remove" })), options);
+}
+
+/**
+ * Remove everything a source supplied
+ *
+ * Securities whose identifiers, name, type and market sector all came from the
+ * source are removed. Others (pinned ones included) lose the source's
+ * identifier rows, and the name, type or market sector it supplied. Quotes
+ * are only fetched from FMP (imports copy them), so purging FMP also deletes
+ * the pricing and pricing history of the securities it trims.
+ *
+ * @param db - Database instance
+ * @param source - Source to purge (e.g., "fmp")
+ * @param options - dryRun: only report what would be removed
+ * @returns One record per affected security
+ */
+export function purgeSource(
+  db: Database,
+  source: string,
+  options: { dryRun?: boolean } = {},
+): EvictionRecord[] {
+  // Fields with a value from another (or an unknown) source keep the security
+  const rows = db.prepare(`
+    SELECT
+      s.id,
+      COUNT(i.security_id) AS total,
+      COUNT(CASE WHEN i.source = ? THEN 1 END) AS purged,
+      ${SOURCED_FIELDS.map((field) => `s.${field} IS NOT NULL AND s.${field}_source IS NOT ?`).join(" OR ")} AS kept
+    FROM securities AS s
+    LEFT JOIN (${IDENTIFIER_TABLES.map((t) => `SELECT security_id, source FROM ${t}`).join(" UNION ALL ")}) AS i
+      ON i.security_id = s.id
+    GROUP BY s.id
+    HAVING purged > 0 OR ${SOURCED_FIELDS.map((field) => `MAX(s.${field}_source) = ?`).join(" OR ")}
+    ORDER BY s.id
+  `).all(source, ...SOURCED_FIELDS.map(() => source), ...SOURCED_FIELDS.map(() => source)) as {
+    id: number;
+    total: number;
+    purged: number;
+    kept: number;
+  }[];
+
+  return evict(
+    db,
+    rows.map((row) => ({ id: row.id, action: row.purged === row.total && !row.kept ? "remove" : "trim" })),
+    { ...options, source },
+  );
+}
+
+/**
+ * Describe and (unless a dry run) apply evictions, in one transaction
+ */
+function evict(
+  db: Database,
+  targets: { id: number; action: EvictionRecord["action"] }[],
+  options: { dryRun?: boolean; source?: string },
+): EvictionRecord[] {
+  return db.transaction(() => {
+    const records = targets.map(({ id, action }): EvictionRecord => {
+      const security = db.prepare("SELECT name FROM securities WHERE id = ?").get(id) as { name: string | null };
+      const listing = getListings(db, id)[0];
+
+      return {
+        security_id: id,
+        name: security.name,
+        ticker: listing?.ticker ?? null,
+        exchange: listing?.exchange ?? null,
+        action,
+        identifiers: countIdentifiers(db, id, action === "trim" ? options.source : undefined),
+        status: options.dryRun ? "pending" : "applied",
+      };
+    });
+
+    if (!options.dryRun) {
+      for (const record of records) {
+        if (record.action === "remove") {
+          db.prepare("DELETE FROM securities WHERE id = ?").run(record.security_id);
+        } else {
+          trimSource(db, record.security_id, options.source!);
+        }
+      }
+
+      db.exec(`
+        DELETE FROM issuers
+        WHERE id NOT IN (SELECT issuer_id FROM securities WHERE issuer_id IS NOT NULL)
+      `);
+    }
+
+    return records;
+  }).immediate();
+}
+
+/**
+ * Count a security's identifier rows (only the given source's, if any)
+ */
+function countIdentifiers(db: Database, securityId: number, source?: string): number {
+  return IDENTIFIER_TABLES.reduce((total, table) => {
+    const row = db.prepare(
+      `SELECT COUNT(*) AS count FROM ${table} WHERE security_id = ?${source ? " AND source = ?" : ""}`,
+    ).get(securityId, ...(source ? [source] : [])) as { count: number };
+    return total + row.count;
+  }, 0);
+}
+
+/**
+ * Delete a source's identifier rows and fields of a security (and its quotes, for FMP)
+ */
+function trimSource(db: Database, securityId: number, source: string): void {
+  for (const table of IDENTIFIER_TABLES) {
+    db.prepare(`DELETE FROM ${table} WHERE security_id = ? AND source = ?`).run(securityId, source);
+  }
+
+  if (source === FMP_SOURCE) {
+    db.prepare("DELETE FROM pricing WHERE security_id = ?").run(securityId);
+    db.prepare("DELETE FROM pricing_history WHERE security_id = ?").run(securityId);
+  }
+
+  for (const field of SOURCED_FIELDS) {
+    db.prepare(`
+      UPDATE securities SET ${field} = NULL, ${field}_source = NULL
+      WHERE id = ? AND ${field}_source = ?
+    `).run(securityId, source);
+  }
+
+  // The name index only holds current names
+  db.prepare(`
+    DELETE FROM securities_fts
+    WHERE rowid = ? AND (SELECT name FROM securities WHERE id = ?) IS NULL
+  `).run(securityId, securityId);
+}
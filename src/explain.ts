@@ -0,0 +1,285 @@
+/**
+ * Identifier decomposition ("explain" command)
+ *
+ * Breaks an identifier into its parts (country code, NSIN, embedded CUSIP/SEDOL/WKN/Valor,
+ * check digits) so a wrong identifier can be diagnosed rather than just rejected.
+ */
+
+import { CliError, type Designator, type DesignatorType, validateDesignator } from "./cli.ts";
+import { getCountryName } from "./countries.ts";
+import { computeFigiCheckDigit } from "./figi.ts";
+import {
+  computeCusipCheckDigit,
+  computeIsinCheckDigit,
+  computeSedolCheckDigit,
+  CUSIP_COUNTRIES,
+  cusipToIsin,
+  inferCusipCountry,
+  isPrivatePlacementCusip,
+  normalizeValor,
+  type SedolCountry,
+  sedolToIsin,
+  validateCusip,
+  validateSedol,
+  validateValor,
+  validateWkn,
+  VALOR_COUNTRIES,
+  type ValorCountry,
+  valorToIsin,
+  wknToIsin,
+} from "./isin.ts";
+import { computeLeiCheckDigits } from "./lei.ts";
+
+/**
+ * Provided vs computed check digit(s)
+ */
+export interface CheckDigitExplanation {
+  provided: string;
+  // Undefined when the identifier's other characters are invalid
+  computed?: string;
+}
+
+/**
+ * Decomposed identifier
+ */
+export interface Explanation {
+  type: DesignatorType;
+  value: string;
+  valid: boolean;
+  error?: string;
+  // Country (ISIN, or the country an ISIN would be computed for)
+  country_code?: string;
+  country_name?: string;
+  // ISIN parts
+  nsin?: string;
+  // Identifiers embedded in an ISIN's NSIN, or the ISIN computed from a CUSIP/SEDOL/WKN/Valor
+  cusip?: string;
+  cusip_valid?: boolean;
+  sedol?: string;
+  sedol_valid?: boolean;
+  wkn?: string;
+  wkn_valid?: boolean;
+  valor?: string;
+  isin?: string;
+  // CUSIP parts
+  issuer_code?: string;
+  issue_code?: string;
+  cins?: boolean;
+  private_placement?: boolean;
+  // FIGI parts
+  prefix?: string;
+  // LEI parts
+  lou_prefix?: string;
+  entity_code?: string;
+  check_digit?: CheckDigitExplanation;
+}
+
+/**
+ * Decompose a designator's identifier into its parts
+ *
+ * Never throws for invalid identifiers: validity and the validation error are
+ * reported alongside whatever parts could be extracted.
+ *
+ * @param designator - Parsed designator
+ * @returns Explanation of the identifier
+ */
+export function explainDesignator(designator: Designator): Explanation {
+  const explanation: Explanation = {
+    type: designator.type,
+    value: designator.value,
+    valid: true,
+  };
+
+  try {
+    validateDesignator(designator);
+  } catch (error) {
+    if (!(error instanceof CliError)) {
+      throw error;
+    }
+    explanation.valid = false;
+    explanation.error = error.message;
+  }
+
+  switch (designator.type) {
+    case "isin":
+      return { ...explanation, ...explainIsin(designator.value) };
+    case "cusip":
+      return { ...explanation, ...explainCusip(designator.value, designator.country) };
+    case "sedol":
+      return { ...explanation, ...explainSedol(designator.value, designator.country) };
+    case "wkn":
+      return { ...explanation, ...explainWkn(designator.value) };
+    case "valor":
+      return { ...explanation, ...explainValor(designator.value, designator.country) };
+    case "figi":
+      return {
+        ...explanation,
+        prefix: designator.value.substring(0, 2),
+        check_digit: explainCheckDigit(designator.value, 11, computeFigiCheckDigit),
+      };
+    case "lei":
+      return {
+        ...explanation,
+        lou_prefix: designator.value.substring(0, 4),
+        entity_code: designator.value.substring(4, 18),
+        check_digit: explainCheckDigit(designator.value, 18, computeLeiCheckDigits),
+      };
+    default:
+      return explanation;
+  }
+}
+
+/**
+ * Decompose an ISIN: country, NSIN, embedded CUSIP or SEDOL, check digit
+ */
+function explainIsin(isin: string): Partial<Explanation> {
+  const countryCode = isin.substring(0, 2);
+  const nsin = isin.substring(2, 11);
+
+  const parts: Partial<Explanation> = {
+    country_code: countryCode,
+    country_name: getCountryName(countryCode),
+    nsin,
+    check_digit: explainCheckDigit(isin, 11, computeIsinCheckDigit),
+  };
+
+  if (nsin.length !== 9) {
+    return parts;
+  }
+
+  // US, Canadian and offshore issuers embed a CUSIP or CINS number
+  if (CUSIP_COUNTRIES.includes(countryCode)) {
+    parts.cusip = nsin;
+    parts.cusip_valid = validateCusip(nsin).valid;
+  }
+
+  // UK and Irish ISINs embed a zero-padded SEDOL
+  if ((countryCode === "GB" || countryCode === "IE") && nsin.startsWith("00")) {
+    parts.sedol = nsin.substring(2);
+    parts.sedol_valid = validateSedol(parts.sedol).valid;
+  }
+
+  // German ISINs embed a WKN after three zeros
+  if (countryCode === "DE" && nsin.startsWith("000")) {
+    parts.wkn = nsin.substring(3);
+    parts.wkn_valid = validateWkn(parts.wkn).valid;
+  }
+
+  // Swiss and Liechtenstein ISINs embed a zero-padded Valor number
+  if ((VALOR_COUNTRIES as string[]).includes(countryCode) && /^[0-9]+$/.test(nsin)) {
+    parts.valor = normalizeValor(nsin);
+  }
+
+  return parts;
+}
+
+/**
+ * Decompose a CUSIP: issuer, issue, CINS country, check digit, and the ISIN it maps to (if valid)
+ */
+function explainCusip(cusip: string, country?: string): Partial<Explanation> {
+  const countryCode = country ?? inferCusipCountry(cusip);
+
+  const parts: Partial<Explanation> = {
+    issuer_code: cusip.substring(0, 6),
+    issue_code: cusip.substring(6, 8),
+    cins: /^[A-Z]/.test(cusip),
+    private_placement: isPrivatePlacementCusip(cusip),
+    country_code: countryCode,
+    country_name: countryCode ? getCountryName(countryCode) : undefined,
+    check_digit: explainCheckDigit(cusip, 8, computeCusipCheckDigit),
+  };
+
+  if (countryCode && validateCusip(cusip).valid && !parts.private_placement) {
+    parts.isin = cusipToIsin(cusip, countryCode);
+  }
+
+  return parts;
+}
+
+/**
+ * Decompose a SEDOL: check digit and the ISIN it maps to (if valid; GB unless given)
+ */
+function explainSedol(sedol: string, country?: string): Partial<Explanation> {
+  const countryCode = country ?? "GB";
+
+  const parts: Partial<Explanation> = {
+    country_code: countryCode,
+    country_name: getCountryName(countryCode),
+    check_digit: explainCheckDigit(sedol, 6, computeSedolCheckDigit),
+  };
+
+  if (validateSedol(sedol).valid) {
+    try {
+      parts.isin = sedolToIsin(sedol, countryCode as SedolCountry);
+    } catch {
+      // No ISIN for unsupported countries
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Decompose a WKN: the German ISIN it maps to (if valid). WKNs have no check digit.
+ */
+function explainWkn(wkn: string): Partial<Explanation> {
+  const parts: Partial<Explanation> = {
+    country_code: "DE",
+    country_name: getCountryName("DE"),
+  };
+
+  if (validateWkn(wkn).valid) {
+    parts.isin = wknToIsin(wkn);
+  }
+
+  return parts;
+}
+
+/**
+ * Decompose a Valor number: the ISIN it maps to (if valid; CH unless given).
+ * Valor numbers have no check digit.
+ */
+function explainValor(valor: string, country?: string): Partial<Explanation> {
+  const countryCode = country ?? "CH";
+
+  const parts: Partial<Explanation> = {
+    country_code: countryCode,
+    country_name: getCountryName(countryCode),
+  };
+
+  if (validateValor(valor).valid) {
+    try {
+      parts.isin = valorToIsin(valor, countryCode as ValorCountry);
+    } catch {
+      // No ISIN for unsupported countries
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Compare provided check digit(s) with the ones computed from the base
+ *
+ * @param value - Full identifier
+ * @param baseLength - Length of the part the check digit is computed from
+ * @param compute - Check digit function for the identifier type
+ * @returns Provided and (if computable) computed check digit(s)
+ */
+function explainCheckDigit(
+  value: string,
+  baseLength: number,
+  compute: (base: string) => number | string,
+): CheckDigitExplanation {
+  const explanation: CheckDigitExplanation = {
+    provided: value.substring(baseLength),
+  };
+
+  try {
+    explanation.computed = compute(value.substring(0, baseLength)).toString();
+  } catch {
+    // Base is the wrong length or has invalid characters
+  }
+
+  return explanation;
+}
@@ -0,0 +1,209 @@
+/**
+ * Cache export ("export" command)
+ *
+ * Shares the cache with people who don't run the CLI:
+ * - csv / jsonl: one record per current listing with all identifiers of its
+ *   security (and optionally its latest quote), in the columns the import
+ *   command reads, so an export imports back as it is (pins included)
+ * - sql: INSERT statements for every table row of the exported securities
+ *   (ticker history, pricing history and issuers included), to load into a
+ *   new database
+ */
+
+import { isDuration, parseDuration } from "./cache.ts";
+import { CliError } from "./cli.ts";
+import { type Database, type ExportedListing, exportListings, type ExportFilter } from "./db.ts";
+import { PRICING_COLUMNS, SOURCED_FIELDS } from "./importer.ts";
+import { getSchemaVersion } from "./migrations.ts";
+
+/**
+ * Supported export formats
+ */
+export type ExportFormat = "csv" | "jsonl" | "sql";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "jsonl", "sql"];
+
+/**
+ * Columns of csv and jsonl exports (the {field}_source columns of SOURCED_FIELDS
+ * follow, then the pricing columns with --price)
+ */
+export const EXPORT_COLUMNS = [
+  "ticker",
+  "exchange",
+  "name",
+  "isin",
+  "cusip",
+  "sedol",
+  "wkn",
+  "valor",
+  "cik",
+  "lei",
+  "figi",
+  "composite_figi",
+  "share_class_figi",
+  "security_type",
+  "market_sector",
+  "source",
+  "fetched_at",
+] as const;
+
+/**
+ * Tables of an sql export, parents first, with the rows belonging to the
+ * exported securities (security ids are substituted for "?")
+ */
+const SQL_TABLES: [string, string][] = [
+  ["issuers", "id IN (SELECT issuer_id FROM securities WHERE id IN (?))"],
+  ["securities", "id IN (?)"],
+  ["identifiers_ticker", "security_id IN (?)"],
+  ["identifiers_isin", "security_id IN (?)"],
+  ["identifiers_cusip", "security_id IN (?)"],
+  ["identifiers_sedol", "security_id IN (?)"],
+  ["identifiers_wkn", "security_id IN (?)"],
+  ["identifiers_valor", "security_id IN (?)"],
+  ["identifiers_cik", "security_id IN (?)"],
+  ["identifiers_figi", "security_id IN (?)"],
+];
+
+const SQL_PRICING_TABLES: [string, string][] = [
+  ["pricing", "security_id IN (?)"],
+  ["pricing_history", "security_id IN (?)"],
+];
+
+/**
+ * A value of an exported record
+ */
+type ExportValue = string | number | boolean | null;
+
+/**
+ * Parse the --since filter
+ *
+ * @param value - Date (YYYY-MM-DD, midnight UTC) or duration before now (e.g., 30d)
+ * @param now - Current time (Unix seconds)
+ * @returns Unix seconds
+ * @throws CliError if the value is neither
+ */
+export function parseFetchedSince(value: string, now: number = Math.floor(Date.now() / 1000)): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+
+    if (!isNaN(date.getTime()) && date.toISOString().substring(0, 10) === value) {
+      return Math.floor(date.getTime() / 1000);
+    }
+  } else if (isDuration(value)) {
+    return now - parseDuration(value);
+  }
+
+  throw new CliError(`Invalid --since "${value}": expected a date (YYYY-MM-DD) or a duration (e.g., 30d)`);
+}
+
+/**
+ * Export cached listings
+ *
+ * @param db - Database instance
+ * @param format - Output format
+ * @param filter - Source, exchange and fetched-since filters
+ * @param options - pricing: include the latest quote (csv, jsonl) or the
+ *   pricing and pricing_history tables (sql)
+ * @returns Output lines (header first for csv)
+ */
+export function exportCache(
+  db: Database,
+  format: ExportFormat,
+  filter: ExportFilter = {},
+  options: { pricing?: boolean } = {},
+): string[] {
+  const listings = exportListings(db, filter, { pricing: options.pricing && format !== "sql" });
+
+  if (format === "sql") {
+    return exportSql(db, [...new Set(listings.map((listing) => listing.id))], options);
+  }
+
+  const columns: string[] = [
+    ...EXPORT_COLUMNS,
+    ...SOURCED_FIELDS.map((field) => `${field}_source`),
+    ...(options.pricing ? PRICING_COLUMNS : []),
+  ];
+  const records = listings.map((listing) => toExportRecord(listing, columns));
+
+  if (format === "jsonl") {
+    return records.map((record) => JSON.stringify(record));
+  }
+
+  return [
+    columns.map(toCsvCell).join(","),
+    ...records.map((record) => columns.map((column) => toCsvCell(record[column])).join(",")),
+  ];
+}
+
+/**
+ * Flatten a listing into the export columns (missing values are null)
+ */
+function toExportRecord(listing: ExportedListing, columns: string[]): Record<string, ExportValue> {
+  const sources = Object.entries(listing.field_sources ?? {}).map(([field, source]) => [`${field}_source`, source]);
+  const values = { ...listing, ...Object.fromEntries(sources), ...listing.pricing } as Record<string, unknown>;
+
+  return Object.fromEntries(columns.map((column) => [column, (values[column] ?? null) as ExportValue]));
+}
+
+/**
+ * Format a CSV cell (RFC 4180), quoting it when needed
+ */
+function toCsvCell(value: ExportValue | undefined): string {
+  const text = value === null || value === undefined ? "" : String(value);
+
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * INSERT statements for every row of the given securities, in one transaction
+ */
+function exportSql(db: Database, securityIds: number[], options: { pricing?: boolean }): string[] {
+  const ids = securityIds.join(", ");
+  const lines = [
+    `-- Tickisinator cache export (schema version ${getSchemaVersion(db)}, ${securityIds.length} securities)`,
+    "-- Load into a new database: tickisinator --db new.db db migrate && sqlite3 new.db < export.sql",
+    "BEGIN TRANSACTION;",
+  ];
+
+  for (const [table, condition] of [...SQL_TABLES, ...(options.pricing ? SQL_PRICING_TABLES : [])]) {
+    const rows = db.prepare(
+      `SELECT * FROM ${table} WHERE ${condition.replace("?", ids)} ORDER BY rowid`,
+    ).all() as Record<string, ExportValue>[];
+
+    for (const row of rows) {
+      const columns = Object.keys(row);
+      lines.push(
+        `INSERT INTO ${table} (${columns.join(", ")}) VALUES (${columns.map((c) => toSqlLiteral(row[c])).join(", ")});`,
+      );
+    }
+  }
+
+  // The name index is a virtual table keyed by security id
+  const names = db.prepare(
+    `SELECT id, name FROM securities WHERE id IN (${ids}) AND name IS NOT NULL ORDER BY id`,
+  ).all() as { id: number; name: string }[];
+
+  for (const { id, name } of names) {
+    lines.push(`INSERT INTO securities_fts (rowid, name) VALUES (${id}, ${toSqlLiteral(name)});`);
+  }
+
+  lines.push("COMMIT;");
+
+  return lines;
+}
+
+/**
+ * Format a value as an SQL literal
+ */
+function toSqlLiteral(value: ExportValue): string {
+  if (value === null || value === undefined) {
+    return "NULL";
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return value ? "1" : "0";
+  }
+  return `'${value.replaceAll("'", "''")}'`;
+}
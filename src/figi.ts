@@ -0,0 +1,131 @@
+/**
+ * FIGI (Financial Instrument Global Identifier) utilities
+ *
+ * Provides functions to compute and validate FIGIs.
+ * FIGIs are 12-character codes: 2-character prefix + "G" + 8-character ID + 1 check digit
+ *
+ * A security has several FIGIs at different levels:
+ * - FIGI: exchange-level listing (e.g., AAPL on NASDAQ)
+ * - Composite FIGI: country-level, spanning a country's exchanges (e.g., AAPL US)
+ * - Share class FIGI: global, spanning all countries
+ */
+
+export interface FigiValidationResult {
+  valid: boolean;
+  error?: string;
+  // Check digit the FIGI should have (set when only the check digit is wrong)
+  expectedCheckDigit?: number;
+}
+
+/**
+ * Prefixes that are never issued, to avoid confusion with ISIN country codes
+ */
+const RESERVED_FIGI_PREFIXES = ["BS", "BM", "GG", "GB", "GH", "KY", "VG"];
+
+/**
+ * Compute FIGI check digit using the "Modulus 10 Double Add Double" algorithm
+ *
+ * Algorithm (same as CUSIP):
+ * 1. Convert characters to values (0-9 as-is, B=11, ..., Z=35)
+ * 2. Double the value of every second character (positions 2, 4, ..., 10 from the left)
+ * 3. Sum the digits of each value (e.g., 70 → 7+0=7)
+ * 4. Check digit = (10 - (sum % 10)) % 10
+ *
+ * @param base - First 11 characters of FIGI
+ * @returns Check digit (0-9)
+ */
+export function computeFigiCheckDigit(base: string): number {
+  if (base.length !== 11) {
+    throw new Error("Base must be exactly 11 characters");
+  }
+
+  let sum = 0;
+  for (let i = 0; i < base.length; i++) {
+    const char = base[i];
+    let value: number;
+
+    if (char >= "0" && char <= "9") {
+      value = char.charCodeAt(0) - 48;
+    } else if (char >= "A" && char <= "Z" && !"AEIOU".includes(char)) {
+      value = char.charCodeAt(0) - 65 + 10;
+    } else {
+      throw new Error(`Invalid character in FIGI: ${char}`);
+    }
+
+    // Double every second character (odd index from the left, 0-based)
+    if (i % 2 === 1) {
+      value *= 2;
+    }
+
+    sum += Math.floor(value / 10) + (value % 10);
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate a FIGI
+ *
+ * Checks:
+ * - Exactly 12 characters
+ * - Only digits and uppercase consonants (FIGIs never contain vowels)
+ * - Prefix is not one of the reserved ISIN-like codes (BS, BM, GG, GB, GH, KY, VG)
+ * - Third character is "G"
+ * - Check digit is valid
+ *
+ * @param figi - FIGI to validate
+ * @returns Validation result with error message (and expected check digit) if invalid
+ */
+export function validateFigi(figi: string): FigiValidationResult {
+  // Check length
+  if (figi.length !== 12) {
+    return {
+      valid: false,
+      error: "FIGI must be exactly 12 characters",
+    };
+  }
+
+  // Check characters: consonants and digits only
+  if (!/^[0-9BCDFGHJKLMNPQRSTVWXYZ]{11}$/.test(figi.substring(0, 11))) {
+    return {
+      valid: false,
+      error: "FIGI must contain only digits and uppercase consonants",
+    };
+  }
+
+  // Check prefix
+  const prefix = figi.substring(0, 2);
+  if (RESERVED_FIGI_PREFIXES.includes(prefix)) {
+    return {
+      valid: false,
+      error: `FIGI prefix "${prefix}" is reserved`,
+    };
+  }
+
+  // Check third character
+  if (figi[2] !== "G") {
+    return {
+      valid: false,
+      error: 'FIGI third character must be "G"',
+    };
+  }
+
+  const providedCheckDigit = parseInt(figi[11], 10);
+  if (isNaN(providedCheckDigit)) {
+    return {
+      valid: false,
+      error: "Check digit must be a number",
+    };
+  }
+
+  const computedCheckDigit = computeFigiCheckDigit(figi.substring(0, 11));
+  if (computedCheckDigit !== providedCheckDigit) {
+    return {
+      valid: false,
+      error: "Invalid check digit",
+      expectedCheckDigit: computedCheckDigit,
+    };
+  }
+
+  return { valid: true };
+}
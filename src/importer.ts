@@ -0,0 +1,784 @@
+/**
+ * Bulk import of identifier mappings ("import" command)
+ *
+ * Seeds the cache from CSV or JSONL files instead of one API request per ticker.
+ * Columns are matched to fields by name (case, spaces and punctuation ignored,
+ * common aliases such as "symbol" accepted) or by an explicit mapping. Files
+ * written by the export command import as they are, pricing columns included;
+ * values they export as pinned (source "manual") are pinned again.
+ *
+ * Every row is validated and loaded through insertSecurity, all rows in one
+ * transaction. Each row is reported as accepted, rejected (invalid data) or
+ * conflicting (an identifier belongs to another cached security).
+ *
+ * SEC company_tickers_exchange.json files are imported the same way, reconciled
+ * against the cache: listings the cache already has with the same CIK are left
+ * as they are (unchanged).
+ */
+
+import { CliError, validateDesignator } from "./cli.ts";
+import {
+  type ConflictPolicy,
+  type Database,
+  type FieldSources,
+  IdentifierConflictError,
+  insertIssuerCik,
+  insertPricing,
+  insertSecurity,
+  lookupByTicker,
+  type PinnedData,
+  pinSecurity,
+  type PricingData,
+  type SecurityData,
+  type SourcedField,
+} from "./db.ts";
+import type { PricingRetention } from "./cache.ts";
+import { CUSIP_COUNTRIES, validateCusip, validateIsin } from "./isin.ts";
+import type { SecCompanyTicker } from "./apis/sec.ts";
+import { IMPORT_SOURCE, MANUAL_SOURCE, SEC_SOURCE, type SourcePrecedence } from "./provenance.ts";
+import { normalizeTicker } from "./ticker.ts";
+
+/**
+ * Fields an import file can provide
+ */
+export type ImportField =
+  | "ticker"
+  | "exchange"
+  | "isin"
+  | "cusip"
+  | "sedol"
+  | "wkn"
+  | "valor"
+  | "cik"
+  | "lei"
+  | "figi"
+  | "composite_figi"
+  | "share_class_figi"
+  | "name"
+  | "security_type"
+  | "market_sector"
+  | "source";
+
+export const IMPORT_FIELDS: ImportField[] = [
+  "ticker",
+  "exchange",
+  "isin",
+  "cusip",
+  "sedol",
+  "wkn",
+  "valor",
+  "cik",
+  "lei",
+  "figi",
+  "composite_figi",
+  "share_class_figi",
+  "name",
+  "security_type",
+  "market_sector",
+  "source",
+];
+
+/**
+ * Pricing columns (named as in output records); a row with price_fetched_at
+ * also stores a pricing observation
+ */
+export const PRICING_COLUMNS: (keyof PricingData)[] = [
+  "price",
+  "change",
+  "change_percentage",
+  "market_cap",
+  "volume",
+  "average_volume",
+  "beta",
+  "last_dividend",
+  "range",
+  "is_actively_trading",
+  "price_fetched_at",
+];
+
+/**
+ * Fields with a source column of their own (named {field}_source, as exported);
+ * a row's ticker and exchange come from its source column
+ */
+export const SOURCED_FIELDS: Exclude<SourcedField, "ticker" | "exchange">[] = [
+  "name",
+  "security_type",
+  "market_sector",
+  "isin",
+  "cusip",
+  "sedol",
+  "wkn",
+  "valor",
+  "cik",
+  "figi",
+  "composite_figi",
+  "share_class_figi",
+];
+
+/**
+ * Fields pin can set: a row's values of these fields with the source "manual"
+ * (as exported for pinned securities) are pinned again
+ */
+export const PINNED_FIELDS: Exclude<keyof PinnedData, "ticker" | "exchange">[] = [
+  "name",
+  "isin",
+  "cusip",
+  "sedol",
+  "wkn",
+  "valor",
+  "figi",
+];
+
+/**
+ * Supported file formats (sec: SEC company_tickers_exchange.json)
+ */
+export type ImportFormat = "csv" | "jsonl" | "sec";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["csv", "jsonl", "sec"];
+
+/**
+ * Exchange assumed for rows without one (the schema default)
+ */
+export const DEFAULT_IMPORT_EXCHANGE = "US";
+
+/**
+ * Column names recognized for each field (compared without case, spaces or punctuation)
+ */
+const COLUMN_ALIASES: Record<ImportField, string[]> = {
+  ticker: ["ticker", "symbol", "tickersymbol"],
+  exchange: ["exchange", "exchangeshortname", "exchangecode", "market"],
+  isin: ["isin"],
+  cusip: ["cusip"],
+  sedol: ["sedol"],
+  wkn: ["wkn"],
+  valor: ["valor", "valornumber"],
+  cik: ["cik", "cikstr", "ciknumber"],
+  lei: ["lei"],
+  figi: ["figi"],
+  composite_figi: ["compositefigi"],
+  share_class_figi: ["shareclassfigi"],
+  name: ["name", "companyname", "securityname", "title"],
+  security_type: ["securitytype"],
+  market_sector: ["marketsector", "sector"],
+  source: ["source"],
+};
+
+/**
+ * Column of the file holding each field, by explicit mapping (field=column)
+ */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+/**
+ * One data row of an import file
+ */
+export interface ImportRow {
+  // 1-based, header not counted
+  row: number;
+  // Cell values by column name
+  values: Record<string, string>;
+  // Set when the row itself could not be parsed (e.g., malformed JSON)
+  error?: string;
+}
+
+/**
+ * Outcome of importing one row
+ */
+export interface ImportRowResult {
+  row: number;
+  // unchanged: the cache already had the row's data (SEC files only)
+  status: "accepted" | "rejected" | "conflicting" | "unchanged";
+  ticker?: string;
+  exchange?: string;
+  isin?: string;
+  cik?: string;
+  security_id?: number;
+  error?: string;
+}
+
+/**
+ * Determine the format of an import file from its extension
+ *
+ * @param path - File path
+ * @returns csv for .csv, jsonl for .jsonl and .ndjson, sec for .json
+ * @throws CliError for other extensions
+ */
+export function detectImportFormat(path: string): ImportFormat {
+  const extension = path.substring(path.lastIndexOf(".") + 1).toLowerCase();
+
+  if (extension === "csv") {
+    return "csv";
+  }
+  if (extension === "jsonl" || extension === "ndjson") {
+    return "jsonl";
+  }
+  if (extension === "json") {
+    return "sec";
+  }
+
+  throw new CliError(
+    `Can't tell the format of "${path}" from its extension. Use --format ${IMPORT_FORMATS.join(" or --format ")}.`,
+  );
+}
+
+/**
+ * Parse explicit column mappings
+ *
+ * @param specs - Mappings as field=column (e.g., "isin=ISIN Code")
+ * @returns Column per field
+ * @throws CliError if a mapping is malformed or names an unknown field
+ */
+export function parseColumnMapping(specs: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+
+  for (const spec of specs) {
+    const separator = spec.indexOf("=");
+    const field = spec.substring(0, separator).trim().toLowerCase() as ImportField;
+    const column = spec.substring(separator + 1).trim();
+
+    if (separator === -1 || !column) {
+      throw new CliError(`Invalid column mapping "${spec}": expected field=column (e.g., isin=ISIN Code)`);
+    }
+    if (!IMPORT_FIELDS.includes(field)) {
+      throw new CliError(
+        `Invalid column mapping "${spec}": unknown field "${field}". Expected: ${IMPORT_FIELDS.join(", ")}`,
+      );
+    }
+
+    mapping[field] = column;
+  }
+
+  return mapping;
+}
+
+/**
+ * Split an import file into rows
+ *
+ * CSV files need a header row; quoted cells may contain commas, quotes ("")
+ * and line breaks. JSONL files hold one object per line; keys are column names.
+ * Blank lines are skipped.
+ *
+ * @param text - File contents
+ * @param format - File format (csv or jsonl)
+ * @returns Data rows
+ */
+export function parseImportRows(text: string, format: Exclude<ImportFormat, "sec">): ImportRow[] {
+  // Spreadsheet exports often start with a byte order mark
+  const content = text.replace(/^\uFEFF/, "");
+
+  if (format === "jsonl") {
+    return content
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line, index) => parseJsonRow(line, index + 1));
+  }
+
+  const [header = [], ...records] = parseCsv(content);
+  const columns = header.map((column) => column.trim());
+
+  return records.map((cells, index) => ({
+    row: index + 1,
+    values: Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ""])),
+  }));
+}
+
+/**
+ * Parse one JSONL line into column values
+ */
+function parseJsonRow(line: string, row: number): ImportRow {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(line);
+  } catch (error) {
+    return { row, values: {}, error: `Malformed JSON: ${error instanceof Error ? error.message : error}` };
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { row, values: {}, error: "Expected a JSON object" };
+  }
+
+  const values: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    // Numbers (e.g., a CIK) are taken as written; null is an empty cell
+    values[key] = value === null || value === undefined ? "" : String(value);
+  }
+
+  return { row, values };
+}
+
+/**
+ * Parse CSV (RFC 4180) into records of cells, skipping blank lines
+ */
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last record without a trailing line break
+  if (cell || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+
+  return records.filter((cells) => cells.some((value) => value.trim()));
+}
+
+/**
+ * Find the column holding each field
+ *
+ * Explicit mappings win; other fields are matched against COLUMN_ALIASES.
+ *
+ * @param columns - Column names present in the file
+ * @param mapping - Explicit mappings
+ * @returns Column name per field (fields without a column are left out)
+ * @throws CliError if a mapped column is missing or no column holds tickers
+ */
+export function resolveColumns(columns: string[], mapping: ColumnMapping = {}): ColumnMapping {
+  const resolved: ColumnMapping = {};
+  const normalize = (column: string) => column.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+  for (const field of IMPORT_FIELDS) {
+    const mapped = mapping[field];
+
+    if (mapped !== undefined) {
+      if (!columns.includes(mapped)) {
+        throw new CliError(`Column "${mapped}" (mapped to ${field}) not found. Columns: ${columns.join(", ")}`);
+      }
+      resolved[field] = mapped;
+      continue;
+    }
+
+    const column = columns.find((column) => COLUMN_ALIASES[field].includes(normalize(column)));
+    if (column !== undefined) {
+      resolved[field] = column;
+    }
+  }
+
+  if (!resolved.ticker) {
+    throw new CliError(
+      `No ticker column found (columns: ${columns.join(", ")}). Map one with --map ticker=<column>.`,
+    );
+  }
+
+  return resolved;
+}
+
+/**
+ * Validate one row and turn it into security data
+ *
+ * The ticker is required; the exchange defaults to DEFAULT_IMPORT_EXCHANGE.
+ * ISINs and CUSIPs must pass their check digits, and a US/CA/BM/KY ISIN must
+ * embed the row's CUSIP. SEDOL, WKN, Valor, LEI and FIGIs are validated like
+ * designators. CIKs are zero-padded to 10 digits. Fields with a {field}_source
+ * column (see SOURCED_FIELDS) keep that source. The source "manual" is reserved
+ * for pins (see splitImportedPin) and rejected for fields pin can't set.
+ *
+ * @param values - Cell values by column name
+ * @param columns - Column per field (see resolveColumns)
+ * @param source - Source recorded for the identifiers, unless the row has one
+ * @returns Security data
+ * @throws CliError describing the first invalid value
+ */
+export function toImportedSecurity(
+  values: Record<string, string>,
+  columns: ColumnMapping,
+  source: string = IMPORT_SOURCE,
+): SecurityData {
+  const value = (field: ImportField) => {
+    const column = columns[field];
+    return column === undefined ? "" : (values[column] ?? "").trim();
+  };
+
+  const ticker = value("ticker");
+  if (!ticker) {
+    throw new CliError("Missing ticker");
+  }
+  validateDesignator({ type: "ticker", value: ticker });
+
+  // Any case of "manual" names the source of pins
+  const toSource = (claimed: string) => claimed.toLowerCase() === MANUAL_SOURCE ? MANUAL_SOURCE : claimed;
+  const rowSource = toSource(value("source") || source);
+
+  const security: SecurityData = {
+    name: value("name"),
+    ticker: normalizeTicker(ticker),
+    exchange: value("exchange").toUpperCase() || DEFAULT_IMPORT_EXCHANGE,
+    source: rowSource,
+  };
+
+  for (const field of ["security_type", "market_sector"] as const) {
+    if (value(field)) {
+      security[field] = value(field);
+    }
+  }
+
+  const isin = value("isin").toUpperCase();
+  if (isin) {
+    const result = validateIsin(isin);
+    if (!result.valid) {
+      throw new CliError(`Invalid ISIN "${isin}": ${result.error}`);
+    }
+    security.isin = isin;
+  }
+
+  const cusip = value("cusip").toUpperCase();
+  if (cusip) {
+    const result = validateCusip(cusip);
+    if (!result.valid) {
+      throw new CliError(`Invalid CUSIP "${cusip}": ${result.error}`);
+    }
+    if (isin && CUSIP_COUNTRIES.includes(isin.substring(0, 2)) && isin.substring(2, 11) !== cusip) {
+      throw new CliError(`CUSIP ${cusip} doesn't match ISIN ${isin}`);
+    }
+    security.cusip = cusip;
+  }
+
+  const cik = value("cik");
+  if (cik) {
+    if (!/^[0-9]{1,10}$/.test(cik)) {
+      throw new CliError(`Invalid CIK "${cik}": expected up to 10 digits`);
+    }
+    security.cik = cik.padStart(10, "0");
+  }
+
+  const designators = [
+    ["sedol", "sedol"],
+    ["wkn", "wkn"],
+    ["valor", "valor"],
+    ["lei", "lei"],
+    ["figi", "figi"],
+    ["composite_figi", "figi"],
+    ["share_class_figi", "figi"],
+  ] as const;
+
+  for (const [field, type] of designators) {
+    const identifier = value(field).toUpperCase();
+    if (identifier) {
+      validateDesignator({ type, value: identifier });
+      security[field] = identifier;
+    }
+  }
+
+  const fieldSources: FieldSources = {};
+  for (const field of SOURCED_FIELDS) {
+    const fieldSource = toSource((values[`${field}_source`] ?? "").trim());
+    if (fieldSource && security[field]) {
+      if (fieldSource === MANUAL_SOURCE && !(PINNED_FIELDS as string[]).includes(field)) {
+        throw new CliError(`Source "manual" is reserved for pins, and ${field} can't be pinned`);
+      }
+      fieldSources[field] = fieldSource;
+    }
+  }
+  if (Object.keys(fieldSources).length > 0) {
+    security.field_sources = fieldSources;
+  }
+
+  return security;
+}
+
+/**
+ * Split the values a row pins from those it imports
+ *
+ * A row pins its values whose source is "manual" (see PINNED_FIELDS), and its
+ * listing too if the row's source is "manual": export writes pinned securities
+ * that way. Its other values are imported as usual.
+ *
+ * @param security - Security data of the row (see toImportedSecurity)
+ * @param source - Source recorded for the other values of a pinned listing
+ * @returns The values to import, and the pin to apply with pinSecurity
+ *   (undefined if the row pins nothing)
+ */
+export function splitImportedPin(
+  security: SecurityData,
+  source: string = IMPORT_SOURCE,
+): { security: SecurityData; pin?: PinnedData } {
+  const sourceOf = (field: SourcedField) => security.field_sources?.[field] ?? security.source;
+  const pinned = PINNED_FIELDS.filter((field) => security[field] && sourceOf(field) === MANUAL_SOURCE);
+
+  if (security.source !== MANUAL_SOURCE && pinned.length === 0) {
+    return { security };
+  }
+
+  const imported: SecurityData = {
+    ...security,
+    source: security.source === MANUAL_SOURCE ? source : security.source,
+  };
+  const fieldSources: FieldSources = { ...security.field_sources };
+  const pin: PinnedData = { ticker: security.ticker, exchange: security.exchange };
+
+  for (const field of pinned) {
+    pin[field] = security[field];
+    delete fieldSources[field];
+    if (field === "name") {
+      imported.name = "";
+    } else {
+      delete imported[field];
+    }
+  }
+
+  delete imported.field_sources;
+  if (Object.keys(fieldSources).length > 0) {
+    imported.field_sources = fieldSources;
+  }
+
+  return { security: imported, pin };
+}
+
+/**
+ * Read a row's fetched_at column (as exported)
+ *
+ * @param values - Cell values by column name
+ * @returns Unix seconds, or undefined if the row has no fetched_at
+ * @throws CliError if the value isn't a Unix timestamp
+ */
+export function toImportedFetchedAt(values: Record<string, string>): number | undefined {
+  const text = (values.fetched_at ?? "").trim();
+  if (!text) {
+    return undefined;
+  }
+
+  const fetchedAt = Number(text);
+  if (!Number.isInteger(fetchedAt) || fetchedAt < 0) {
+    throw new CliError(`Invalid fetched_at "${text}": expected a Unix timestamp`);
+  }
+
+  return fetchedAt;
+}
+
+/**
+ * Read a row's pricing columns (see PRICING_COLUMNS)
+ *
+ * @param values - Cell values by column name
+ * @returns Pricing data, or undefined if the row has no price_fetched_at
+ * @throws CliError if a pricing value is malformed
+ */
+export function toImportedPricing(values: Record<string, string>): PricingData | undefined {
+  const value = (column: keyof PricingData) => (values[column] ?? "").trim();
+
+  if (!value("price_fetched_at")) {
+    return undefined;
+  }
+
+  const number = (column: keyof PricingData) => {
+    const text = value(column);
+    if (!text) {
+      return undefined;
+    }
+    const parsed = Number(text);
+    if (!Number.isFinite(parsed)) {
+      throw new CliError(`Invalid ${column} "${text}": expected a number`);
+    }
+    return parsed;
+  };
+
+  const fetchedAt = number("price_fetched_at")!;
+  if (!Number.isInteger(fetchedAt) || fetchedAt < 0) {
+    throw new CliError(`Invalid price_fetched_at "${value("price_fetched_at")}": expected a Unix timestamp`);
+  }
+
+  return {
+    price: number("price"),
+    change: number("change"),
+    change_percentage: number("change_percentage"),
+    market_cap: number("market_cap"),
+    volume: number("volume"),
+    average_volume: number("average_volume"),
+    beta: number("beta"),
+    last_dividend: number("last_dividend"),
+    range: value("range") || undefined,
+    is_actively_trading: value("is_actively_trading") === "" ? undefined : value("is_actively_trading") === "true",
+    price_fetched_at: fetchedAt,
+  };
+}
+
+/**
+ * Load import rows into the cache
+ *
+ * All rows are written in one transaction: invalid and conflicting rows are
+ * reported and skipped, but any other error rolls the whole import back. A
+ * row's fetched_at (as exported) is kept as the time its values were fetched,
+ * and its pinned values are pinned again (see splitImportedPin). Refused
+ * conflicts stay recorded for review (see getConflicts).
+ *
+ * @param db - Database instance
+ * @param rows - Rows of the import file
+ * @param options - mapping: explicit column mappings; conflictPolicy: passed to
+ *   insertSecurity; precedence: sources, most trusted first, passed to
+ *   insertSecurity; source: recorded for the identifiers (default: "import");
+ *   retention: pricing history to keep
+ * @returns One result per row, in file order
+ * @throws CliError if the columns can't be resolved (nothing is written)
+ */
+export function importSecurities(
+  db: Database,
+  rows: ImportRow[],
+  options: {
+    mapping?: ColumnMapping;
+    conflictPolicy?: ConflictPolicy;
+    precedence?: SourcePrecedence;
+    source?: string;
+    retention?: PricingRetention;
+  } = {},
+): ImportRowResult[] {
+  const columnNames = [...new Set(rows.flatMap((row) => Object.keys(row.values)))];
+  const columns = resolveColumns(columnNames, options.mapping);
+
+  return db.transaction(() =>
+    rows.map((row): ImportRowResult => {
+      if (row.error) {
+        return { row: row.row, status: "rejected", error: row.error };
+      }
+
+      let imported: SecurityData;
+      let fetchedAt: number | undefined;
+      let pricing: PricingData | undefined;
+      try {
+        imported = toImportedSecurity(row.values, columns, options.source);
+        fetchedAt = toImportedFetchedAt(row.values);
+        pricing = toImportedPricing(row.values);
+      } catch (error) {
+        if (!(error instanceof CliError)) {
+          throw error;
+        }
+        return { row: row.row, status: "rejected", error: error.message };
+      }
+
+      const result: ImportRowResult = {
+        row: row.row,
+        status: "accepted",
+        ticker: imported.ticker,
+        exchange: imported.exchange,
+        isin: imported.isin,
+      };
+      const { security, pin } = splitImportedPin(imported, options.source);
+
+      try {
+        result.security_id = insertSecurity(db, security, {
+          conflictPolicy: options.conflictPolicy,
+          precedence: options.precedence,
+          fetchedAt,
+        });
+        if (pin) {
+          pinSecurity(db, pin, { precedence: options.precedence });
+        }
+        if (pricing) {
+          insertPricing(db, result.security_id, pricing, { retention: options.retention });
+        }
+      } catch (error) {
+        if (!(error instanceof IdentifierConflictError)) {
+          throw error;
+        }
+        result.status = "conflicting";
+        result.error = error.message;
+      }
+
+      return result;
+    })
+  ).immediate();
+}
+
+/**
+ * Load SEC company tickers into the cache
+ *
+ * Each listing (ticker on an exchange) is reconciled with the cache:
+ * - same CIK as the cached listing, or no CIK cached yet: only the CIK is added
+ *   (source "sec"), keeping the cached name and listing with their sources;
+ *   nothing is written if the CIK was already there
+ * - another issuer's CIK: the ticker has been reassigned and moves to the new issuer
+ * - not cached: a new security is created
+ *
+ * Entries without an exchange or with an invalid ticker or CIK are rejected.
+ * All entries are written in one transaction, as for importSecurities. SEC
+ * files carry no security-level identifiers, so they can't cause conflicts.
+ *
+ * @param db - Database instance
+ * @param companies - Entries of company_tickers_exchange.json (see parseCompanyTickersExchange)
+ * @param options - precedence: sources, most trusted first, passed to insertSecurity
+ * @returns One result per entry, in file order
+ */
+export function importSecCompanyTickers(
+  db: Database,
+  companies: SecCompanyTicker[],
+  options: { precedence?: SourcePrecedence } = {},
+): ImportRowResult[] {
+  return db.transaction(() =>
+    companies.map((company, index): ImportRowResult => {
+      const row = index + 1;
+
+      try {
+        validateDesignator({ type: "ticker", value: company.ticker });
+      } catch (error) {
+        if (!(error instanceof CliError)) {
+          throw error;
+        }
+        return { row, status: "rejected", error: error.message };
+      }
+
+      const ticker = normalizeTicker(company.ticker);
+
+      if (!company.exchange) {
+        return { row, status: "rejected", ticker, error: "No exchange listed" };
+      }
+      if (!/^[0-9]{10}$/.test(company.cik) || /^0+$/.test(company.cik)) {
+        return { row, status: "rejected", ticker, error: `Invalid CIK "${company.cik}"` };
+      }
+
+      const result: ImportRowResult = { row, status: "accepted", ticker, exchange: company.exchange, cik: company.cik };
+      const cached = lookupByTicker(db, ticker, company.exchange);
+
+      if (cached && cached.cik === company.cik) {
+        return { ...result, status: "unchanged", security_id: cached.id };
+      }
+
+      // A cached listing (e.g., FMP's) only gains the CIK, unless the ticker moves to another issuer
+      if (cached && !cached.cik) {
+        insertIssuerCik(db, cached.id, { cik: company.cik, name: company.name }, {
+          source: SEC_SOURCE,
+          precedence: options.precedence,
+        });
+        return { ...result, security_id: cached.id };
+      }
+
+      result.security_id = insertSecurity(db, {
+        name: company.name,
+        ticker,
+        exchange: company.exchange,
+        cik: company.cik,
+        source: SEC_SOURCE,
+      }, { precedence: options.precedence });
+
+      return result;
+    })
+  ).immediate();
+}
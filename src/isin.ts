@@ -5,13 +5,96 @@
  * ISINs are 12-character codes: 2-letter country code + 9-character NSIN + 1 check digit
  *
  * For US securities: ISIN = "US" + CUSIP (9 chars) + check digit
+ * (likewise CA, BM, KY, etc. for other issuers carrying a CUSIP or CINS number)
+ *
+ * For UK/Irish securities: ISIN = "GB"/"IE" + "00" + SEDOL (7 chars) + check digit
+ *
+ * For German securities: ISIN = "DE" + "000" + WKN (6 chars) + check digit
+ *
+ * For Swiss/Liechtenstein securities: ISIN = "CH"/"LI" + zero-padded Valor number + check digit
+ *
+ * Also provides CUSIP, SEDOL, WKN and Valor validation, since they are the NSINs
+ * embedded in those ISINs.
  */
 
 export interface IsinValidationResult {
   valid: boolean;
   error?: string;
+  // Check digit the ISIN should have (set when only the check digit is wrong)
+  expectedCheckDigit?: number;
+}
+
+export interface CusipValidationResult {
+  valid: boolean;
+  error?: string;
+  // Check digit the CUSIP should have (set when only the check digit is wrong)
+  expectedCheckDigit?: number;
+}
+
+export interface SedolValidationResult {
+  valid: boolean;
+  error?: string;
+  // Check digit the SEDOL should have (set when only the check digit is wrong)
+  expectedCheckDigit?: number;
+}
+
+export interface WknValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export interface ValorValidationResult {
+  valid: boolean;
+  error?: string;
 }
 
+/**
+ * Countries whose ISINs embed a SEDOL as the NSIN
+ */
+export type SedolCountry = "GB" | "IE";
+
+export const SEDOL_COUNTRIES: SedolCountry[] = ["GB", "IE"];
+
+/**
+ * Countries whose ISINs embed a Valor number as the NSIN
+ */
+export type ValorCountry = "CH" | "LI";
+
+export const VALOR_COUNTRIES: ValorCountry[] = ["CH", "LI"];
+
+/**
+ * Countries whose issuers commonly carry a CUSIP or CINS number as their NSIN
+ */
+export const CUSIP_COUNTRIES = ["US", "CA", "BM", "KY"];
+
+/**
+ * CINS (CUSIP International Numbering System) country prefixes
+ *
+ * The first character of a CINS number identifies the issuer's country or region.
+ * Only prefixes used by a single country are listed. Regional prefixes (M, P, V,
+ * X, Y) are omitted, and so are G (United Kingdom, but mostly Bermuda, Cayman
+ * Islands, Ireland and Channel Islands issuers) and N (Netherlands and Curaçao):
+ * their ISIN country has to be given explicitly.
+ */
+const CINS_COUNTRY_CODES: Record<string, string> = {
+  A: "AT", // Austria
+  B: "BE", // Belgium
+  C: "CA", // Canada
+  D: "DE", // Germany
+  E: "ES", // Spain
+  F: "FR", // France
+  H: "CH", // Switzerland
+  J: "JP", // Japan
+  K: "DK", // Denmark
+  L: "LU", // Luxembourg
+  Q: "AU", // Australia
+  R: "NO", // Norway
+  S: "ZA", // South Africa
+  T: "IT", // Italy
+  U: "US", // United States
+  W: "SE", // Sweden
+};
+
 /**
  * Compute ISIN check digit using Luhn mod-10 algorithm
  *
@@ -120,6 +203,7 @@ export function validateIsin(isin: string): IsinValidationResult {
       return {
         valid: false,
         error: "Invalid check digit",
+        expectedCheckDigit: computedCheckDigit,
       };
     }
 
@@ -132,20 +216,201 @@ export function validateIsin(isin: string): IsinValidationResult {
   }
 }
 
+/**
+ * Compute CUSIP check digit using the "Modulus 10 Double Add Double" algorithm
+ *
+ * Algorithm:
+ * 1. Convert characters to values (0-9 as-is, A=10, ..., Z=35, *=36, @=37, #=38)
+ * 2. Double the value of every second character (positions 2, 4, 6, 8 from the left)
+ * 3. Sum the digits of each value (e.g., 27 → 2+7=9)
+ * 4. Check digit = (10 - (sum % 10)) % 10
+ *
+ * The `*`, `@` and `#` characters only appear in private placement numbers (PPNs).
+ *
+ * @param base - First 8 characters of CUSIP (issuer + issue)
+ * @returns Check digit (0-9)
+ */
+export function computeCusipCheckDigit(base: string): number {
+  if (base.length !== 8) {
+    throw new Error("Base must be exactly 8 characters (issuer + issue)");
+  }
+
+  let sum = 0;
+  for (let i = 0; i < base.length; i++) {
+    const char = base[i];
+    let value: number;
+
+    if (char >= "0" && char <= "9") {
+      value = char.charCodeAt(0) - 48;
+    } else if (char >= "A" && char <= "Z") {
+      value = char.charCodeAt(0) - 65 + 10;
+    } else if (char === "*") {
+      value = 36;
+    } else if (char === "@") {
+      value = 37;
+    } else if (char === "#") {
+      value = 38;
+    } else {
+      throw new Error(`Invalid character in CUSIP: ${char}`);
+    }
+
+    // Double every second character (odd index from the left, 0-based)
+    if (i % 2 === 1) {
+      value *= 2;
+    }
+
+    sum += Math.floor(value / 10) + (value % 10);
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate a CUSIP
+ *
+ * Checks:
+ * - Exactly 9 characters
+ * - First 8 characters are uppercase letters, digits, or `*`, `@`, `#`
+ * - Check digit is valid
+ *
+ * @param cusip - CUSIP to validate
+ * @returns Validation result with error message (and expected check digit) if invalid
+ */
+export function validateCusip(cusip: string): CusipValidationResult {
+  // Check length
+  if (cusip.length !== 9) {
+    return {
+      valid: false,
+      error: "CUSIP must be exactly 9 characters",
+    };
+  }
+
+  // Check format: 8 base characters + 1 digit
+  if (!/^[A-Z0-9*@#]{8}$/.test(cusip.substring(0, 8))) {
+    return {
+      valid: false,
+      error: "CUSIP must contain only uppercase letters, digits, *, @ or #",
+    };
+  }
+
+  const providedCheckDigit = parseInt(cusip[8], 10);
+  if (isNaN(providedCheckDigit)) {
+    return {
+      valid: false,
+      error: "Check digit must be a number",
+    };
+  }
+
+  const computedCheckDigit = computeCusipCheckDigit(cusip.substring(0, 8));
+  if (computedCheckDigit !== providedCheckDigit) {
+    return {
+      valid: false,
+      error: "Invalid check digit",
+      expectedCheckDigit: computedCheckDigit,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Convert a national securities identifying number (NSIN) to an ISIN
+ *
+ * ISIN = country + NSIN (left-padded with zeros to 9 characters) + check digit
+ *
+ * Shared by the CUSIP, SEDOL, WKN and Valor conversions; the NSIN itself is
+ * not validated beyond its length and characters.
+ *
+ * @param nsin - National identifier (1-9 alphanumeric characters)
+ * @param country - ISIN country code
+ * @returns 12-character ISIN
+ */
+export function nsinToIsin(nsin: string, country: string): string {
+  if (nsin.length < 1 || nsin.length > 9) {
+    throw new Error("NSIN must be 1-9 characters");
+  }
+
+  if (!/^[A-Z0-9]+$/i.test(nsin)) {
+    throw new Error("NSIN contains invalid characters");
+  }
+
+  const countryCode = country.toUpperCase();
+  if (!/^[A-Z]{2}$/.test(countryCode)) {
+    throw new Error("Country code must be exactly 2 letters");
+  }
+
+  // Construct ISIN base (country + zero-padded NSIN)
+  const base = countryCode + nsin.toUpperCase().padStart(9, "0");
+
+  // Compute check digit
+  const checkDigit = computeIsinCheckDigit(base);
+
+  // Return complete ISIN
+  return base + checkDigit.toString();
+}
+
+/**
+ * Infer the ISIN country code for a CUSIP
+ *
+ * - Numeric first character: a domestic CUSIP, assumed to be US
+ * - Letter first character: a CINS number, country taken from the CINS prefix
+ *   (A AT, B BE, C CA, D DE, E ES, F FR, H CH, J JP, K DK, L LU, Q AU, R NO,
+ *   S ZA, T IT, U US, W SE)
+ *
+ * @param cusip - 9-character CUSIP or CINS number
+ * @returns ISIN country code, or undefined for CINS prefixes used by several
+ *   countries (G, N) or a region (M, P, V, X, Y)
+ */
+export function inferCusipCountry(cusip: string): string | undefined {
+  const prefix = cusip.charAt(0).toUpperCase();
+
+  if (prefix >= "0" && prefix <= "9") {
+    return "US";
+  }
+
+  return CINS_COUNTRY_CODES[prefix];
+}
+
+/**
+ * Why a private placement CUSIP can't be converted
+ */
+export const PRIVATE_PLACEMENT_ERROR = "Private placement CUSIPs (with *, @ or #) have no ISIN";
+
+/**
+ * Whether a CUSIP is a private placement number (PPN)
+ *
+ * PPNs contain `*`, `@` or `#`, which ISINs can't hold: they have no ISIN.
+ *
+ * @param cusip - CUSIP code
+ * @returns true if the CUSIP contains a PPN character
+ */
+export function isPrivatePlacementCusip(cusip: string): boolean {
+  return /[*@#]/.test(cusip);
+}
+
 /**
  * Convert CUSIP to ISIN
  *
- * For US securities: ISIN = "US" + CUSIP + check digit
+ * ISIN = country + CUSIP + check digit
+ *
+ * Canadian, Bermudan, Cayman, etc. issuers also carry CUSIPs, so the country
+ * can be given explicitly. Otherwise it's inferred (see inferCusipCountry).
  *
  * @param cusip - 9-character CUSIP code
+ * @param country - ISIN country code (default: inferred from the CUSIP)
  * @returns 12-character ISIN
+ * @throws Error for private placement CUSIPs (see isPrivatePlacementCusip)
  */
-export function cusipToIsin(cusip: string): string {
+export function cusipToIsin(cusip: string, country?: string): string {
   // Validate CUSIP length
   if (cusip.length !== 9) {
     throw new Error("CUSIP must be exactly 9 characters");
   }
 
+  if (isPrivatePlacementCusip(cusip)) {
+    throw new Error(PRIVATE_PLACEMENT_ERROR);
+  }
+
   // Validate CUSIP characters (alphanumeric)
   if (!/^[A-Z0-9]+$/i.test(cusip)) {
     throw new Error("CUSIP contains invalid characters");
@@ -154,12 +419,248 @@ export function cusipToIsin(cusip: string): string {
   // Normalize to uppercase
   const normalizedCusip = cusip.toUpperCase();
 
-  // Construct ISIN base (US + CUSIP)
-  const base = "US" + normalizedCusip;
+  const countryCode = country?.toUpperCase() ?? inferCusipCountry(normalizedCusip);
+  if (countryCode === undefined) {
+    throw new Error(
+      `Cannot infer country from CINS prefix "${normalizedCusip[0]}". Country must be specified.`,
+    );
+  }
 
-  // Compute check digit
-  const checkDigit = computeIsinCheckDigit(base);
+  // ISIN = country + CUSIP + check digit
+  return nsinToIsin(normalizedCusip, countryCode);
+}
 
-  // Return complete ISIN
-  return base + checkDigit.toString();
+/**
+ * Compute SEDOL check digit using the weighted mod-10 algorithm
+ *
+ * Algorithm:
+ * 1. Convert characters to values (0-9 as-is, B=11, ..., Z=35)
+ * 2. Multiply each value by its weight (1, 3, 1, 7, 3, 9)
+ * 3. Check digit = (10 - (sum % 10)) % 10
+ *
+ * Vowels are never used in SEDOLs.
+ *
+ * @param base - First 6 characters of SEDOL
+ * @returns Check digit (0-9)
+ */
+export function computeSedolCheckDigit(base: string): number {
+  if (base.length !== 6) {
+    throw new Error("Base must be exactly 6 characters");
+  }
+
+  const weights = [1, 3, 1, 7, 3, 9];
+
+  let sum = 0;
+  for (let i = 0; i < base.length; i++) {
+    const char = base[i];
+    let value: number;
+
+    if (char >= "0" && char <= "9") {
+      value = char.charCodeAt(0) - 48;
+    } else if (char >= "A" && char <= "Z" && !"AEIOU".includes(char)) {
+      value = char.charCodeAt(0) - 65 + 10;
+    } else {
+      throw new Error(`Invalid character in SEDOL: ${char}`);
+    }
+
+    sum += value * weights[i];
+  }
+
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validate a SEDOL
+ *
+ * Checks:
+ * - Exactly 7 characters
+ * - First 6 characters are digits or uppercase consonants
+ * - Check digit is valid
+ *
+ * @param sedol - SEDOL to validate
+ * @returns Validation result with error message (and expected check digit) if invalid
+ */
+export function validateSedol(sedol: string): SedolValidationResult {
+  // Check length
+  if (sedol.length !== 7) {
+    return {
+      valid: false,
+      error: "SEDOL must be exactly 7 characters",
+    };
+  }
+
+  // Check format: 6 base characters (no vowels) + 1 digit
+  if (!/^[0-9BCDFGHJKLMNPQRSTVWXYZ]{6}$/.test(sedol.substring(0, 6))) {
+    return {
+      valid: false,
+      error: "SEDOL must contain only digits and uppercase consonants",
+    };
+  }
+
+  const providedCheckDigit = parseInt(sedol[6], 10);
+  if (isNaN(providedCheckDigit)) {
+    return {
+      valid: false,
+      error: "Check digit must be a number",
+    };
+  }
+
+  const computedCheckDigit = computeSedolCheckDigit(sedol.substring(0, 6));
+  if (computedCheckDigit !== providedCheckDigit) {
+    return {
+      valid: false,
+      error: "Invalid check digit",
+      expectedCheckDigit: computedCheckDigit,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Convert SEDOL to ISIN
+ *
+ * For UK and Irish securities: ISIN = country + "00" + SEDOL + check digit
+ *
+ * @param sedol - 7-character SEDOL
+ * @param country - ISIN country code (default: "GB")
+ * @returns 12-character ISIN
+ */
+export function sedolToIsin(sedol: string, country: SedolCountry = "GB"): string {
+  // Validate SEDOL length
+  if (sedol.length !== 7) {
+    throw new Error("SEDOL must be exactly 7 characters");
+  }
+
+  // Validate SEDOL characters (alphanumeric)
+  if (!/^[A-Z0-9]+$/i.test(sedol)) {
+    throw new Error("SEDOL contains invalid characters");
+  }
+
+  if (!SEDOL_COUNTRIES.includes(country)) {
+    throw new Error(`SEDOL-based ISINs are only issued for ${SEDOL_COUNTRIES.join(", ")}`);
+  }
+
+  // ISIN = country + zero-padded SEDOL + check digit
+  return nsinToIsin(sedol.toUpperCase(), country);
+}
+
+/**
+ * Validate a WKN (Wertpapierkennnummer, German securities identification number)
+ *
+ * Checks:
+ * - Exactly 6 characters
+ * - Only digits and uppercase letters other than I and O
+ *
+ * WKNs have no check digit.
+ *
+ * @param wkn - WKN to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateWkn(wkn: string): WknValidationResult {
+  // Check length
+  if (wkn.length !== 6) {
+    return {
+      valid: false,
+      error: "WKN must be exactly 6 characters",
+    };
+  }
+
+  // I and O are never used, to avoid confusion with 1 and 0
+  if (!/^[0-9A-HJ-NP-Z]{6}$/.test(wkn)) {
+    return {
+      valid: false,
+      error: "WKN must contain only digits and uppercase letters (except I and O)",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Convert WKN to ISIN
+ *
+ * For German securities: ISIN = "DE" + "000" + WKN + check digit
+ *
+ * @param wkn - 6-character WKN
+ * @returns 12-character ISIN
+ */
+export function wknToIsin(wkn: string): string {
+  if (wkn.length !== 6) {
+    throw new Error("WKN must be exactly 6 characters");
+  }
+
+  return nsinToIsin(wkn, "DE");
+}
+
+/**
+ * Normalize a Valor number by dropping leading zeros
+ *
+ * Valor numbers are written both bare (3886335) and zero-padded (003886335).
+ *
+ * @param valor - Valor number
+ * @returns Valor number without leading zeros
+ */
+export function normalizeValor(valor: string): string {
+  return valor.replace(/^0+(?=.)/, "");
+}
+
+/**
+ * Validate a Valor number (Valorennummer, Swiss securities identification number)
+ *
+ * Checks:
+ * - Only digits
+ * - 1-9 digits, ignoring leading zeros
+ * - Not zero
+ *
+ * Valor numbers have no check digit.
+ *
+ * @param valor - Valor number to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateValor(valor: string): ValorValidationResult {
+  if (!/^[0-9]+$/.test(valor)) {
+    return {
+      valid: false,
+      error: "Valor number must contain only digits",
+    };
+  }
+
+  const normalized = normalizeValor(valor);
+  if (normalized.length > 9) {
+    return {
+      valid: false,
+      error: "Valor number must be at most 9 digits",
+    };
+  }
+
+  if (normalized === "0") {
+    return {
+      valid: false,
+      error: "Valor number must not be zero",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Convert Valor number to ISIN
+ *
+ * For Swiss and Liechtenstein securities: ISIN = "CH"/"LI" + zero-padded Valor + check digit
+ *
+ * @param valor - Valor number (1-9 digits)
+ * @param country - ISIN country code (default: "CH")
+ * @returns 12-character ISIN
+ */
+export function valorToIsin(valor: string, country: ValorCountry = "CH"): string {
+  if (!/^[0-9]+$/.test(valor)) {
+    throw new Error("Valor number must contain only digits");
+  }
+
+  if (!VALOR_COUNTRIES.includes(country)) {
+    throw new Error(`Valor-based ISINs are only issued for ${VALOR_COUNTRIES.join(", ")}`);
+  }
+
+  return nsinToIsin(normalizeValor(valor), country);
 }
@@ -0,0 +1,112 @@
+/**
+ * LEI (Legal Entity Identifier) utilities
+ *
+ * Provides functions to compute and validate LEIs (ISO 17442).
+ * LEIs are 20-character codes: 18-character entity code + 2 check digits
+ *
+ * Unlike ISINs, CUSIPs and FIGIs, an LEI identifies the issuer, not a security.
+ */
+
+export interface LeiValidationResult {
+  valid: boolean;
+  error?: string;
+  // Check digits the LEI should have (set when only the check digits are wrong)
+  expectedCheckDigits?: string;
+}
+
+/**
+ * Compute the remainder of an alphanumeric string mod 97 (ISO 7064 MOD 97-10)
+ *
+ * Letters are converted to numbers (A=10, B=11, ..., Z=35) and the result is
+ * reduced digit by digit, since the full number doesn't fit in a double.
+ *
+ * @param value - Uppercase alphanumeric string
+ * @returns Remainder (0-96)
+ */
+function mod97(value: string): number {
+  let remainder = 0;
+
+  for (const char of value) {
+    let digits: string;
+    if (char >= "A" && char <= "Z") {
+      digits = (char.charCodeAt(0) - 65 + 10).toString();
+    } else if (char >= "0" && char <= "9") {
+      digits = char;
+    } else {
+      throw new Error(`Invalid character in LEI: ${char}`);
+    }
+
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder;
+}
+
+/**
+ * Compute LEI check digits using ISO 7064 MOD 97-10
+ *
+ * Algorithm:
+ * 1. Append "00" to the 18-character base
+ * 2. Convert letters to numbers (A=10, B=11, ..., Z=35)
+ * 3. Check digits = 98 - (number % 97), zero-padded to 2 digits
+ *
+ * @param base - First 18 characters of LEI
+ * @returns Check digits ("02"-"98")
+ */
+export function computeLeiCheckDigits(base: string): string {
+  if (base.length !== 18) {
+    throw new Error("Base must be exactly 18 characters");
+  }
+
+  const checkDigits = 98 - mod97(base + "00");
+  return checkDigits.toString().padStart(2, "0");
+}
+
+/**
+ * Validate an LEI
+ *
+ * Checks:
+ * - Exactly 20 characters
+ * - First 18 characters are uppercase letters or digits
+ * - Last 2 characters are digits
+ * - Whole LEI mod 97 equals 1
+ *
+ * @param lei - LEI to validate
+ * @returns Validation result with error message (and expected check digits) if invalid
+ */
+export function validateLei(lei: string): LeiValidationResult {
+  // Check length
+  if (lei.length !== 20) {
+    return {
+      valid: false,
+      error: "LEI must be exactly 20 characters",
+    };
+  }
+
+  // Check format: 18 alphanumeric characters + 2 digits
+  if (!/^[A-Z0-9]{18}$/.test(lei.substring(0, 18))) {
+    return {
+      valid: false,
+      error: "LEI must contain only uppercase letters and digits",
+    };
+  }
+
+  if (!/^[0-9]{2}$/.test(lei.substring(18))) {
+    return {
+      valid: false,
+      error: "Check digits must be numbers",
+    };
+  }
+
+  if (mod97(lei) !== 1) {
+    return {
+      valid: false,
+      error: "Invalid check digits",
+      expectedCheckDigits: computeLeiCheckDigits(lei.substring(0, 18)),
+    };
+  }
+
+  return { valid: true };
+}
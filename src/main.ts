@@ -11,22 +11,109 @@
  */
 
 import { parseArgs } from "@std/cli";
-import { parseDesignator, validateDesignator, CliError } from "./cli.ts";
+import { parseDesignator, validateDesignator, CliError, type Designator } from "./cli.ts";
+import { explainDesignator, type Explanation } from "./explain.ts";
+import { type Conversion, convertInput } from "./convert.ts";
+import { suggestCorrections, type Suggestion } from "./suggest.ts";
 import {
   initDatabase,
+  openDatabase,
   insertSecurity,
   lookupByTicker,
   lookupByIsin,
   lookupByCusip,
+  lookupBySedol,
+  lookupByWkn,
+  lookupByValor,
+  lookupByFigi,
+  lookupByLei,
+  lookupStoredListing,
+  searchByName,
+  NAME_SEARCH_LIMIT,
   insertPricing,
   getPricing,
+  getPricingHistory,
+  getListings,
+  getConflicts,
+  getIdentifierFetchedAt,
+  getFieldSources,
+  isPinned,
   isPricingStale,
+  pinSecurity,
+  CONFLICT_POLICIES,
+  IdentifierConflictError,
+  PinListingError,
+  type ConflictPolicy,
   type Database,
+  type ExportFilter,
+  type FieldSources,
+  type Listing,
+  type PinnedData,
   type SecurityResult,
   type PricingData,
 } from "./db.ts";
-import { fetchTickerProfile, getFmpApiKey, FmpApiError, FmpRateLimitError } from "./apis/fmp.ts";
-import { cusipToIsin } from "./isin.ts";
+import { parseCompanyTickersExchange, SecFormatError } from "./apis/sec.ts";
+import {
+  fetchTickerProfile,
+  getFmpApiKey,
+  FmpApiError,
+  FmpRateLimitError,
+  FMP_PROFILE_IDENTIFIER_TYPES,
+  searchCompanyName,
+} from "./apis/fmp.ts";
+import {
+  CacheSettingError,
+  type CacheTtls,
+  findStaleIdentifiers,
+  getPricingRetentionFromEnv,
+  getTtlsFromEnv,
+  parseDuration,
+  type PricingRetention,
+  uniformTtls,
+} from "./cache.ts";
+import {
+  detectImportFormat,
+  importSecCompanyTickers,
+  importSecurities,
+  IMPORT_FORMATS,
+  type ColumnMapping,
+  type ImportFormat,
+  type ImportRowResult,
+  parseColumnMapping,
+  parseImportRows,
+} from "./importer.ts";
+import { exportCache, EXPORT_FORMATS, type ExportFormat, parseFetchedSince } from "./exporter.ts";
+import { getSourcePrecedenceFromEnv, SourcePrecedenceError, type SourcePrecedence } from "./provenance.ts";
+import { formatCacheStats, getCacheStats, STATS_FORMATS, type StatsFormat } from "./stats.ts";
+import {
+  CACHE_ACTIONS,
+  type CacheAction,
+  type EvictionRecord,
+  invalidateCache,
+  purgeSource,
+  removeSecurities,
+} from "./eviction.ts";
+import {
+  getSchemaVersion,
+  type Migration,
+  migrateDatabase,
+  SchemaVersionError,
+} from "./migrations.ts";
+import {
+  CUSIP_COUNTRIES,
+  cusipToIsin,
+  inferCusipCountry,
+  isPrivatePlacementCusip,
+  PRIVATE_PLACEMENT_ERROR,
+  SEDOL_COUNTRIES,
+  type SedolCountry,
+  sedolToIsin,
+  VALOR_COUNTRIES,
+  type ValorCountry,
+  valorToIsin,
+  wknToIsin,
+} from "./isin.ts";
+import { normalizeTicker } from "./ticker.ts";
 
 /**
  * Output format (JSONL)
@@ -36,11 +123,31 @@ interface OutputRecord {
   ticker?: string;
   isin?: string;
   cusip?: string;
+  sedol?: string;
+  wkn?: string;
+  valor?: string;
   cik?: string;
+  lei?: string;
+  figi?: string;
+  composite_figi?: string;
+  share_class_figi?: string;
   name?: string;
   exchange?: string;
+  // Current listings of the security, primary listing first
+  listings?: Listing[];
   source: "db" | "fmp" | "computed";
   error?: string;
+  // Interval the ticker was held (as-of lookups, ticker:{value}@{date}); valid_to is exclusive
+  valid_from?: string;
+  valid_to?: string;
+  // Cached identifiers outlived their TTL (returned as cached, refreshed afterwards)
+  stale?: boolean;
+  // Issuer-level lookups (lei:) return every cached security of the issuer
+  securities?: SecurityRecord[];
+  // Name searches (name:) return matching securities, best match first
+  candidates?: SecurityRecord[];
+  // Nearby valid identifiers, when an ISIN or CUSIP fails its check digit
+  suggestions?: Suggestion[];
   // Pricing data (only included when --price flag is used)
   price?: number;
   change?: number;
@@ -53,8 +160,129 @@ interface OutputRecord {
   range?: string;
   is_actively_trading?: boolean;
   price_fetched_at?: number;
+  // Stored pricing observations, oldest first (only included when --price-history flag is used)
+  price_history?: PricingData[];
+  // Source of each cached field (only included when --sources flag is used)
+  sources?: FieldSources;
+  // Whether a value of the cached security was pinned (only included when true)
+  pinned?: boolean;
+}
+
+/**
+ * Identifiers of one security, as listed in an issuer-level output record
+ */
+type SecurityRecord = Pick<
+  OutputRecord,
+  | "ticker"
+  | "isin"
+  | "cusip"
+  | "sedol"
+  | "wkn"
+  | "valor"
+  | "figi"
+  | "composite_figi"
+  | "share_class_figi"
+  | "name"
+  | "exchange"
+  | "listings"
+>;
+
+/**
+ * Identifiers of a cached security, for listing in an output record
+ */
+function toSecurityRecord(security: SecurityResult): SecurityRecord {
+  return {
+    ticker: security.ticker,
+    isin: security.isin,
+    cusip: security.cusip,
+    sedol: security.sedol,
+    wkn: security.wkn,
+    valor: security.valor,
+    figi: security.figi,
+    composite_figi: security.composite_figi,
+    share_class_figi: security.share_class_figi,
+    name: security.name,
+    exchange: security.exchange,
+    listings: security.listings,
+  };
 }
 
+/**
+ * Output record of a cached security, as stored (pins and more trusted sources
+ * included); pricing and history are added by the caller
+ */
+function toCachedRecord(
+  input: string,
+  db: Database,
+  security: SecurityResult,
+  config: CliConfig,
+  source: OutputRecord["source"],
+): OutputRecord {
+  return {
+    input,
+    ticker: security.ticker,
+    isin: security.isin,
+    cusip: security.cusip,
+    sedol: security.sedol,
+    wkn: security.wkn,
+    valor: security.valor,
+    cik: security.cik,
+    lei: security.lei,
+    figi: security.figi,
+    composite_figi: security.composite_figi,
+    share_class_figi: security.share_class_figi,
+    name: security.name,
+    exchange: security.exchange,
+    listings: security.listings,
+    sources: fieldSources(db, security, config),
+    pinned: pinnedFlag(db, security),
+    source,
+  };
+}
+
+/**
+ * Field sources of a cached security, when requested (--sources)
+ */
+function fieldSources(db: Database, security: SecurityResult, config: CliConfig): FieldSources | undefined {
+  return config.sourcesRequested ? getFieldSources(db, security.id, security) : undefined;
+}
+
+/**
+ * Pinned flag of a cached security (undefined unless pinned)
+ */
+function pinnedFlag(db: Database, security: SecurityResult): true | undefined {
+  return isPinned(db, security.id) || undefined;
+}
+
+/**
+ * Output format for the explain command (JSONL)
+ */
+interface ExplainRecord extends Partial<Explanation> {
+  input: string;
+  // Whether the identifier is in the local cache
+  cached?: boolean;
+}
+
+/**
+ * Output format for the db migrate command (JSONL, one record per migration)
+ */
+interface MigrationRecord {
+  version: number;
+  description: string;
+  status: "applied" | "pending";
+}
+
+/**
+ * Subcommands (anything else on the command line is a designator)
+ */
+const COMMANDS = ["explain", "convert", "db", "conflicts", "import", "export", "stats", "cache", "pin"] as const;
+type Command = typeof COMMANDS[number];
+
+/**
+ * Actions of the db command
+ */
+const DB_ACTIONS = ["migrate"];
+
 /**
  * CLI configuration
  */
@@ -63,10 +291,35 @@ interface CliConfig {
   apiKey: string;
   verbose: boolean;
   priceRequested: boolean;
+  priceHistoryRequested: boolean;
+  // Don't open the SQLite cache (explain and convert commands only)
+  skipDb: boolean;
+  // What to do when fetched data assigns an identifier to a different security
+  conflictPolicy: ConflictPolicy;
+  // Time-to-live per cached identifier type (TICKISINATOR_TTL*, --max-age)
+  ttls: CacheTtls;
+  // Pricing history to keep (TICKISINATOR_PRICE_HISTORY_*)
+  priceRetention: PricingRetention;
+  // Sources, most trusted first (TICKISINATOR_SOURCE_PRECEDENCE)
+  precedence: SourcePrecedence;
+  // Include the source of each field in cached records (--sources)
+  sourcesRequested: boolean;
+}
+
+/**
+ * Refreshes of stale cache entries (stale-while-revalidate)
+ */
+interface Revalidation {
+  // Refreshes run one at a time, after the stale entry has been returned
+  queue: Promise<void>;
+  // Set once FMP reports the daily quota is used up; later refreshes are skipped
+  quotaExhausted: boolean;
 }
 
 /**
  * Get CLI configuration from environment
+ *
+ * @throws CliError if a TTL, retention or precedence variable is malformed
  */
 function getConfig(): CliConfig {
   const dbPath = Deno.env.get("TICKISINATOR_DB_PATH") ||
@@ -76,18 +329,221 @@ function getConfig(): CliConfig {
 
   const verbose = Deno.env.get("TICKISINATOR_VERBOSE") === "1";
 
-  return { dbPath, apiKey, verbose, priceRequested: false };
+  const conflictPolicy = (Deno.env.get("TICKISINATOR_CONFLICT_POLICY") || "refuse") as ConflictPolicy;
+
+  let ttls: CacheTtls;
+  let priceRetention: PricingRetention;
+  let precedence: SourcePrecedence;
+  try {
+    ttls = getTtlsFromEnv();
+    priceRetention = getPricingRetentionFromEnv();
+    precedence = getSourcePrecedenceFromEnv();
+  } catch (error) {
+    if (error instanceof CacheSettingError || error instanceof SourcePrecedenceError) {
+      throw new CliError(error.message);
+    }
+    throw error;
+  }
+
+  return {
+    dbPath,
+    apiKey,
+    verbose,
+    priceRequested: false,
+    priceHistoryRequested: false,
+    skipDb: false,
+    conflictPolicy,
+    ttls,
+    priceRetention,
+    precedence,
+    sourcesRequested: false,
+  };
+}
+
+/**
+ * Open the cache database, creating its directory if needed
+ *
+ * With --skip-db, the database is neither opened nor created.
+ *
+ * @param config - CLI configuration (dbPath, skipDb, verbose)
+ * @param open - How to open it (default: initDatabase, applying pending migrations)
+ * @returns Database instance, or null with --skip-db
+ * @throws CliError if the directory can't be created
+ * @throws SchemaVersionError if the database was created by a newer version
+ */
+export async function openCache(
+  config: Pick<CliConfig, "dbPath" | "skipDb" | "verbose">,
+  open: (dbPath: string) => Database = initDatabase,
+): Promise<Database | null> {
+  if (config.skipDb) {
+    return null;
+  }
+
+  const dbDir = config.dbPath.substring(0, config.dbPath.lastIndexOf("/"));
+  try {
+    await Deno.mkdir(dbDir || ".", { recursive: true });
+  } catch (error) {
+    throw new CliError(`Failed to create database directory: ${error}`);
+  }
+
+  log(config, `Using database: ${config.dbPath}`);
+
+  return open(config.dbPath);
 }
 
 /**
  * Log message if verbose mode is enabled
  */
-function log(config: CliConfig, message: string): void {
+function log(config: Pick<CliConfig, "verbose">, message: string): void {
   if (config.verbose) {
     console.error(`[tickisinator] ${message}`);
   }
 }
 
+/**
+ * Lookup a security-level designator in the database cache
+ */
+function lookupDesignator(db: Database, designator: Designator): SecurityResult | null {
+  switch (designator.type) {
+    case "ticker":
+      return lookupByTicker(db, designator.value, undefined, designator.asOf);
+    case "isin":
+      return lookupByIsin(db, designator.value);
+    case "cusip":
+      return lookupByCusip(db, designator.value);
+    case "sedol":
+      return lookupBySedol(db, designator.value);
+    case "wkn":
+      return lookupByWkn(db, designator.value);
+    case "valor":
+      return lookupByValor(db, designator.value);
+    case "figi":
+      return lookupByFigi(db, designator.value);
+    case "lei":
+      return lookupByLei(db, designator.value)[0] ?? null;
+    case "name":
+      return searchByName(db, designator.value, 1)[0] ?? null;
+  }
+}
+
+/**
+ * Explain a single designator: decompose the identifier and check the cache
+ */
+function explainInput(input: string, db: Database | null, config: CliConfig): ExplainRecord {
+  let designator: Designator;
+  try {
+    designator = parseDesignator(input);
+  } catch (error) {
+    if (error instanceof CliError) {
+      return { input, error: error.message };
+    }
+    return { input, error: `Unexpected error: ${error}` };
+  }
+
+  log(config, `Explaining ${designator.type}:${designator.value}`);
+
+  const explanation = explainDesignator(designator);
+  if (!db) {
+    return { input, ...explanation };
+  }
+
+  const cached = explanation.valid ? lookupDesignator(db, designator) !== null : false;
+
+  return { input, ...explanation, cached };
+}
+
+/**
+ * Refresh a stale cache entry from FMP in the background
+ *
+ * @param db - Database instance
+ * @param ticker - Ticker of the stale security
+ * @param revalidation - Refresh queue and quota state
+ * @param config - CLI configuration
+ */
+function scheduleRevalidation(
+  db: Database,
+  ticker: string,
+  revalidation: Revalidation,
+  config: CliConfig,
+): void {
+  revalidation.queue = revalidation.queue.then(async () => {
+    if (revalidation.quotaExhausted) {
+      log(config, `Skipped refreshing ${ticker}: FMP quota used up`);
+      return;
+    }
+
+    try {
+      const { security: profile, pricing } = await fetchTickerProfile(ticker, config.apiKey);
+      const securityId = insertSecurity(db, profile, {
+        conflictPolicy: config.conflictPolicy,
+        precedence: config.precedence,
+      });
+      if (pricing) {
+        insertPricing(db, securityId, pricing, { retention: config.priceRetention });
+      }
+      log(config, `Refreshed stale cache entry for ${ticker}`);
+    } catch (error) {
+      if (error instanceof FmpRateLimitError) {
+        revalidation.quotaExhausted = true;
+      }
+      log(config, `Failed to refresh ${ticker}: ${error}`);
+    }
+  });
+}
+
+/**
+ * Search securities by name: cached securities first, FMP's name search if none match
+ *
+ * FMP candidates are not cached (the search returns no ISIN); looking one up by
+ * ticker caches it.
+ */
+async function searchNameInput(
+  input: string,
+  query: string,
+  db: Database,
+  config: CliConfig,
+  revalidation: Revalidation,
+): Promise<OutputRecord> {
+  const securities = searchByName(db, query);
+
+  if (securities.length > 0) {
+    log(config, `Found ${securities.length} cached candidate(s) for "${query}"`);
+    return { input, candidates: securities.map(toSecurityRecord), source: "db" };
+  }
+
+  if (!config.apiKey) {
+    return {
+      input,
+      source: "db",
+      error: `No cached security matches "${query}". Set FMP_API_KEY to search FMP as well.`,
+    };
+  }
+
+  try {
+    const results = await searchCompanyName(query, config.apiKey, NAME_SEARCH_LIMIT);
+    log(config, `Searched FMP for "${query}"`);
+
+    if (results.length === 0) {
+      return { input, source: "fmp", error: `No security matches "${query}"` };
+    }
+
+    return { input, candidates: results, source: "fmp" };
+  } catch (error) {
+    if (error instanceof FmpRateLimitError) {
+      revalidation.quotaExhausted = true;
+      return {
+        input,
+        source: "fmp",
+        error: "Rate limit exceeded (250 requests/day). Please try again tomorrow.",
+      };
+    }
+    if (error instanceof FmpApiError) {
+      return { input, source: "fmp", error: `FMP API error: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
 /**
  * Process a single designator
  */
@@ -95,59 +551,120 @@ async function processDesignator(
   input: string,
   db: Database,
   config: CliConfig,
+  revalidation: Revalidation,
 ): Promise<OutputRecord> {
   try {
     // Parse and validate designator
     const designator = parseDesignator(input);
-    validateDesignator(designator);
+
+    try {
+      validateDesignator(designator);
+    } catch (error) {
+      // Wrong check digits are usually typos: suggest nearby valid identifiers
+      if (error instanceof CliError && (designator.type === "isin" || designator.type === "cusip")) {
+        const suggestions = suggestCorrections(
+          designator.type,
+          designator.value,
+          (candidate) => lookupDesignator(db, { ...designator, value: candidate }) !== null,
+        );
+
+        if (suggestions.length > 0) {
+          return { input, source: "db", error: error.message, suggestions };
+        }
+      }
+      throw error;
+    }
 
     log(config, `Processing ${designator.type}:${designator.value}`);
 
-    let security: SecurityResult | null = null;
+    // LEI identifies an issuer, not a security: return all of its cached securities
+    if (designator.type === "lei") {
+      const securities = lookupByLei(db, designator.value);
 
-    // Lookup in database first
-    switch (designator.type) {
-      case "ticker":
-        security = lookupByTicker(db, designator.value);
-        break;
-      case "isin":
-        security = lookupByIsin(db, designator.value);
-        break;
-      case "cusip":
-        security = lookupByCusip(db, designator.value);
-        break;
+      if (securities.length === 0) {
+        return {
+          input,
+          lei: designator.value,
+          source: "db",
+          error:
+            "LEI not found in cache. Issuers are linked to securities when a security with a known CIK or LEI is cached.",
+        };
+      }
+
+      return {
+        input,
+        lei: designator.value,
+        cik: securities[0].cik,
+        securities: securities.map(toSecurityRecord),
+        source: "db",
+      };
+    }
+
+    // A name is not an identifier: return ranked candidates
+    if (designator.type === "name") {
+      return await searchNameInput(input, designator.value, db, config, revalidation);
     }
 
+    // Lookup in database first
+    const security = lookupDesignator(db, designator);
+
     // If found in database, return cached result
     if (security) {
       log(config, `Cache hit for ${designator.type}:${designator.value}`);
 
-      const output: OutputRecord = {
-        input,
-        ticker: security.ticker,
-        isin: security.isin,
-        cusip: security.cusip,
-        cik: security.cik,
-        name: security.name,
-        exchange: security.exchange,
-        source: "db",
-      };
+      const output = toCachedRecord(input, db, security, config, "db");
+
+      if (designator.asOf) {
+        output.valid_from = security.valid_from ?? undefined;
+        output.valid_to = security.valid_to ?? undefined;
+      }
+
+      // Expired identifiers are returned as cached and refreshed (historical lookups are cache only)
+      const staleTypes = designator.asOf
+        ? []
+        : findStaleIdentifiers(
+          getIdentifierFetchedAt(db, security.id),
+          config.ttls,
+          undefined,
+          FMP_PROFILE_IDENTIFIER_TYPES,
+        );
+      let revalidated = false;
+
+      if (staleTypes.length > 0) {
+        output.stale = true;
+        log(config, `Cached ${staleTypes.join(", ")} expired`);
+      }
 
       // If pricing is requested, include it (refresh if stale)
       if (config.priceRequested) {
         let pricing = getPricing(db, security.id);
 
         // Refresh if stale and we have API key
-        if (isPricingStale(pricing) && config.apiKey && security.ticker) {
+        if (isPricingStale(pricing) && config.apiKey && security.ticker && !revalidation.quotaExhausted) {
           log(config, `Pricing data stale, refreshing from API`);
           try {
-            const { pricing: freshPricing } = await fetchTickerProfile(security.ticker, config.apiKey);
+            const { security: profile, pricing: freshPricing } = await fetchTickerProfile(
+              security.ticker,
+              config.apiKey,
+            );
             if (freshPricing) {
-              insertPricing(db, security.id, freshPricing);
+              insertPricing(db, security.id, freshPricing, { retention: config.priceRetention });
               pricing = freshPricing;
               log(config, `Updated pricing data for ${security.ticker}`);
             }
+
+            // The same response refreshes expired identifiers
+            if (staleTypes.length > 0) {
+              revalidated = true;
+              insertSecurity(db, profile, {
+                conflictPolicy: config.conflictPolicy,
+                precedence: config.precedence,
+              });
+            }
           } catch (error) {
+            if (error instanceof FmpRateLimitError) {
+              revalidation.quotaExhausted = true;
+            }
             log(config, `Failed to refresh pricing: ${error}`);
             // Continue with stale/no pricing
           }
@@ -169,12 +686,32 @@ async function processDesignator(
         }
       }
 
+      if (config.priceHistoryRequested) {
+        output.price_history = getPricingHistory(db, security.id);
+      }
+
+      // FMP is queried by ticker, so only entries with a ticker can be refreshed
+      if (staleTypes.length > 0 && !revalidated && config.apiKey && security.ticker) {
+        scheduleRevalidation(db, security.ticker, revalidation, config);
+      }
+
       return output;
     }
 
     // Cache miss - handle based on designator type
     log(config, `Cache miss for ${designator.type}:${designator.value}`);
 
+    // FMP only knows who holds a ticker now, so historical lookups are cache only
+    if (designator.asOf) {
+      return {
+        input,
+        ticker: designator.value,
+        source: "db",
+        error:
+          `No cached security held ticker ${designator.value} on ${designator.asOf}. Historical lookups only work for cached ticker history.`,
+      };
+    }
+
     switch (designator.type) {
       case "ticker": {
         // Call FMP API
@@ -191,25 +728,30 @@ async function processDesignator(
           log(config, `Fetched ${designator.value} from FMP API`);
 
           // Cache security data in database
-          const securityId = insertSecurity(db, profile);
+          const securityId = insertSecurity(db, profile, {
+            conflictPolicy: config.conflictPolicy,
+            precedence: config.precedence,
+          });
           log(config, `Cached ${designator.value} in database`);
 
           // Cache pricing data if present
           if (pricing) {
-            insertPricing(db, securityId, pricing);
+            insertPricing(db, securityId, pricing, { retention: config.priceRetention });
             log(config, `Cached pricing data for ${designator.value}`);
           }
 
-          const output: OutputRecord = {
-            input,
-            ticker: profile.ticker,
-            isin: profile.isin,
-            cusip: profile.cusip,
-            cik: profile.cik,
-            name: profile.name,
-            exchange: profile.exchange,
-            source: "fmp",
-          };
+          // Output what was stored: pinned values and those of more trusted sources
+          // are kept, and the fetched listing may stay with them
+          const stored = lookupStoredListing(db, securityId, profile);
+          if (!stored) {
+            return {
+              input,
+              source: "fmp",
+              error: `${profile.ticker} on ${profile.exchange} was fetched but not cached. Review with "tickisinator conflicts".`,
+            };
+          }
+
+          const output = toCachedRecord(input, db, stored, config, "fmp");
 
           // Include pricing if requested
           if (config.priceRequested && pricing) {
@@ -226,9 +768,14 @@ async function processDesignator(
             output.price_fetched_at = pricing.price_fetched_at;
           }
 
+          if (config.priceHistoryRequested) {
+            output.price_history = getPricingHistory(db, securityId);
+          }
+
           return output;
         } catch (error) {
           if (error instanceof FmpRateLimitError) {
+            revalidation.quotaExhausted = true;
             return {
               input,
               source: "fmp",
@@ -242,6 +789,14 @@ async function processDesignator(
               error: `FMP API error: ${error.message}`,
             };
           }
+          if (error instanceof IdentifierConflictError) {
+            return {
+              input,
+              source: "fmp",
+              error:
+                `Identifier conflict: ${error.message}. Not cached; review with "tickisinator conflicts" or use --on-conflict overwrite.`,
+            };
+          }
           return {
             input,
             source: "fmp",
@@ -262,11 +817,41 @@ async function processDesignator(
         };
       }
 
+      case "figi": {
+        // No FIGI source is queried yet, so FIGI lookups are cache only
+        return {
+          input,
+          figi: designator.value,
+          source: "db",
+          error:
+            "Reverse lookup (FIGI → ticker) only works for cached entries. Please look up the ticker first to populate the cache.",
+        };
+      }
+
       case "cusip": {
-        // For CUSIP, we can compute ISIN for US securities
-        if (designator.value.length === 9) {
-          try {
-            const isin = cusipToIsin(designator.value);
+        // For CUSIP, we can compute ISIN for US securities and other issuers carrying
+        // CUSIP/CINS numbers. Without an explicit country, try the inferred country
+        // first (US, or the CINS prefix country), then the other CUSIP countries.
+        if (isPrivatePlacementCusip(designator.value)) {
+          return {
+            input,
+            cusip: designator.value,
+            source: "computed",
+            error: `CUSIP not found in cache. ${PRIVATE_PLACEMENT_ERROR}.`,
+          };
+        }
+
+        const inferredCountry = inferCusipCountry(designator.value);
+        const countries = designator.country
+          ? [designator.country]
+          : [...new Set([inferredCountry, ...CUSIP_COUNTRIES])].filter(
+            (country): country is string => country !== undefined,
+          );
+
+        try {
+          const isins = countries.map((country) => cusipToIsin(designator.value, country));
+
+          for (const isin of isins) {
             log(config, `Computed ISIN ${isin} from CUSIP ${designator.value}`);
 
             // Try looking up by computed ISIN
@@ -278,37 +863,205 @@ async function processDesignator(
                 ticker: securityByIsin.ticker,
                 isin: securityByIsin.isin,
                 cusip: securityByIsin.cusip,
+                sedol: securityByIsin.sedol,
+                wkn: securityByIsin.wkn,
+                valor: securityByIsin.valor,
                 cik: securityByIsin.cik,
+                lei: securityByIsin.lei,
+                figi: securityByIsin.figi,
+                composite_figi: securityByIsin.composite_figi,
+                share_class_figi: securityByIsin.share_class_figi,
                 name: securityByIsin.name,
                 exchange: securityByIsin.exchange,
+                listings: securityByIsin.listings,
+                sources: fieldSources(db, securityByIsin, config),
+                pinned: pinnedFlag(db, securityByIsin),
                 source: "computed",
               };
             }
+          }
 
-            // CUSIP not in cache, and can't look up by CUSIP without paid API
+          // Regional CINS prefix and no explicit country: no ISIN to report
+          if (!designator.country && inferredCountry === undefined) {
             return {
               input,
               cusip: designator.value,
-              isin,
               source: "computed",
               error:
-                "CUSIP not found in cache. Computed ISIN, but ticker lookup requires paid API. Please look up the ticker first.",
+                `CUSIP not found in cache. Cannot infer country from CINS prefix "${designator.value[0]}"; use cusip:{country}:{value} to compute the ISIN.`,
             };
-          } catch (error) {
+          }
+
+          // CUSIP not in cache, and can't look up by CUSIP without paid API
+          return {
+            input,
+            cusip: designator.value,
+            isin: isins[0],
+            source: "computed",
+            error:
+              "CUSIP not found in cache. Computed ISIN, but ticker lookup requires paid API. Please look up the ticker first.",
+          };
+        } catch (error) {
+          return {
+            input,
+            cusip: designator.value,
+            source: "computed",
+            error: `Failed to compute ISIN: ${error}`,
+          };
+        }
+      }
+
+      case "sedol": {
+        // For SEDOL, we can compute ISIN for UK and Irish securities.
+        // Without an explicit country, try GB first, then IE.
+        const countries: SedolCountry[] = designator.country
+          ? [designator.country as SedolCountry]
+          : SEDOL_COUNTRIES;
+
+        try {
+          const isins = countries.map((country) => sedolToIsin(designator.value, country));
+
+          for (const isin of isins) {
+            log(config, `Computed ISIN ${isin} from SEDOL ${designator.value}`);
+
+            // Try looking up by computed ISIN
+            const securityByIsin = lookupByIsin(db, isin);
+            if (securityByIsin) {
+              log(config, `Found security by computed ISIN`);
+              return {
+                input,
+                ticker: securityByIsin.ticker,
+                isin: securityByIsin.isin,
+                cusip: securityByIsin.cusip,
+                sedol: securityByIsin.sedol ?? designator.value,
+                wkn: securityByIsin.wkn,
+                valor: securityByIsin.valor,
+                cik: securityByIsin.cik,
+                lei: securityByIsin.lei,
+                figi: securityByIsin.figi,
+                composite_figi: securityByIsin.composite_figi,
+                share_class_figi: securityByIsin.share_class_figi,
+                name: securityByIsin.name,
+                exchange: securityByIsin.exchange,
+                listings: securityByIsin.listings,
+                sources: fieldSources(db, securityByIsin, config),
+                pinned: pinnedFlag(db, securityByIsin),
+                source: "computed",
+              };
+            }
+          }
+
+          // SEDOL not in cache, and can't look up by SEDOL without paid API
+          return {
+            input,
+            sedol: designator.value,
+            isin: isins[0],
+            source: "computed",
+            error: designator.country
+              ? "SEDOL not found in cache. Computed ISIN, but ticker lookup requires paid API. Please look up the ticker first."
+              : "SEDOL not found in cache. Computed ISIN assuming GB (use sedol:IE:{value} for Irish securities), but ticker lookup requires paid API. Please look up the ticker first.",
+          };
+        } catch (error) {
+          return {
+            input,
+            sedol: designator.value,
+            source: "computed",
+            error: `Failed to compute ISIN: ${error}`,
+          };
+        }
+      }
+
+      case "wkn": {
+        // For WKN, the ISIN is always German: "DE" + "000" + WKN + check digit
+        const isin = wknToIsin(designator.value);
+        log(config, `Computed ISIN ${isin} from WKN ${designator.value}`);
+
+        // Try looking up by computed ISIN
+        const securityByIsin = lookupByIsin(db, isin);
+        if (securityByIsin) {
+          log(config, `Found security by computed ISIN`);
+          return {
+            input,
+            ticker: securityByIsin.ticker,
+            isin: securityByIsin.isin,
+            cusip: securityByIsin.cusip,
+            sedol: securityByIsin.sedol,
+            wkn: securityByIsin.wkn ?? designator.value,
+            valor: securityByIsin.valor,
+            cik: securityByIsin.cik,
+            lei: securityByIsin.lei,
+            figi: securityByIsin.figi,
+            composite_figi: securityByIsin.composite_figi,
+            share_class_figi: securityByIsin.share_class_figi,
+            name: securityByIsin.name,
+            exchange: securityByIsin.exchange,
+            listings: securityByIsin.listings,
+            sources: fieldSources(db, securityByIsin, config),
+            pinned: pinnedFlag(db, securityByIsin),
+            source: "computed",
+          };
+        }
+
+        // WKN not in cache, and can't look up by WKN without paid API
+        return {
+          input,
+          wkn: designator.value,
+          isin,
+          source: "computed",
+          error:
+            "WKN not found in cache. Computed ISIN, but ticker lookup requires paid API. Please look up the ticker first.",
+        };
+      }
+
+      case "valor": {
+        // For Valor, we can compute ISIN for Swiss and Liechtenstein securities.
+        // Without an explicit country, try CH first, then LI.
+        const countries: ValorCountry[] = designator.country
+          ? [designator.country as ValorCountry]
+          : VALOR_COUNTRIES;
+
+        const isins = countries.map((country) => valorToIsin(designator.value, country));
+
+        for (const isin of isins) {
+          log(config, `Computed ISIN ${isin} from Valor ${designator.value}`);
+
+          // Try looking up by computed ISIN
+          const securityByIsin = lookupByIsin(db, isin);
+          if (securityByIsin) {
+            log(config, `Found security by computed ISIN`);
             return {
               input,
-              cusip: designator.value,
+              ticker: securityByIsin.ticker,
+              isin: securityByIsin.isin,
+              cusip: securityByIsin.cusip,
+              sedol: securityByIsin.sedol,
+              wkn: securityByIsin.wkn,
+              valor: securityByIsin.valor ?? designator.value,
+              cik: securityByIsin.cik,
+              lei: securityByIsin.lei,
+              figi: securityByIsin.figi,
+              composite_figi: securityByIsin.composite_figi,
+              share_class_figi: securityByIsin.share_class_figi,
+              name: securityByIsin.name,
+              exchange: securityByIsin.exchange,
+              listings: securityByIsin.listings,
+              sources: fieldSources(db, securityByIsin, config),
+              pinned: pinnedFlag(db, securityByIsin),
               source: "computed",
-              error: `Failed to compute ISIN: ${error}`,
             };
           }
-        } else {
-          return {
-            input,
-            source: "db",
-            error: "Invalid CUSIP length. CUSIP must be exactly 9 characters.",
-          };
         }
+
+        // Valor not in cache, and can't look up by Valor without paid API
+        return {
+          input,
+          valor: designator.value,
+          isin: isins[0],
+          source: "computed",
+          error: designator.country
+            ? "Valor not found in cache. Computed ISIN, but ticker lookup requires paid API. Please look up the ticker first."
+            : "Valor not found in cache. Computed ISIN assuming CH (use valor:LI:{value} for Liechtenstein securities), but ticker lookup requires paid API. Please look up the ticker first.",
+        };
       }
     }
   } catch (error) {
@@ -327,14 +1080,272 @@ async function processDesignator(
   }
 }
 
+/**
+ * Apply pending schema migrations (db migrate command)
+ *
+ * @returns Exit code
+ */
+function migrateCommand(db: Database, dryRun: boolean, config: CliConfig): number {
+  const fromVersion = getSchemaVersion(db);
+
+  let migrations: Migration[];
+  try {
+    migrations = migrateDatabase(db, { dryRun });
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  for (const migration of migrations) {
+    const record: MigrationRecord = {
+      version: migration.version,
+      description: migration.description,
+      status: dryRun ? "pending" : "applied",
+    };
+    console.log(JSON.stringify(record));
+  }
+
+  if (migrations.length === 0) {
+    log(config, `Database is up to date (schema version ${fromVersion})`);
+  } else {
+    const toVersion = migrations[migrations.length - 1].version;
+    log(
+      config,
+      dryRun
+        ? `${migrations.length} pending migration(s): schema version ${fromVersion} → ${toVersion} (dry run)`
+        : `Applied ${migrations.length} migration(s): schema version ${fromVersion} → ${toVersion}`,
+    );
+  }
+
+  return 0;
+}
+
+/**
+ * Designator types a pin can set, besides its ticker
+ */
+const PINNABLE_TYPES = ["isin", "cusip", "sedol", "wkn", "valor", "figi", "name"] as const;
+
+/**
+ * Parse the designators of a pin command: ticker:{value} first, then the values to pin
+ *
+ * @param inputs - Designators (e.g., ticker:XYZ isin:US...)
+ * @returns Ticker and values (the exchange, if given, is added by the caller)
+ * @throws CliError if a designator is invalid, or the ticker or values are missing
+ */
+function parsePinDesignators(inputs: string[]): PinnedData {
+  const [ticker, ...values] = inputs.map((input) => {
+    const designator = parseDesignator(input);
+    validateDesignator(designator);
+    return designator;
+  });
+
+  if (ticker?.type !== "ticker" || ticker.asOf) {
+    throw new CliError("pin takes the ticker to pin first (e.g., pin ticker:XYZ isin:US0378331005).");
+  }
+  if (values.length === 0) {
+    throw new CliError(`pin takes one or more values to pin: ${PINNABLE_TYPES.map((t) => `${t}:`).join(", ")}`);
+  }
+
+  const pin: PinnedData = { ticker: ticker.value };
+
+  for (const designator of values) {
+    const type = designator.type as typeof PINNABLE_TYPES[number];
+    if (!PINNABLE_TYPES.includes(type)) {
+      throw new CliError(`pin can't set ${designator.type}: (expected ${PINNABLE_TYPES.join(", ")})`);
+    }
+    if (pin[type] !== undefined) {
+      throw new CliError(`pin takes one ${type}: value`);
+    }
+    pin[type] = designator.value;
+  }
+
+  return pin;
+}
+
+/**
+ * Pin values of a listing (pin command)
+ *
+ * Prints the security and the pinned values.
+ *
+ * @returns Exit code: 0
+ * @throws CliError if the listing can't be resolved (see pinSecurity)
+ */
+export function pinCommand(db: Database, pin: PinnedData, config: CliConfig): number {
+  let securityId: number;
+  try {
+    securityId = pinSecurity(db, pin, { precedence: config.precedence });
+  } catch (error) {
+    if (error instanceof PinListingError) {
+      throw new CliError(error.message);
+    }
+    throw error;
+  }
+
+  const ticker = normalizeTicker(pin.ticker);
+  const exchange = pin.exchange ?? getListings(db, securityId).find((l) => l.ticker === ticker)?.exchange;
+
+  console.log(JSON.stringify({ security_id: securityId, ...pin, exchange, source: "manual", pinned: true }));
+  const values = Object.keys(pin).filter((key) => key !== "ticker" && key !== "exchange");
+  log(config, `Pinned ${values.join(", ")} of ${pin.ticker} (${exchange})`);
+
+  return 0;
+}
+
+/**
+ * Remove or invalidate cached securities (cache command)
+ *
+ * Prints one record per affected security (rm: per designator, with the
+ * designator as input, or an error if it isn't cached).
+ *
+ * @returns Exit code: 0 on success; for rm, 1 if some designators weren't cached, 2 if none were
+ */
+function cacheCommand(
+  db: Database,
+  action: CacheAction,
+  inputs: string[],
+  options: { olderThan?: number; source?: string; dryRun: boolean },
+  config: CliConfig,
+): number {
+  const dryRun = options.dryRun;
+  let records: EvictionRecord[];
+  let exitCode = 0;
+
+  if (action === "rm") {
+    const resolved = inputs.map((input) => {
+      try {
+        const designator = parseDesignator(input);
+        validateDesignator(designator);
+        if (designator.type === "lei" || designator.type === "name") {
+          return { input, error: `cache rm takes designators of one security, not ${designator.type}:` };
+        }
+        const security = lookupDesignator(db, designator);
+        return security ? { input, securityId: security.id } : { input, error: "Not in cache" };
+      } catch (error) {
+        if (!(error instanceof CliError)) {
+          throw error;
+        }
+        return { input, error: error.message };
+      }
+    });
+
+    records = removeSecurities(
+      db,
+      resolved.flatMap((entry) => entry.securityId === undefined ? [] : [entry.securityId]),
+      { dryRun },
+    );
+
+    for (const entry of resolved) {
+      const record = records.find((r) => r.security_id === entry.securityId);
+      console.log(JSON.stringify(record ? { input: entry.input, ...record } : entry));
+    }
+
+    const found = resolved.filter((entry) => entry.securityId !== undefined).length;
+    exitCode = found === resolved.length ? 0 : found > 0 ? 1 : 2;
+  } else {
+    records = action === "invalidate"
+      ? invalidateCache(db, Math.floor(Date.now() / 1000) - options.olderThan!, { dryRun })
+      : purgeSource(db, options.source!, { dryRun });
+
+    for (const record of records) {
+      console.log(JSON.stringify(record));
+    }
+  }
+
+  log(
+    config,
+    dryRun
+      ? `cache ${action} would affect ${records.length} security record(s) (dry run)`
+      : `cache ${action} affected ${records.length} security record(s)`,
+  );
+
+  return exitCode;
+}
+
+/**
+ * Load identifier mappings from a CSV, JSONL or SEC company tickers file (import command)
+ *
+ * Prints one result per row (accepted, rejected, conflicting or unchanged).
+ *
+ * @returns Exit code: 0 if every row was accepted (or unchanged), 1 if some were, 2 if none were
+ */
+async function importCommand(
+  db: Database,
+  path: string,
+  format: ImportFormat,
+  mapping: ColumnMapping,
+  config: CliConfig,
+): Promise<number> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(path);
+  } catch (error) {
+    console.error(`Error: Failed to read ${path}: ${error instanceof Error ? error.message : error}`);
+    return 2;
+  }
+
+  let results: ImportRowResult[];
+
+  if (format === "sec") {
+    try {
+      results = importSecCompanyTickers(db, parseCompanyTickersExchange(JSON.parse(text)), {
+        precedence: config.precedence,
+      });
+    } catch (error) {
+      if (!(error instanceof SyntaxError || error instanceof SecFormatError)) {
+        throw error;
+      }
+      console.error(`Error: ${path} is not an SEC company tickers file: ${error.message}`);
+      return 2;
+    }
+  } else {
+    const rows = parseImportRows(text, format);
+    if (rows.length === 0) {
+      console.error(`Error: No rows to import in ${path}.`);
+      return 2;
+    }
+
+    try {
+      results = importSecurities(db, rows, {
+        mapping,
+        conflictPolicy: config.conflictPolicy,
+        precedence: config.precedence,
+        retention: config.priceRetention,
+      });
+    } catch (error) {
+      if (!(error instanceof CliError)) {
+        throw error;
+      }
+      console.error(`Error: ${error.message}`);
+      return 3;
+    }
+  }
+
+  for (const result of results) {
+    console.log(JSON.stringify(result));
+  }
+
+  const count = (status: ImportRowResult["status"]) => results.filter((r) => r.status === status).length;
+  const accepted = count("accepted") + count("unchanged");
+  log(
+    config,
+    `Imported ${path}: ${count("accepted")} accepted, ${count("unchanged")} unchanged, ${count("rejected")} rejected, ${count("conflicting")} conflicting`,
+  );
+
+  if (accepted === results.length) {
+    return 0;
+  }
+  return accepted > 0 ? 1 : 2;
+}
+
 /**
  * Main CLI entry point
  */
 async function main() {
   // Parse command-line arguments
   const args = parseArgs(Deno.args, {
-    boolean: ["help", "version", "verbose", "price"],
-    string: ["db"],
+    boolean: ["help", "version", "verbose", "price", "price-history", "sources", "skip-db", "dry-run"],
+    string: ["db", "on-conflict", "max-age", "format", "map", "source", "exchange", "since", "older-than"],
+    collect: ["map"],
     alias: {
       h: "help",
       v: "version",
@@ -346,28 +1357,153 @@ async function main() {
   // Show help
   if (args.help) {
     console.log(`
-Tickisinator - Translate investment identifiers (ticker ↔ ISIN ↔ CUSIP)
+Tickisinator - Translate investment identifiers (ticker ↔ ISIN ↔ CUSIP ↔ SEDOL ↔ WKN ↔ Valor)
 
 Usage:
   tickisinator [options] <designator>...
+  tickisinator [options] explain <designator>...
+  tickisinator [options] convert <designator>...
+  tickisinator [options] db migrate [--dry-run]
+  tickisinator [options] conflicts
+  tickisinator [options] import <file> [--format csv|jsonl|sec] [--map field=column]...
+  tickisinator [options] export [--format csv|jsonl|sql] [--price] [--source <source>]
+                                [--exchange <exchange>] [--since <date|duration>]
+  tickisinator [options] stats [--format json|text]
+  tickisinator [options] cache rm <designator>... [--dry-run]
+  tickisinator [options] cache invalidate --older-than <duration> [--dry-run]
+  tickisinator [options] cache purge --source <source> [--dry-run]
+  tickisinator [options] pin ticker:<ticker> <designator>... [--exchange <exchange>]
   echo "ticker:AAPL" | tickisinator
 
+Commands:
+  explain           Break identifiers into their parts (country, NSIN, embedded
+                    CUSIP/SEDOL/WKN/Valor, provided vs computed check digit) and show
+                    whether the cache knows them
+  convert           Validate identifiers and compute the ones derivable from
+                    them (ISIN ↔ CUSIP/SEDOL/WKN/Valor) fully offline: never
+                    calls the API and never needs FMP_API_KEY
+                    (source: "computed")
+  db migrate        Upgrade the database schema (databases are also upgraded
+                    automatically when opened); --dry-run lists pending
+                    migrations without applying them
+  conflicts         List identifiers that fetched data assigned to a different
+                    security than the cached one (oldest first)
+  import <file>     Load identifier mappings from a CSV (with header row) or
+                    JSONL file without API requests: columns ticker, exchange,
+                    isin, cusip, cik and name (ticker required). Rows are
+                    validated and written in one transaction; prints one
+                    result per row: accepted, rejected or conflicting. An
+                    export's fetched_at and per-field sources are kept, and
+                    values with the source manual are pinned again. Also
+                    loads the SEC's company_tickers_exchange.json
+                    (ticker, exchange and CIK of ~10k US securities; listings
+                    already cached with the same CIK stay unchanged)
+  export            Write the cache to stdout: jsonl (default) or csv, one
+                    record per current listing in the columns import reads,
+                    fetch time and per-field sources included (--price adds
+                    the latest quote), or sql, INSERT statements
+                    for a new database (--price adds pricing and its history)
+  stats             Report cache coverage: securities, identifiers per type,
+                    securities missing ISIN/CUSIP, age of fetched data and
+                    quotes, identifiers per source, listings per exchange, and
+                    listings missing an ISIN or CUSIP (one JSON object, or a
+                    readable report with --format text)
+  cache rm          Remove the securities the designators resolve to, with
+                    their identifiers, ticker history and pricing
+  cache invalidate  Remove securities nothing was fetched for within
+                    --older-than, so the next lookup fetches them again
+  cache purge       Remove everything --source supplied (securities with data
+                    from other sources, pins included, keep that data; quotes
+                    go with fmp). Each cache action
+                    prints the affected securities; --dry-run only lists them
+  pin               Pin values of a listing (isin:, cusip:, sedol:, wkn:,
+                    valor:, figi:, name:) with source "manual": no refresh or
+                    import overwrites them, they never expire, and lookups
+                    flag the security with "pinned": true
+
 Designators:
   ticker:AAPL       Look up ISIN/CUSIP for ticker
+  ticker:FB@2021-06-01
+                    Look up the security that held a ticker on a date
+                    (cache only)
   isin:US0378331005 Look up ticker for ISIN (cache only)
   cusip:037833100   Look up ticker for CUSIP (cache only)
+  cusip:CA:13321L108
+                    Look up ticker for CUSIP of a non-US issuer (needed for
+                    CINS prefixes G, N, M, P, V, X, Y: e.g., cusip:BM:G0408V102)
+  sedol:0263494     Look up ticker for SEDOL (cache only, GB assumed)
+  sedol:IE:0182704  Look up ticker for SEDOL of an Irish security
+  wkn:716460        Look up ticker for WKN (cache only, German ISIN)
+  valor:3886335     Look up ticker for Valor number (cache only, CH assumed)
+  valor:LI:{value}  Look up ticker for Valor number of a Liechtenstein security
+  figi:BBG000B9XRY4 Look up ticker for FIGI, any level (cache only)
+  lei:HWUPKR0MPOU8FGXBT394
+                    List all cached securities of the issuer with this LEI
+  "name:Vanguard Total Stock"
+                    Search securities by name (cache first, then FMP):
+                    ranked candidates, best match first
 
 Options:
   -h, --help        Show this help message
   -v, --version     Show version
   -V, --verbose     Verbose output (logs to stderr)
   -p, --price       Include pricing data (price, market cap, volume, etc.)
+  --price-history   Include every stored pricing observation (price_history,
+                    oldest first)
+  --sources         Include the source of each cached field (sources: name,
+                    exchange, isin, ... → fmp, sec, import, ...)
+  --skip-db         Don't open the database (explain and convert only)
+  --dry-run         Show what db migrate or a cache action would do without
+                    changing anything
+  --max-age <duration>
+                    Treat cached identifiers older than this as expired (e.g.,
+                    30d, 12h; overrides TICKISINATOR_TTL*). Expired entries are
+                    returned with "stale": true and refreshed from FMP
+  --on-conflict <policy>
+                    When fetched data assigns a cached identifier to another
+                    security: refuse (default; nothing is cached) or overwrite.
+                    Either way the conflict is recorded
+  --format <format> Import file format: csv, jsonl or sec (default: from the
+                    file extension; .json is sec). Export format: csv, jsonl
+                    (default) or sql. Stats format: json (default) or text
+  --map <field>=<column>
+                    Read an import field from a differently named column
+                    (repeatable, e.g., --map "isin=ISIN Code"). Columns named
+                    like the field, or symbol, title, cik_str, etc., are
+                    recognized without one
+  --source <source> Export securities with identifiers from this source only
+                    (e.g., fmp, sec, import); source to remove (cache purge)
+  --exchange <exchange>
+                    Export listings on this exchange only (e.g., NASDAQ);
+                    exchange of the pinned listing (default: the ticker's
+                    only cached listing)
+  --since <date|duration>
+                    Export securities with identifiers fetched since a date
+                    (YYYY-MM-DD) or within a duration (e.g., 30d)
+  --older-than <duration>
+                    Age of the data cache invalidate removes (e.g., 30d)
   --db <path>       Database path (default: ~/.config/tickisinator/tickisinator.db)
 
 Environment Variables:
   FMP_API_KEY              Financial Modeling Prep API key (required)
   TICKISINATOR_DB_PATH     Database file path
   TICKISINATOR_VERBOSE     Enable verbose logging (set to "1")
+  TICKISINATOR_CONFLICT_POLICY
+                           Conflict policy: refuse (default) or overwrite
+  TICKISINATOR_TTL         Time-to-live of cached identifiers (e.g., 30d; default:
+                           never expire)
+  TICKISINATOR_TTL_{TYPE}  Time-to-live for one identifier type (TICKER, ISIN,
+                           CUSIP, CIK; SEDOL, WKN, VALOR and FIGI are accepted
+                           but never expire, as FMP doesn't refresh them)
+  TICKISINATOR_PRICE_HISTORY_MAX_AGE
+                           Drop pricing history older than this (e.g., 365d;
+                           default: keep everything)
+  TICKISINATOR_PRICE_HISTORY_MAX_ROWS
+                           Keep at most this many observations per security
+  TICKISINATOR_SOURCE_PRECEDENCE
+                           Sources, most trusted first (default:
+                           manual,import,sec,fmp); a source never overwrites
+                           values from a more trusted one
 
 Output:
   JSONL format (one JSON object per line) to stdout
@@ -382,12 +1518,48 @@ Examples:
   # Look up with pricing data
   tickisinator --price ticker:AAPL
 
+  # Prices observed so far (refreshing the latest first)
+  tickisinator --price --price-history ticker:AAPL
+
   # Look up from file
   cat tickers.txt | tickisinator
 
   # Look up cached ISIN
   tickisinator isin:US0378331005
 
+  # Which source supplied each field, with SEC trusted over imports
+  TICKISINATOR_SOURCE_PRECEDENCE="sec > import > fmp" tickisinator --sources ticker:AAPL
+
+  # Diagnose a suspicious ISIN
+  tickisinator explain isin:US0378331006
+
+  # CUSIP → ISIN in a sandbox without network or database
+  cat cusips.txt | tickisinator --skip-db convert
+
+  # Review identifiers that fetched data tried to move between securities
+  tickisinator conflicts
+
+  # Seed the cache from a spreadsheet export
+  tickisinator import holdings.csv --map "ticker=Symbol" --map "isin=ISIN Code"
+
+  # CIK and exchange of every SEC filer without FMP requests
+  curl -A "you@example.com" -o company_tickers_exchange.json \
+    https://www.sec.gov/files/company_tickers_exchange.json
+  tickisinator import company_tickers_exchange.json
+
+  # FMP has the wrong ISIN for a restructured company: pin the right one
+  tickisinator pin ticker:XYZ isin:US0378331005 --exchange NASDAQ
+
+  # Drop what FMP returned for a bad ticker, then everything older than 90 days
+  tickisinator cache rm ticker:XYZ
+  tickisinator cache invalidate --older-than 90d --dry-run
+
+  # How much of the cache is complete, and how old it is
+  tickisinator stats --format text
+
+  # Share what was fetched from FMP this month, with prices
+  tickisinator export --format csv --price --source fmp --since 30d > cache.csv
+
 Exit Codes:
   0  Success (all lookups succeeded)
   1  Partial success (some lookups failed)
@@ -404,7 +1576,16 @@ Exit Codes:
   }
 
   // Get configuration
-  const config = getConfig();
+  let config: CliConfig;
+  try {
+    config = getConfig();
+  } catch (error) {
+    if (error instanceof CliError) {
+      console.error(`Error: ${error.message}`);
+      Deno.exit(3);
+    }
+    throw error;
+  }
 
   // Override db path if specified
   if (args.db) {
@@ -421,27 +1602,331 @@ Exit Codes:
     config.priceRequested = true;
   }
 
-  // Ensure database directory exists
-  const dbDir = config.dbPath.substring(0, config.dbPath.lastIndexOf("/"));
+  // Set priceHistoryRequested if specified
+  if (args["price-history"]) {
+    config.priceHistoryRequested = true;
+  }
+
+  // Set sourcesRequested if specified
+  if (args.sources) {
+    config.sourcesRequested = true;
+  }
+
+  // Override conflict policy if specified
+  if (args["on-conflict"]) {
+    config.conflictPolicy = args["on-conflict"] as ConflictPolicy;
+  }
+
+  if (!CONFLICT_POLICIES.includes(config.conflictPolicy)) {
+    console.error(
+      `Error: Unknown conflict policy "${config.conflictPolicy}". Expected: ${CONFLICT_POLICIES.join(", ")}`,
+    );
+    Deno.exit(3);
+  }
+
+  // Subcommand, if the first argument names one
+  const first = args._.length > 0 ? String(args._[0]) : "";
+  const command = (COMMANDS as readonly string[]).includes(first) ? first as Command : undefined;
+  const designatorArgs = command ? args._.slice(1) : args._;
+
+  // Set skipDb if specified (lookups always need the cache)
+  if (args["skip-db"]) {
+    if (command !== "explain" && command !== "convert") {
+      console.error("Error: --skip-db only works with the explain and convert commands.");
+      Deno.exit(3);
+    }
+    config.skipDb = true;
+  }
+
+  // Check the db action before creating or opening anything
+  if (command === "db") {
+    const action = designatorArgs.length > 0 ? String(designatorArgs[0]) : "";
+    if (!DB_ACTIONS.includes(action)) {
+      console.error(`Error: Unknown db action "${action}". Expected: ${DB_ACTIONS.join(", ")}`);
+      Deno.exit(3);
+    }
+  } else if (args["dry-run"] && command !== "cache") {
+    console.error("Error: --dry-run only works with the db migrate and cache commands.");
+    Deno.exit(3);
+  }
+
+  // Cache action and its arguments
+  const cacheAction = command === "cache" ? String(designatorArgs[0] ?? "") as CacheAction : undefined;
+  let olderThan: number | undefined;
+
+  if (cacheAction !== undefined) {
+    const cacheArgs = designatorArgs.slice(1);
+
+    if (!CACHE_ACTIONS.includes(cacheAction)) {
+      console.error(`Error: Unknown cache action "${cacheAction}". Expected: ${CACHE_ACTIONS.join(", ")}`);
+      Deno.exit(3);
+    }
+    if (cacheAction === "rm" && cacheArgs.length === 0) {
+      console.error("Error: cache rm takes one or more designators (e.g., cache rm ticker:XYZ).");
+      Deno.exit(3);
+    }
+    if (cacheAction !== "rm" && cacheArgs.length > 0) {
+      console.error(`Error: cache ${cacheAction} takes no designators.`);
+      Deno.exit(3);
+    }
+    if ((cacheAction === "invalidate") !== (args["older-than"] !== undefined)) {
+      console.error("Error: cache invalidate needs --older-than (e.g., --older-than 30d), and only it takes one.");
+      Deno.exit(3);
+    }
+    if (cacheAction === "purge" && args.source === undefined) {
+      console.error("Error: cache purge needs --source (e.g., --source fmp).");
+      Deno.exit(3);
+    }
+    if (cacheAction !== "purge" && args.source !== undefined) {
+      console.error("Error: --source only works with the export command and cache purge.");
+      Deno.exit(3);
+    }
+    if (args.exchange !== undefined || args.since !== undefined) {
+      console.error("Error: --exchange and --since only work with the export command.");
+      Deno.exit(3);
+    }
+    if (args["older-than"] !== undefined) {
+      try {
+        olderThan = parseDuration(args["older-than"]);
+      } catch (error) {
+        if (!(error instanceof CacheSettingError)) {
+          throw error;
+        }
+        console.error(`Error: ${error.message}`);
+        Deno.exit(3);
+      }
+    }
+  } else if (args["older-than"] !== undefined) {
+    console.error("Error: --older-than only works with cache invalidate.");
+    Deno.exit(3);
+  }
+
+  // Override TTLs if specified (lookups only: nothing else refreshes the cache)
+  if (args["max-age"] !== undefined) {
+    if (command !== undefined) {
+      console.error("Error: --max-age only works with lookups.");
+      Deno.exit(3);
+    }
+    try {
+      config.ttls = uniformTtls(parseDuration(args["max-age"]));
+    } catch (error) {
+      if (!(error instanceof CacheSettingError)) {
+        throw error;
+      }
+      console.error(`Error: ${error.message}`);
+      Deno.exit(3);
+    }
+  }
+
+  if ((command === "conflicts" || command === "stats") && designatorArgs.length > 0) {
+    console.error(`Error: The ${command} command takes no designators.`);
+    Deno.exit(3);
+  }
+
+  // Import file, format and column mapping
+  let importFormat: ImportFormat | undefined;
+  let importMapping: ColumnMapping = {};
+
+  if (command === "import") {
+    if (designatorArgs.length !== 1) {
+      console.error("Error: The import command takes exactly one file.");
+      Deno.exit(3);
+    }
+    try {
+      importFormat = args.format
+        ? args.format as ImportFormat
+        : detectImportFormat(String(designatorArgs[0]));
+      importMapping = parseColumnMapping(args.map);
+    } catch (error) {
+      if (!(error instanceof CliError)) {
+        throw error;
+      }
+      console.error(`Error: ${error.message}`);
+      Deno.exit(3);
+    }
+    if (!IMPORT_FORMATS.includes(importFormat)) {
+      console.error(`Error: Unknown import format "${importFormat}". Expected: ${IMPORT_FORMATS.join(", ")}`);
+      Deno.exit(3);
+    }
+    if (importFormat === "sec" && args.map.length > 0) {
+      console.error("Error: --map doesn't apply to SEC company tickers files.");
+      Deno.exit(3);
+    }
+  } else if (command === "export") {
+    if (designatorArgs.length > 0) {
+      console.error("Error: The export command takes no designators.");
+      Deno.exit(3);
+    }
+    if (args.format && !EXPORT_FORMATS.includes(args.format as ExportFormat)) {
+      console.error(`Error: Unknown export format "${args.format}". Expected: ${EXPORT_FORMATS.join(", ")}`);
+      Deno.exit(3);
+    }
+    if (args.map.length > 0) {
+      console.error("Error: --map only works with the import command.");
+      Deno.exit(3);
+    }
+  } else if (command === "stats") {
+    if (args.format && !STATS_FORMATS.includes(args.format as StatsFormat)) {
+      console.error(`Error: Unknown stats format "${args.format}". Expected: ${STATS_FORMATS.join(", ")}`);
+      Deno.exit(3);
+    }
+    if (args.map.length > 0) {
+      console.error("Error: --map only works with the import command.");
+      Deno.exit(3);
+    }
+  } else if (args.format || args.map.length > 0) {
+    console.error("Error: --format and --map only work with the import, export and stats commands.");
+    Deno.exit(3);
+  }
+
+  // Pinned values and their listing's exchange
+  let pin: PinnedData | undefined;
+
+  if (command === "pin") {
+    if (args.source !== undefined || args.since !== undefined) {
+      console.error("Error: --source and --since only work with the export command.");
+      Deno.exit(3);
+    }
+    try {
+      pin = parsePinDesignators(designatorArgs.map((arg) => String(arg)));
+      if (args.exchange) {
+        pin.exchange = args.exchange.toUpperCase();
+      }
+    } catch (error) {
+      if (!(error instanceof CliError)) {
+        throw error;
+      }
+      console.error(`Error: ${error.message}`);
+      Deno.exit(3);
+    }
+  }
+
+  // Export filters
+  const exportFilter: ExportFilter = {};
+
+  if (
+    (args.source !== undefined || args.exchange !== undefined || args.since !== undefined) &&
+    command !== "cache" && command !== "pin"
+  ) {
+    if (command !== "export") {
+      console.error(
+        "Error: --source, --exchange and --since only work with the export command (--exchange also with pin).",
+      );
+      Deno.exit(3);
+    }
+    exportFilter.source = args.source;
+    exportFilter.exchange = args.exchange?.toUpperCase();
+    if (args.since !== undefined) {
+      try {
+        exportFilter.fetchedSince = parseFetchedSince(args.since);
+      } catch (error) {
+        if (!(error instanceof CliError)) {
+          throw error;
+        }
+        console.error(`Error: ${error.message}`);
+        Deno.exit(3);
+      }
+    }
+  }
+
+  let db: Database | null = null;
+
   try {
-    await Deno.mkdir(dbDir, { recursive: true });
+    // Schema maintenance opens the database as is
+    if (command === "db") {
+      const migrateDb = (await openCache(config, openDatabase))!;
+      const exitCode = migrateCommand(migrateDb, args["dry-run"], config);
+      migrateDb.close();
+      Deno.exit(exitCode);
+    }
+
+    // Applies pending migrations
+    db = await openCache(config);
   } catch (error) {
-    if (!(error instanceof Deno.errors.AlreadyExists)) {
-      console.error(`Failed to create database directory: ${error}`);
+    if (error instanceof CliError) {
+      console.error(error.message);
+      Deno.exit(2);
+    }
+    if (error instanceof SchemaVersionError) {
+      console.error(`Error: ${error.message}`);
       Deno.exit(2);
     }
+    throw error;
   }
 
-  // Initialize database
-  log(config, `Using database: ${config.dbPath}`);
-  const db = initDatabase(config.dbPath);
+  // Report recorded identifier conflicts
+  if (command === "conflicts") {
+    for (const conflict of getConflicts(db!)) {
+      console.log(JSON.stringify(conflict));
+    }
+    db!.close();
+    Deno.exit(0);
+  }
+
+  if (command === "import") {
+    const exitCode = await importCommand(db!, String(designatorArgs[0]), importFormat!, importMapping, config);
+    db!.close();
+    Deno.exit(exitCode);
+  }
+
+  if (command === "export") {
+    const lines = exportCache(db!, (args.format || "jsonl") as ExportFormat, exportFilter, {
+      pricing: config.priceRequested,
+    });
+    for (const line of lines) {
+      console.log(line);
+    }
+    log(config, `Exported ${lines.length} line(s)`);
+    db!.close();
+    Deno.exit(0);
+  }
+
+  if (command === "cache") {
+    const exitCode = cacheCommand(
+      db!,
+      cacheAction!,
+      designatorArgs.slice(1).map((arg) => String(arg)),
+      { olderThan, source: args.source, dryRun: args["dry-run"] },
+      config,
+    );
+    db!.close();
+    Deno.exit(exitCode);
+  }
+
+  if (command === "pin") {
+    let exitCode: number;
+    try {
+      exitCode = pinCommand(db!, pin!, config);
+    } catch (error) {
+      if (!(error instanceof CliError)) {
+        throw error;
+      }
+      console.error(`Error: ${error.message}`);
+      exitCode = 2;
+    }
+    db!.close();
+    Deno.exit(exitCode);
+  }
+
+  if (command === "stats") {
+    const stats = getCacheStats(db!);
+    if (args.format === "text") {
+      for (const line of formatCacheStats(stats)) {
+        console.log(line);
+      }
+    } else {
+      console.log(JSON.stringify(stats));
+    }
+    db!.close();
+    Deno.exit(0);
+  }
 
   // Collect designators from args or stdin
   const designators: string[] = [];
 
-  if (args._.length > 0) {
+  if (designatorArgs.length > 0) {
     // From command-line arguments
-    designators.push(...args._.map((arg) => String(arg)));
+    designators.push(...designatorArgs.map((arg) => String(arg)));
   } else {
     // From stdin
     log(config, "Reading from stdin...");
@@ -479,9 +1964,18 @@ Exit Codes:
   // Process each designator
   let successCount = 0;
   let errorCount = 0;
+  const revalidation: Revalidation = { queue: Promise.resolve(), quotaExhausted: false };
 
   for (const designator of designators) {
-    const result = await processDesignator(designator, db, config);
+    let result: OutputRecord | ExplainRecord | Conversion;
+    if (command === "explain") {
+      result = explainInput(designator, db, config);
+    } else if (command === "convert") {
+      log(config, `Converting ${designator}`);
+      result = convertInput(designator, db ? (parsed) => lookupDesignator(db!, parsed) !== null : undefined);
+    } else {
+      result = await processDesignator(designator, db!, config, revalidation);
+    }
 
     // Output JSONL
     console.log(JSON.stringify(result));
@@ -493,8 +1987,11 @@ Exit Codes:
     }
   }
 
+  // Finish refreshing stale entries before closing the database
+  await revalidation.queue;
+
   // Close database
-  db.close();
+  db?.close();
 
   log(config, `Completed: ${successCount} succeeded, ${errorCount} failed`);
 
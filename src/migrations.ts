@@ -0,0 +1,508 @@
+/**
+ * Schema migrations for the SQLite cache
+ *
+ * The schema version is stored in PRAGMA user_version. Migrations run in order,
+ * each in its own transaction together with the user_version bump, so a failed
+ * migration leaves the database at the previous version.
+ *
+ * To change the schema, append a migration; never edit one that has shipped.
+ */
+
+import type { Database } from "./db.ts";
+import { normalizeTicker } from "./ticker.ts";
+
+/**
+ * One schema change
+ */
+export interface Migration {
+  // Schema version after the migration (1, 2, 3, ...)
+  version: number;
+  description: string;
+  up: (db: Database) => void;
+}
+
+/**
+ * Error for databases whose schema is newer than this version understands
+ */
+export class SchemaVersionError extends Error {
+  constructor(message: string, public databaseVersion: number, public supportedVersion: number) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+/**
+ * Create the schema as it was before versioned migrations
+ *
+ * Databases created by older versions are at user_version 0 with some or all of
+ * these tables already present, so everything here must be idempotent.
+ *
+ * @param db - Database instance
+ */
+function createBaselineSchema(db: Database): void {
+  // Issuers (legal entities; one issuer can have many securities)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS issuers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT,
+      cik TEXT UNIQUE,
+      lei TEXT UNIQUE,
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `);
+
+  // Core securities table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS securities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT,
+      security_type TEXT,
+      market_sector TEXT,
+      issuer_id INTEGER REFERENCES issuers(id) ON DELETE SET NULL,
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `);
+
+  // Databases created before issuers existed lack the link column
+  addColumnIfMissing(
+    db,
+    "securities",
+    "issuer_id",
+    "INTEGER REFERENCES issuers(id) ON DELETE SET NULL",
+  );
+
+  // Ticker identifiers (many-to-many: one security can have multiple tickers on different exchanges)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_ticker (
+      security_id INTEGER NOT NULL,
+      ticker TEXT NOT NULL,
+      exchange TEXT DEFAULT 'US',
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      PRIMARY KEY (ticker, exchange),
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // ISIN identifiers (one-to-one with security)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_isin (
+      security_id INTEGER NOT NULL,
+      isin TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // CUSIP identifiers (one-to-one with security)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_cusip (
+      security_id INTEGER NOT NULL,
+      cusip TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // SEDOL identifiers (UK/Irish national identifier, one-to-one with security)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_sedol (
+      security_id INTEGER NOT NULL,
+      sedol TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // WKN identifiers (German national identifier, one-to-one with security)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_wkn (
+      security_id INTEGER NOT NULL,
+      wkn TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Valor identifiers (Swiss national identifier, one-to-one with security)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_valor (
+      security_id INTEGER NOT NULL,
+      valor TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // CIK identifiers (SEC Central Index Key, one-to-one with security)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_cik (
+      security_id INTEGER NOT NULL,
+      cik TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // FIGI identifiers (one security has exchange-level, composite, and share class FIGIs)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS identifiers_figi (
+      security_id INTEGER NOT NULL,
+      figi TEXT NOT NULL,
+      figi_type TEXT NOT NULL DEFAULT 'figi',
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      PRIMARY KEY (figi, figi_type),
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Pricing data (separate table since prices change frequently)
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pricing (
+      security_id INTEGER PRIMARY KEY,
+      price REAL,
+      change REAL,
+      change_percentage REAL,
+      market_cap REAL,
+      volume REAL,
+      average_volume REAL,
+      beta REAL,
+      last_dividend REAL,
+      range TEXT,
+      is_actively_trading INTEGER DEFAULT 1,
+      price_fetched_at INTEGER NOT NULL,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create indexes for faster lookups
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_ticker ON identifiers_ticker(ticker, exchange)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_isin ON identifiers_isin(isin)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_cusip ON identifiers_cusip(cusip)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_sedol ON identifiers_sedol(sedol)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_wkn_security ON identifiers_wkn(security_id)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_valor_security ON identifiers_valor(security_id)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_cik ON identifiers_cik(cik)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_figi_security ON identifiers_figi(security_id)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_pricing_security ON pricing(security_id)`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_securities_issuer ON securities(issuer_id)`);
+}
+
+/**
+ * Rewrite tickers stored before canonical normalization (e.g., BRK-B → BRK.B)
+ *
+ * If the canonical spelling is already stored for the same exchange, the
+ * non-canonical row is dropped.
+ *
+ * @param db - Database instance
+ */
+function canonicalizeTickers(db: Database): void {
+  const rows = db.prepare(
+    "SELECT rowid, ticker, exchange FROM identifiers_ticker"
+  ).all() as { rowid: number; ticker: string; exchange: string }[];
+
+  for (const row of rows) {
+    const ticker = normalizeTicker(row.ticker);
+    if (ticker === row.ticker) {
+      continue;
+    }
+
+    const existing = db.prepare(
+      "SELECT 1 FROM identifiers_ticker WHERE ticker = ? AND exchange = ?"
+    ).get(ticker, row.exchange);
+
+    if (existing) {
+      db.prepare("DELETE FROM identifiers_ticker WHERE rowid = ?").run(row.rowid);
+    } else {
+      db.prepare("UPDATE identifiers_ticker SET ticker = ? WHERE rowid = ?").run(ticker, row.rowid);
+    }
+  }
+}
+
+/**
+ * Give ticker rows validity intervals, so reassigned tickers keep their history
+ *
+ * The (ticker, exchange) primary key allowed one row per ticker ever; it becomes
+ * unique among current rows (valid_to IS NULL) only. Existing rows become
+ * current with an unknown start.
+ *
+ * @param db - Database instance
+ */
+function addTickerHistory(db: Database): void {
+  db.exec(`
+    CREATE TABLE identifiers_ticker_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      security_id INTEGER NOT NULL,
+      ticker TEXT NOT NULL,
+      exchange TEXT DEFAULT 'US',
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      valid_from TEXT,
+      valid_to TEXT,
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    INSERT INTO identifiers_ticker_history (security_id, ticker, exchange, source, fetched_at)
+    SELECT security_id, ticker, exchange, source, fetched_at FROM identifiers_ticker
+  `);
+
+  db.exec("DROP TABLE identifiers_ticker");
+  db.exec("ALTER TABLE identifiers_ticker_history RENAME TO identifiers_ticker");
+
+  db.exec(`
+    CREATE UNIQUE INDEX idx_ticker_current ON identifiers_ticker(ticker, exchange)
+    WHERE valid_to IS NULL
+  `);
+  db.exec(`CREATE INDEX idx_ticker ON identifiers_ticker(ticker, exchange)`);
+  db.exec(`CREATE INDEX idx_ticker_security ON identifiers_ticker(security_id)`);
+}
+
+/**
+ * Record identifiers that incoming data assigns to a different security
+ *
+ * Conflicts outlive the securities involved (their ids are set to NULL),
+ * so the report still shows what happened after cache cleanup.
+ *
+ * @param db - Database instance
+ */
+function addIdentifierConflicts(db: Database): void {
+  db.exec(`
+    CREATE TABLE identifier_conflicts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      identifier_type TEXT NOT NULL,
+      identifier TEXT NOT NULL,
+      old_security_id INTEGER,
+      new_security_id INTEGER,
+      source TEXT NOT NULL,
+      action TEXT NOT NULL,
+      detected_at INTEGER NOT NULL,
+      FOREIGN KEY (old_security_id) REFERENCES securities(id) ON DELETE SET NULL,
+      FOREIGN KEY (new_security_id) REFERENCES securities(id) ON DELETE SET NULL
+    )
+  `);
+
+  db.exec(`CREATE INDEX idx_conflicts_identifier ON identifier_conflicts(identifier_type, identifier)`);
+}
+
+/**
+ * Keep every pricing observation, not just the latest (pricing keeps the latest)
+ *
+ * The current quotes seed the history.
+ *
+ * @param db - Database instance
+ */
+function addPricingHistory(db: Database): void {
+  db.exec(`
+    CREATE TABLE pricing_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      security_id INTEGER NOT NULL,
+      price REAL,
+      change REAL,
+      change_percentage REAL,
+      market_cap REAL,
+      volume REAL,
+      average_volume REAL,
+      beta REAL,
+      last_dividend REAL,
+      range TEXT,
+      is_actively_trading INTEGER DEFAULT 1,
+      price_fetched_at INTEGER NOT NULL,
+      UNIQUE (security_id, price_fetched_at),
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+
+  db.exec(`
+    INSERT INTO pricing_history (
+      security_id, price, change, change_percentage, market_cap, volume,
+      average_volume, beta, last_dividend, range, is_actively_trading, price_fetched_at
+    )
+    SELECT
+      security_id, price, change, change_percentage, market_cap, volume,
+      average_volume, beta, last_dividend, range, is_actively_trading, price_fetched_at
+    FROM pricing
+  `);
+}
+
+/**
+ * Full-text index over security names (rowid = security id)
+ *
+ * insertSecurity keeps names current; a trigger drops the entry of a deleted
+ * security, since foreign keys can't reach a virtual table.
+ *
+ * @param db - Database instance
+ */
+function addNameSearch(db: Database): void {
+  db.exec(`
+    CREATE VIRTUAL TABLE securities_fts USING fts5(
+      name,
+      tokenize = 'unicode61 remove_diacritics 2'
+    )
+  `);
+
+  db.exec(`
+    INSERT INTO securities_fts (rowid, name)
+    SELECT id, name FROM securities WHERE name IS NOT NULL
+  `);
+
+  db.exec(`
+    CREATE TRIGGER securities_fts_delete AFTER DELETE ON securities
+    BEGIN
+      DELETE FROM securities_fts WHERE rowid = old.id;
+    END
+  `);
+}
+
+/**
+ * Record which source supplied a security's name, type and market sector
+ *
+ * Identifier rows already carry their source. Existing values are attributed to
+ * the source of the security's primary listing, which wrote them together.
+ *
+ * @param db - Database instance
+ */
+function addFieldSources(db: Database): void {
+  for (const field of ["name", "security_type", "market_sector"]) {
+    db.exec(`ALTER TABLE securities ADD COLUMN ${field}_source TEXT`);
+    db.exec(`
+      UPDATE securities SET ${field}_source = (
+        SELECT source FROM identifiers_ticker
+        WHERE security_id = securities.id
+        ORDER BY valid_to IS NOT NULL, id
+        LIMIT 1
+      )
+      WHERE ${field} IS NOT NULL
+    `);
+  }
+}
+
+/**
+ * Add a column to an existing table unless it's already there
+ *
+ * Only needed by the baseline migration, for databases created before
+ * migrations existed; later migrations know which columns are present.
+ *
+ * @param db - Database instance
+ * @param table - Table name
+ * @param column - Column name
+ * @param definition - Column type and constraints
+ */
+function addColumnIfMissing(
+  db: Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+/**
+ * All migrations, in order
+ */
+export const MIGRATIONS: Migration[] = [
+  { version: 1, description: "Baseline schema", up: createBaselineSchema },
+  { version: 2, description: "Canonical ticker spelling", up: canonicalizeTickers },
+  { version: 3, description: "Ticker validity intervals", up: addTickerHistory },
+  { version: 4, description: "Identifier conflicts", up: addIdentifierConflicts },
+  { version: 5, description: "Pricing history", up: addPricingHistory },
+  { version: 6, description: "Security name search", up: addNameSearch },
+  { version: 7, description: "Field sources", up: addFieldSources },
+];
+
+/**
+ * Schema version this build of tickisinator creates and understands
+ */
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Get a database's schema version
+ *
+ * @param db - Database instance
+ * @returns PRAGMA user_version (0 for new databases and those created before migrations)
+ */
+export function getSchemaVersion(db: Database): number {
+  const result = db.prepare("PRAGMA user_version").get() as { user_version: number };
+  return result.user_version;
+}
+
+/**
+ * Get the migrations a database still needs
+ *
+ * @param db - Database instance
+ * @param migrations - Migrations to consider (default: MIGRATIONS)
+ * @returns Pending migrations, in order
+ * @throws SchemaVersionError if the database is newer than the migrations know
+ */
+export function getPendingMigrations(
+  db: Database,
+  migrations: Migration[] = MIGRATIONS,
+): Migration[] {
+  const version = getSchemaVersion(db);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+  if (version > latest) {
+    throw new SchemaVersionError(
+      `Database schema version ${version} is newer than this version of tickisinator supports (${latest}). Please upgrade tickisinator.`,
+      version,
+      latest,
+    );
+  }
+
+  return migrations.filter((migration) => migration.version > version);
+}
+
+/**
+ * Apply pending migrations
+ *
+ * Each migration runs in its own transaction together with the user_version
+ * update, so a failing migration is rolled back and later ones are not attempted.
+ * A migration another process applied meanwhile (while this one waited for the
+ * write lock) is skipped.
+ *
+ * @param db - Database instance
+ * @param options - dryRun: only report what would be applied
+ * @param migrations - Migrations to consider (default: MIGRATIONS)
+ * @returns Migrations applied by this call (or pending, for a dry run)
+ * @throws SchemaVersionError if the database is newer than the migrations know
+ */
+export function migrateDatabase(
+  db: Database,
+  options: { dryRun?: boolean } = {},
+  migrations: Migration[] = MIGRATIONS,
+): Migration[] {
+  const pending = getPendingMigrations(db, migrations);
+
+  if (options.dryRun) {
+    return pending;
+  }
+
+  const applied: Migration[] = [];
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) {
+        return;
+      }
+      migration.up(db);
+      db.exec(`PRAGMA user_version = ${migration.version}`);
+      applied.push(migration);
+    }).immediate();
+  }
+
+  return applied;
+}
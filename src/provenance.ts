@@ -0,0 +1,123 @@
+/**
+ * Source precedence
+ *
+ * Cached data comes from several sources (fmp, sec, import, manual). Each
+ * identifier row and each security field (name, security type, market sector)
+ * records the source that supplied it. A source may only overwrite values
+ * supplied by a source of equal or lower trust.
+ *
+ * Trust is given by an ordered list, most trusted first. Sources not in the
+ * list rank below every listed source; values of unknown origin (written by
+ * older versions) rank below everything. Pins (source "manual") rank above
+ * everything, wherever the list puts them.
+ */
+
+/**
+ * Error for a malformed TICKISINATOR_SOURCE_PRECEDENCE
+ */
+export class SourcePrecedenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SourcePrecedenceError";
+  }
+}
+
+/**
+ * Source of pinned values (see pinSecurity)
+ */
+export const MANUAL_SOURCE = "manual";
+
+/**
+ * Source recorded for imported identifiers (see importSecurities)
+ */
+export const IMPORT_SOURCE = "import";
+
+/**
+ * Source recorded for identifiers from SEC files
+ */
+export const SEC_SOURCE = "sec";
+
+/**
+ * Source recorded for identifiers from FMP (the only source of quotes)
+ */
+export const FMP_SOURCE = "fmp";
+
+/**
+ * Sources, most trusted first
+ */
+export type SourcePrecedence = string[];
+
+export const DEFAULT_SOURCE_PRECEDENCE: SourcePrecedence = [MANUAL_SOURCE, IMPORT_SOURCE, SEC_SOURCE, FMP_SOURCE];
+
+/**
+ * Read the source precedence from the environment
+ *
+ * TICKISINATOR_SOURCE_PRECEDENCE lists sources most trusted first, separated by
+ * commas or ">" (e.g., "manual > sec > fmp").
+ *
+ * @param getEnv - Environment lookup (default: Deno.env.get)
+ * @returns Configured precedence, or DEFAULT_SOURCE_PRECEDENCE
+ * @throws SourcePrecedenceError if the list is empty or names a source twice
+ */
+export function getSourcePrecedenceFromEnv(
+  getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name),
+): SourcePrecedence {
+  const value = getEnv("TICKISINATOR_SOURCE_PRECEDENCE");
+
+  if (value === undefined) {
+    return DEFAULT_SOURCE_PRECEDENCE;
+  }
+
+  const precedence = value.split(/[,>]/).map((source) => source.trim().toLowerCase()).filter((source) => source);
+
+  if (precedence.length === 0) {
+    throw new SourcePrecedenceError(
+      `Invalid TICKISINATOR_SOURCE_PRECEDENCE "${value}": expected sources, most trusted first (e.g., manual,sec,fmp)`,
+    );
+  }
+
+  const duplicate = precedence.find((source, index) => precedence.indexOf(source) !== index);
+  if (duplicate) {
+    throw new SourcePrecedenceError(
+      `Invalid TICKISINATOR_SOURCE_PRECEDENCE "${value}": "${duplicate}" is listed twice`,
+    );
+  }
+
+  return precedence;
+}
+
+/**
+ * Rank of a source (lower is more trusted)
+ *
+ * @param source - Source, or null if unknown
+ * @param precedence - Sources, most trusted first
+ * @returns Position in the list (-1 for pins); unlisted sources and unknown origin rank last
+ */
+export function sourceRank(source: string | null | undefined, precedence: SourcePrecedence): number {
+  if (source === null || source === undefined) {
+    return precedence.length + 1;
+  }
+  if (source === MANUAL_SOURCE) {
+    return -1;
+  }
+
+  const index = precedence.indexOf(source);
+
+  return index === -1 ? precedence.length : index;
+}
+
+/**
+ * Whether values from one source are protected from another
+ *
+ * @param held - Source of the stored value
+ * @param incoming - Source of the new value
+ * @param precedence - Sources, most trusted first
+ * @returns true if the stored value's source is strictly more trusted
+ */
+export function outranks(
+  held: string | null | undefined,
+  incoming: string,
+  precedence: SourcePrecedence,
+): boolean {
+  return sourceRank(held, precedence) < sourceRank(incoming, precedence);
+}
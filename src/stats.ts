@@ -0,0 +1,222 @@
+/**
+ * Cache statistics ("stats" command)
+ *
+ * Reports what the cache covers: how many securities and identifiers it holds,
+ * which identifiers are missing, how old the fetched data is, where it came
+ * from, and which tickers still lack identifiers a lookup would return.
+ */
+
+import { CACHED_IDENTIFIER_TYPES, type CachedIdentifierType, parseDuration } from "./cache.ts";
+import type { Database } from "./db.ts";
+import { CUSIP_COUNTRIES } from "./isin.ts";
+
+/**
+ * Supported stats formats
+ */
+export type StatsFormat = "json" | "text";
+
+export const STATS_FORMATS: StatsFormat[] = ["json", "text"];
+
+/**
+ * Upper bounds of the age buckets (the last bucket is open-ended)
+ */
+const AGE_BUCKETS = ["1d", "7d", "30d", "90d", "365d"];
+
+/**
+ * Number of timestamps younger than a bound (null: everything older than the last bound)
+ */
+export interface AgeBucket {
+  under: string | null;
+  count: number;
+}
+
+/**
+ * A current listing whose security lacks identifiers
+ */
+export interface IncompleteListing {
+  ticker: string;
+  exchange: string;
+  // isin, and cusip when the security is (or may be) from a CUSIP country
+  missing: ("isin" | "cusip")[];
+}
+
+/**
+ * Cache statistics
+ */
+export interface CacheStats {
+  securities: number;
+  issuers: number;
+  // Current listings (ticker on an exchange)
+  listings: number;
+  securities_priced: number;
+  // Rows per identifier type (current tickers only; figi covers every level)
+  identifiers: Record<CachedIdentifierType | "lei", number>;
+  securities_missing_isin: number;
+  securities_missing_cusip: number;
+  // Age of identifier rows (fetched_at) and of current quotes (price_fetched_at)
+  fetched_at_age: AgeBucket[];
+  price_fetched_at_age: AgeBucket[];
+  // Identifier rows per source, and current listings per exchange (most first)
+  sources: Record<string, number>;
+  exchanges: Record<string, number>;
+  incomplete: IncompleteListing[];
+}
+
+/**
+ * Current identifier rows of every type, with their source and fetch time
+ */
+const IDENTIFIER_ROWS = [
+  "SELECT security_id, source, fetched_at FROM identifiers_ticker WHERE valid_to IS NULL",
+  ...CACHED_IDENTIFIER_TYPES.filter((type) => type !== "ticker").map(
+    (type) => `SELECT security_id, source, fetched_at FROM identifiers_${type}`,
+  ),
+].join(" UNION ALL ");
+
+/**
+ * Collect cache statistics
+ *
+ * @param db - Database instance
+ * @param now - Current time (Unix seconds)
+ * @returns Statistics of the whole cache
+ */
+export function getCacheStats(db: Database, now: number = Math.floor(Date.now() / 1000)): CacheStats {
+  const count = (sql: string) => (db.prepare(sql).get() as { count: number }).count;
+
+  const identifiers = Object.fromEntries([
+    ["ticker", count("SELECT COUNT(*) AS count FROM identifiers_ticker WHERE valid_to IS NULL")],
+    ...CACHED_IDENTIFIER_TYPES.filter((type) => type !== "ticker").map(
+      (type) => [type, count(`SELECT COUNT(*) AS count FROM identifiers_${type}`)],
+    ),
+    ["lei", count("SELECT COUNT(*) AS count FROM issuers WHERE lei IS NOT NULL")],
+  ]) as CacheStats["identifiers"];
+
+  const fetchedAt = db.prepare(`SELECT fetched_at AS at FROM (${IDENTIFIER_ROWS})`).all() as { at: number }[];
+  const priceFetchedAt = db.prepare("SELECT price_fetched_at AS at FROM pricing").all() as { at: number }[];
+
+  return {
+    securities: count("SELECT COUNT(*) AS count FROM securities"),
+    issuers: count("SELECT COUNT(*) AS count FROM issuers"),
+    listings: identifiers.ticker,
+    securities_priced: count("SELECT COUNT(*) AS count FROM pricing"),
+    identifiers,
+    securities_missing_isin: count(`
+      SELECT COUNT(*) AS count FROM securities
+      WHERE id NOT IN (SELECT security_id FROM identifiers_isin)
+    `),
+    securities_missing_cusip: count(`
+      SELECT COUNT(*) AS count FROM securities
+      WHERE id NOT IN (SELECT security_id FROM identifiers_cusip)
+    `),
+    fetched_at_age: toAgeBuckets(fetchedAt.map((row) => row.at), now),
+    price_fetched_at_age: toAgeBuckets(priceFetchedAt.map((row) => row.at), now),
+    sources: toBreakdown(db.prepare(`
+      SELECT source AS key, COUNT(*) AS count FROM (${IDENTIFIER_ROWS})
+      GROUP BY source ORDER BY count DESC, source
+    `).all() as { key: string | null; count: number }[]),
+    exchanges: toBreakdown(db.prepare(`
+      SELECT exchange AS key, COUNT(*) AS count FROM identifiers_ticker
+      WHERE valid_to IS NULL
+      GROUP BY exchange ORDER BY count DESC, exchange
+    `).all() as { key: string | null; count: number }[]),
+    incomplete: getIncompleteListings(db),
+  };
+}
+
+/**
+ * Count timestamps per age bucket
+ */
+function toAgeBuckets(timestamps: number[], now: number): AgeBucket[] {
+  const bounds = AGE_BUCKETS.map((bucket) => parseDuration(bucket));
+  const buckets: AgeBucket[] = [...AGE_BUCKETS, null].map((under) => ({ under, count: 0 }));
+
+  for (const timestamp of timestamps) {
+    const index = bounds.findIndex((bound) => now - timestamp < bound);
+    buckets[index === -1 ? bounds.length : index].count++;
+  }
+
+  return buckets;
+}
+
+/**
+ * Turn grouped counts into an object (rows without a key count as "unknown")
+ */
+function toBreakdown(rows: { key: string | null; count: number }[]): Record<string, number> {
+  return Object.fromEntries(rows.map((row) => [row.key ?? "unknown", row.count]));
+}
+
+/**
+ * Current listings whose security has no ISIN, or no CUSIP although its ISIN
+ * is from a CUSIP country (US, CA, BM, KY) or unknown
+ */
+function getIncompleteListings(db: Database): IncompleteListing[] {
+  const rows = db.prepare(`
+    SELECT
+      t.ticker,
+      t.exchange,
+      (SELECT GROUP_CONCAT(SUBSTR(isin, 1, 2)) FROM identifiers_isin WHERE security_id = t.security_id) AS countries,
+      EXISTS (SELECT 1 FROM identifiers_cusip WHERE security_id = t.security_id) AS has_cusip
+    FROM identifiers_ticker AS t
+    WHERE t.valid_to IS NULL
+    ORDER BY t.ticker, t.exchange
+  `).all() as { ticker: string; exchange: string; countries: string | null; has_cusip: number }[];
+
+  return rows.flatMap((row) => {
+    const countries = row.countries?.split(",") ?? [];
+    const missing: IncompleteListing["missing"] = [];
+
+    if (countries.length === 0) {
+      missing.push("isin");
+    }
+    if (!row.has_cusip && (countries.length === 0 || countries.some((c) => CUSIP_COUNTRIES.includes(c)))) {
+      missing.push("cusip");
+    }
+
+    return missing.length > 0 ? [{ ticker: row.ticker, exchange: row.exchange, missing }] : [];
+  });
+}
+
+/**
+ * Format statistics for reading
+ *
+ * @param stats - Statistics (see getCacheStats)
+ * @returns Output lines
+ */
+export function formatCacheStats(stats: CacheStats): string[] {
+  const table = (entries: [string, string | number][]) => {
+    const width = Math.max(0, ...entries.map(([label]) => label.length));
+    return entries.map(([label, value]) => `  ${label.padEnd(width)}  ${value}`);
+  };
+  const ages = (buckets: AgeBucket[]) =>
+    table(buckets.map((bucket, index) => [
+      bucket.under ? `< ${bucket.under}` : `>= ${buckets[index - 1]?.under ?? "0s"}`,
+      bucket.count,
+    ]));
+
+  return [
+    `Securities: ${stats.securities} (${stats.issuers} issuers, ${stats.listings} current listings, ${stats.securities_priced} priced)`,
+    "",
+    "Identifiers:",
+    ...table(Object.entries(stats.identifiers)),
+    "",
+    "Missing:",
+    ...table([["ISIN", stats.securities_missing_isin], ["CUSIP", stats.securities_missing_cusip]]),
+    "",
+    "Identifier age (fetched_at):",
+    ...ages(stats.fetched_at_age),
+    "",
+    "Quote age (price_fetched_at):",
+    ...ages(stats.price_fetched_at_age),
+    "",
+    "Sources (identifiers):",
+    ...table(Object.entries(stats.sources)),
+    "",
+    "Exchanges (listings):",
+    ...table(Object.entries(stats.exchanges)),
+    "",
+    `Incomplete listings: ${stats.incomplete.length}`,
+    ...table(stats.incomplete.map((listing) => [
+      `${listing.ticker} (${listing.exchange})`,
+      `no ${listing.missing.join(", no ")}`,
+    ])),
+  ];
+}
@@ -0,0 +1,152 @@
+/**
+ * Typo correction suggestions for identifiers with a wrong check digit
+ *
+ * A failed check digit usually means a typo. Candidates are generated by:
+ * - Substituting look-alike characters (O↔0, I↔1, S↔5)
+ * - Swapping adjacent characters
+ * - Replacing the check digit (or a letter in its place) with the computed one
+ *
+ * Only candidates that validate are suggested.
+ */
+
+import { getCountryName } from "./countries.ts";
+import {
+  computeCusipCheckDigit,
+  computeIsinCheckDigit,
+  validateCusip,
+  validateIsin,
+} from "./isin.ts";
+
+/**
+ * Identifier types that get suggestions
+ */
+export type SuggestableType = "isin" | "cusip";
+
+/**
+ * How a suggestion differs from the input
+ */
+export type CorrectionType = "substitution" | "transposition" | "check_digit";
+
+/**
+ * Suggested correction
+ */
+export interface Suggestion {
+  value: string;
+  correction: CorrectionType;
+  // Whether the suggested identifier is in the local cache
+  cached: boolean;
+}
+
+/**
+ * Characters commonly confused with each other when typing identifiers
+ */
+const LOOKALIKES: Record<string, string> = {
+  O: "0",
+  "0": "O",
+  I: "1",
+  "1": "I",
+  S: "5",
+  "5": "S",
+};
+
+/**
+ * Order of correction types when ranking (most to least likely typo): a
+ * mistyped check digit always has its one fix, while a transposition that
+ * passes the check digit is often a coincidence
+ */
+const CORRECTION_ORDER: CorrectionType[] = ["substitution", "check_digit", "transposition"];
+
+/**
+ * Validation errors of identifiers that are well-formed up to the check
+ * character: a wrong check digit, or a letter in its place (e.g., O for 0)
+ */
+const CHECK_DIGIT_ERRORS = ["Invalid check digit", "Check digit must be a number"];
+
+/**
+ * Validation and check digit functions per identifier type
+ */
+const VALIDATORS: Record<
+  SuggestableType,
+  {
+    validate: (value: string) => { valid: boolean; error?: string };
+    isValid: (value: string) => boolean;
+    computeCheckDigit: (base: string) => number;
+  }
+> = {
+  isin: {
+    validate: validateIsin,
+    // Transposing the country code can pass the check digit, but not name a country
+    isValid: (value) =>
+      validateIsin(value).valid && getCountryName(value.substring(0, 2)) !== undefined,
+    computeCheckDigit: computeIsinCheckDigit,
+  },
+  cusip: {
+    validate: validateCusip,
+    isValid: (value) => validateCusip(value).valid,
+    computeCheckDigit: computeCusipCheckDigit,
+  },
+};
+
+/**
+ * Suggest valid identifiers near one that failed its check digit
+ *
+ * Suggestions are ranked with cached identifiers first, then by correction type
+ * (substitution, check digit, transposition).
+ *
+ * @param type - Identifier type
+ * @param value - Identifier (uppercase)
+ * @param isCached - Returns whether an identifier is in the local cache
+ * @returns Suggestions (empty unless the only problem is the check digit or
+ *   the character in its place)
+ */
+export function suggestCorrections(
+  type: SuggestableType,
+  value: string,
+  isCached: (candidate: string) => boolean = () => false,
+): Suggestion[] {
+  const validator = VALIDATORS[type];
+
+  if (!CHECK_DIGIT_ERRORS.includes(validator.validate(value).error ?? "")) {
+    return [];
+  }
+
+  const candidates = new Map<string, CorrectionType>();
+  const addCandidate = (candidate: string, correction: CorrectionType) => {
+    if (candidate !== value && !candidates.has(candidate) && validator.isValid(candidate)) {
+      candidates.set(candidate, correction);
+    }
+  };
+
+  // Look-alike substitutions
+  for (let i = 0; i < value.length; i++) {
+    const replacement = LOOKALIKES[value[i]];
+    if (replacement !== undefined) {
+      addCandidate(value.substring(0, i) + replacement + value.substring(i + 1), "substitution");
+    }
+  }
+
+  // Adjacent transpositions
+  for (let i = 0; i < value.length - 1; i++) {
+    if (value[i] !== value[i + 1]) {
+      addCandidate(
+        value.substring(0, i) + value[i + 1] + value[i] + value.substring(i + 2),
+        "transposition",
+      );
+    }
+  }
+
+  // Corrected check digit
+  const base = value.substring(0, value.length - 1);
+  addCandidate(base + validator.computeCheckDigit(base), "check_digit");
+
+  const suggestions = [...candidates].map(([candidate, correction]) => ({
+    value: candidate,
+    correction,
+    cached: isCached(candidate),
+  }));
+
+  return suggestions.sort((a, b) =>
+    Number(b.cached) - Number(a.cached) ||
+    CORRECTION_ORDER.indexOf(a.correction) - CORRECTION_ORDER.indexOf(b.correction)
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Ticker symbol normalization
+ *
+ * Vendors and users write share class tickers with different separators:
+ * BRK.B, BRK-B, BRK/B and "BRK B" all name Berkshire Hathaway class B.
+ *
+ * Tickers are stored and looked up in one canonical form (uppercase, "." as the
+ * separator). Vendor-specific forms are produced only at the API boundary.
+ */
+
+/**
+ * Separator used in canonical tickers
+ */
+export const CANONICAL_TICKER_SEPARATOR = ".";
+
+/**
+ * Separators accepted in input tickers (any run of them is one separator)
+ */
+const TICKER_SEPARATORS = /[.\-/\s]+/;
+
+/**
+ * Separators of the alias forms matched on lookup, canonical first
+ */
+const ALIAS_SEPARATORS = [".", "-", "/", " "];
+
+/**
+ * Normalize a ticker to its canonical form
+ *
+ * Examples: "brk-b", "BRK/B", "BRK B" → "BRK.B"
+ *
+ * @param ticker - Ticker symbol in any vendor convention
+ * @returns Canonical ticker (uppercase, "." separating share classes)
+ */
+export function normalizeTicker(ticker: string): string {
+  return ticker.trim().toUpperCase().split(TICKER_SEPARATORS).join(CANONICAL_TICKER_SEPARATOR);
+}
+
+/**
+ * All spellings of a ticker that may be stored (e.g., by older versions)
+ *
+ * @param ticker - Ticker symbol in any vendor convention
+ * @returns Distinct alias forms, canonical form first
+ */
+export function tickerAliases(ticker: string): string[] {
+  const parts = normalizeTicker(ticker).split(CANONICAL_TICKER_SEPARATOR);
+
+  return [...new Set(ALIAS_SEPARATORS.map((separator) => parts.join(separator)))];
+}
+
+/**
+ * Exchange suffixes of Financial Modeling Prep tickers outside the US
+ * (e.g., "VOD.L"), which keep their "."
+ */
+const FMP_EXCHANGE_SUFFIXES = new Set(
+  ("AS AX BO BR CN CO DE F HE HK IL IR JO KQ KS L LS MC ME MI " +
+    "MX NE NS NZ OL PA SA SI SS ST SW SZ T TA TO TW TWO V VI WA").split(" "),
+);
+
+/**
+ * Convert a ticker to Financial Modeling Prep's convention
+ *
+ * A single-letter share class is hyphen-separated ("BRK.B" → "BRK-B");
+ * exchange suffixes keep their "." ("VOD.L", "BBD.B.TO" → "BBD-B.TO").
+ *
+ * @param ticker - Ticker symbol in any vendor convention
+ * @returns FMP ticker
+ */
+export function toFmpTicker(ticker: string): string {
+  const parts = normalizeTicker(ticker).split(CANONICAL_TICKER_SEPARATOR);
+  const last = parts[parts.length - 1];
+  const suffix = parts.length > 1 && FMP_EXCHANGE_SUFFIXES.has(last) ? `.${parts.pop()}` : "";
+
+  let fmpTicker = parts[0];
+  for (const part of parts.slice(1)) {
+    fmpTicker += (/^[A-Z]$/.test(part) ? "-" : ".") + part;
+  }
+
+  return fmpTicker + suffix;
+}
@@ -13,6 +13,7 @@ import {
   fetchTickerProfile,
   FmpApiError,
   FmpRateLimitError,
+  searchCompanyName,
 } from "../../src/apis/fmp.ts";
 
 // Mock FMP API responses
@@ -177,13 +178,36 @@ Deno.test("fetchTickerProfile - handles ticker with hyphen (BRK-B)", async () =>
 
   try {
     const result = await fetchTickerProfile("BRK-B", "test-api-key");
-    assertEquals(result.security.ticker, "BRK-B");
+    assertEquals(result.security.ticker, "BRK.B"); // Canonical form
     assertEquals(result.security.isin, "US0846707026");
   } finally {
     teardownFetchMock();
   }
 });
 
+Deno.test("fetchTickerProfile - sends canonical ticker in FMP form", async () => {
+  setupFetchMock(async (input) => {
+    const url = typeof input === "string" ? input : input.toString();
+    assertEquals(url.includes("symbol=BRK-B"), true);
+    return createMockResponse(
+      [{
+        symbol: "BRK-B",
+        companyName: "Berkshire Hathaway Inc.",
+        exchange: "NYSE",
+      }],
+      200,
+      "OK",
+    );
+  });
+
+  try {
+    const result = await fetchTickerProfile("BRK.B", "test-api-key");
+    assertEquals(result.security.ticker, "BRK.B");
+  } finally {
+    teardownFetchMock();
+  }
+});
+
 Deno.test("fetchTickerProfile - ticker not found (404)", async () => {
   setupFetchMock(async () => {
     return createMockResponse([], 200, "OK"); // FMP returns empty array for not found
@@ -281,9 +305,9 @@ Deno.test("fetchTickerProfile - missing API key", async () => {
 });
 
 Deno.test("fetchTickerProfile - validates response structure", async () => {
-  setupFetchMock(async () => {
+  setupFetchMock(() => {
     // Return malformed response (not an array)
-    return createMockResponse({ symbol: "AAPL" }, 200, "OK");
+    return Promise.resolve(createMockResponse({ symbol: "AAPL" }, 200, "OK"));
   });
 
   try {
@@ -296,3 +320,58 @@ Deno.test("fetchTickerProfile - validates response structure", async () => {
     teardownFetchMock();
   }
 });
+
+Deno.test("searchCompanyName - returns candidates with canonical tickers", async () => {
+  setupFetchMock((input) => {
+    const url = typeof input === "string" ? input : input.toString();
+    assertEquals(url.includes("/stable/search-name"), true);
+    assertEquals(url.includes("query=Berkshire+Hathaway"), true);
+    assertEquals(url.includes("limit=5"), true);
+    return Promise.resolve(createMockResponse(
+      [
+        { symbol: "BRK-B", name: "Berkshire Hathaway Inc.", currency: "USD", exchange: "NYSE" },
+        { symbol: "BRK-A", name: "Berkshire Hathaway Inc.", currency: "USD", exchange: "NYSE" },
+      ],
+      200,
+      "OK",
+    ));
+  });
+
+  try {
+    const results = await searchCompanyName("Berkshire Hathaway", "test-api-key", 5);
+    assertEquals(results, [
+      { ticker: "BRK.B", name: "Berkshire Hathaway Inc.", exchange: "NYSE" },
+      { ticker: "BRK.A", name: "Berkshire Hathaway Inc.", exchange: "NYSE" },
+    ]);
+  } finally {
+    teardownFetchMock();
+  }
+});
+
+Deno.test("searchCompanyName - no match is an empty list", async () => {
+  setupFetchMock(() => {
+    return Promise.resolve(createMockResponse([], 200, "OK"));
+  });
+
+  try {
+    assertEquals(await searchCompanyName("Nonexistent Holdings", "test-api-key", 10), []);
+  } finally {
+    teardownFetchMock();
+  }
+});
+
+Deno.test("searchCompanyName - rate limit exceeded", async () => {
+  setupFetchMock(() => {
+    return Promise.resolve(createMockResponse([MOCK_RATE_LIMIT_RESPONSE], 200, "OK"));
+  });
+
+  try {
+    await assertRejects(
+      async () => await searchCompanyName("Apple", "test-api-key", 10),
+      FmpRateLimitError,
+      "Rate limit exceeded",
+    );
+  } finally {
+    teardownFetchMock();
+  }
+});
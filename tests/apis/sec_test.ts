@@ -0,0 +1,47 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { parseCompanyTickersExchange, SecFormatError } from "../../src/apis/sec.ts";
+
+Deno.test("parseCompanyTickersExchange - pads CIKs and uppercases exchanges", () => {
+  const companies = parseCompanyTickersExchange({
+    fields: ["cik", "name", "ticker", "exchange"],
+    data: [
+      [320193, "Apple Inc.", "AAPL", "Nasdaq"],
+      [1067983, "BERKSHIRE HATHAWAY INC", "BRK-B", "NYSE"],
+      [1234567, "Unlisted Corp", "UNLC", null],
+    ],
+  });
+
+  assertEquals(companies, [
+    { cik: "0000320193", name: "Apple Inc.", ticker: "AAPL", exchange: "NASDAQ" },
+    { cik: "0001067983", name: "BERKSHIRE HATHAWAY INC", ticker: "BRK-B", exchange: "NYSE" },
+    { cik: "0001234567", name: "Unlisted Corp", ticker: "UNLC", exchange: null },
+  ]);
+});
+
+Deno.test("parseCompanyTickersExchange - columns located by the fields header", () => {
+  const companies = parseCompanyTickersExchange({
+    fields: ["ticker", "exchange", "cik", "name"],
+    data: [["AAPL", "Nasdaq", 320193, "Apple Inc."]],
+  });
+
+  assertEquals(companies, [{ cik: "0000320193", name: "Apple Inc.", ticker: "AAPL", exchange: "NASDAQ" }]);
+});
+
+Deno.test("parseCompanyTickersExchange - rejects other formats", () => {
+  // company_tickers.json (without exchanges) is keyed by row number
+  assertThrows(
+    () => parseCompanyTickersExchange({ "0": { cik_str: 320193, ticker: "AAPL", title: "Apple Inc." } }),
+    SecFormatError,
+    '"fields" and "data"',
+  );
+  assertThrows(
+    () => parseCompanyTickersExchange({ fields: ["cik", "name", "ticker"], data: [] }),
+    SecFormatError,
+    'Missing field "exchange"',
+  );
+  assertThrows(
+    () => parseCompanyTickersExchange({ fields: ["cik", "name", "ticker", "exchange"], data: [{}] }),
+    SecFormatError,
+    "Entry 1",
+  );
+});
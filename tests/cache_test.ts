@@ -0,0 +1,135 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  CACHED_IDENTIFIER_TYPES,
+  CacheSettingError,
+  findStaleIdentifiers,
+  getPricingRetentionFromEnv,
+  getTtlsFromEnv,
+  isDuration,
+  parseDuration,
+  uniformTtls,
+} from "../src/cache.ts";
+
+Deno.test("parseDuration - units", () => {
+  assertEquals(parseDuration("45s"), 45);
+  assertEquals(parseDuration("90m"), 90 * 60);
+  assertEquals(parseDuration("12h"), 12 * 60 * 60);
+  assertEquals(parseDuration("30d"), 30 * 24 * 60 * 60);
+  assertEquals(parseDuration("2w"), 14 * 24 * 60 * 60);
+});
+
+Deno.test("parseDuration - bare number is seconds", () => {
+  assertEquals(parseDuration("3600"), 3600);
+  assertEquals(parseDuration(" 0 "), 0);
+});
+
+Deno.test("parseDuration - unit is case-insensitive", () => {
+  assertEquals(parseDuration("30D"), parseDuration("30d"));
+});
+
+Deno.test("parseDuration - rejects malformed durations", () => {
+  assertThrows(() => parseDuration("thirty days"), CacheSettingError, "Invalid duration");
+  assertThrows(() => parseDuration("30y"), CacheSettingError, "Invalid duration");
+  assertThrows(() => parseDuration("-1d"), CacheSettingError, "Invalid duration");
+  assertThrows(() => parseDuration(""), CacheSettingError, "Invalid duration");
+
+  assertEquals(isDuration("30d"), true);
+  assertEquals(isDuration("30y"), false);
+});
+
+Deno.test("getTtlsFromEnv - no variables means no expiry", () => {
+  assertEquals(getTtlsFromEnv(() => undefined), {});
+});
+
+Deno.test("getTtlsFromEnv - per-type TTL overrides the default", () => {
+  const env: Record<string, string> = {
+    TICKISINATOR_TTL: "30d",
+    TICKISINATOR_TTL_TICKER: "1d",
+  };
+
+  const ttls = getTtlsFromEnv((name) => env[name]);
+
+  assertEquals(ttls.ticker, 24 * 60 * 60);
+  assertEquals(ttls.isin, 30 * 24 * 60 * 60);
+  assertEquals(Object.keys(ttls).length, CACHED_IDENTIFIER_TYPES.length);
+});
+
+Deno.test("getTtlsFromEnv - single type only", () => {
+  const ttls = getTtlsFromEnv((name) => name === "TICKISINATOR_TTL_FIGI" ? "1w" : undefined);
+
+  assertEquals(ttls, { figi: 7 * 24 * 60 * 60 });
+});
+
+Deno.test("getTtlsFromEnv - rejects invalid TTL", () => {
+  assertThrows(
+    () => getTtlsFromEnv((name) => name === "TICKISINATOR_TTL_ISIN" ? "soon" : undefined),
+    CacheSettingError,
+    "Invalid duration",
+  );
+});
+
+Deno.test("uniformTtls - same TTL for every type", () => {
+  const ttls = uniformTtls(60);
+
+  for (const type of CACHED_IDENTIFIER_TYPES) {
+    assertEquals(ttls[type], 60);
+  }
+});
+
+Deno.test("findStaleIdentifiers - only types past their TTL", () => {
+  const now = 1_000_000;
+
+  const stale = findStaleIdentifiers(
+    { ticker: now - 100, isin: now - 10, cusip: now - 100 },
+    { ticker: 50, isin: 50 },
+    now,
+  );
+
+  // CUSIP has no TTL, so it never expires
+  assertEquals(stale, ["ticker"]);
+});
+
+Deno.test("findStaleIdentifiers - types not cached are never stale", () => {
+  assertEquals(findStaleIdentifiers({}, uniformTtls(0), 1_000_000), []);
+});
+
+Deno.test("findStaleIdentifiers - exactly at the TTL is still fresh", () => {
+  assertEquals(findStaleIdentifiers({ isin: 900 }, { isin: 100 }, 1000), []);
+});
+
+Deno.test("getPricingRetentionFromEnv - keeps everything by default", () => {
+  assertEquals(getPricingRetentionFromEnv(() => undefined), {});
+});
+
+Deno.test("getPricingRetentionFromEnv - age and row limits", () => {
+  const env: Record<string, string> = {
+    TICKISINATOR_PRICE_HISTORY_MAX_AGE: "365d",
+    TICKISINATOR_PRICE_HISTORY_MAX_ROWS: "500",
+  };
+
+  assertEquals(getPricingRetentionFromEnv((name) => env[name]), {
+    maxAge: 365 * 24 * 60 * 60,
+    maxRows: 500,
+  });
+});
+
+Deno.test("getPricingRetentionFromEnv - rejects invalid row limit", () => {
+  for (const maxRows of ["0", "-5", "ten"]) {
+    assertThrows(
+      () =>
+        getPricingRetentionFromEnv((name) =>
+          name === "TICKISINATOR_PRICE_HISTORY_MAX_ROWS" ? maxRows : undefined
+        ),
+      CacheSettingError,
+      "Invalid TICKISINATOR_PRICE_HISTORY_MAX_ROWS",
+    );
+  }
+});
+
+Deno.test("findStaleIdentifiers - only the given types are checked", () => {
+  const now = 1_000_000;
+  const fetchedAt = { ticker: now - 100, sedol: now - 100, figi: now - 100 };
+
+  assertEquals(findStaleIdentifiers(fetchedAt, uniformTtls(50), now), ["ticker", "sedol", "figi"]);
+  assertEquals(findStaleIdentifiers(fetchedAt, uniformTtls(50), now, ["ticker", "isin"]), ["ticker"]);
+});
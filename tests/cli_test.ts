@@ -26,7 +26,13 @@ Deno.test("parseDesignator - valid ticker (AAPL)", () => {
 Deno.test("parseDesignator - valid ticker (BRK-B with hyphen)", () => {
   const result = parseDesignator("ticker:BRK-B");
   assertEquals(result.type, "ticker");
-  assertEquals(result.value, "BRK-B");
+  assertEquals(result.value, "BRK.B"); // Should be normalized to the canonical form
+});
+
+Deno.test("parseDesignator - share class separators normalize to the same ticker", () => {
+  for (const input of ["ticker:BRK.B", "ticker:brk-b", "ticker:BRK/B", "ticker:BRK B"]) {
+    assertEquals(parseDesignator(input).value, "BRK.B");
+  }
 });
 
 Deno.test("parseDesignator - valid ticker (lowercase input)", () => {
@@ -59,6 +65,13 @@ Deno.test("parseDesignator - valid CUSIP (with letters)", () => {
   assertEquals(result.value, "88160R101");
 });
 
+Deno.test("parseDesignator - CUSIP with country qualifier", () => {
+  const result = parseDesignator("cusip:CA:13321L108");
+  assertEquals(result.type, "cusip");
+  assertEquals(result.value, "13321L108");
+  assertEquals(result.country, "CA");
+});
+
 Deno.test("parseDesignator - invalid format (no colon)", () => {
   assertThrows(
     () => {
@@ -117,6 +130,12 @@ Deno.test("validateDesignator - valid ticker with numbers", () => {
   assertEquals(result, true);
 });
 
+Deno.test("validateDesignator - ticker with slash separator", () => {
+  const designator: Designator = { type: "ticker", value: "BRK/B" };
+  const result = validateDesignator(designator);
+  assertEquals(result, true);
+});
+
 Deno.test("validateDesignator - ticker too short", () => {
   const designator: Designator = { type: "ticker", value: "" };
   assertThrows(
@@ -146,7 +165,7 @@ Deno.test("validateDesignator - ticker with invalid characters", () => {
       validateDesignator(designator);
     },
     CliError,
-    "only letters, numbers, hyphens, and periods allowed",
+    "only letters, numbers, and share class separators",
   );
 });
 
@@ -178,6 +197,17 @@ Deno.test("validateDesignator - ISIN invalid format", () => {
   );
 });
 
+Deno.test("validateDesignator - ISIN wrong check digit", () => {
+  const designator: Designator = { type: "isin", value: "US0378331006" }; // Should be US0378331005
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "check digit should be 5",
+  );
+});
+
 Deno.test("validateDesignator - valid CUSIP", () => {
   const designator: Designator = { type: "cusip", value: "037833100" };
   const result = validateDesignator(designator);
@@ -205,3 +235,215 @@ Deno.test("validateDesignator - CUSIP invalid characters", () => {
     "must be 8 alphanumeric characters",
   );
 });
+
+Deno.test("validateDesignator - CUSIP wrong check digit", () => {
+  const designator: Designator = { type: "cusip", value: "037833101" }; // Should be 037833100
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "check digit should be 0",
+  );
+});
+
+Deno.test("validateDesignator - valid private placement CUSIP", () => {
+  const designator: Designator = { type: "cusip", value: "12345*AB5" };
+  const result = validateDesignator(designator);
+  assertEquals(result, true);
+});
+
+Deno.test("parseDesignator - valid SEDOL", () => {
+  const result = parseDesignator("sedol:0263494");
+  assertEquals(result.type, "sedol");
+  assertEquals(result.value, "0263494");
+  assertEquals(result.country, undefined);
+});
+
+Deno.test("parseDesignator - SEDOL with country qualifier", () => {
+  const result = parseDesignator("sedol:ie:0182704");
+  assertEquals(result.type, "sedol");
+  assertEquals(result.value, "0182704");
+  assertEquals(result.country, "IE");
+});
+
+Deno.test("validateDesignator - valid SEDOL", () => {
+  const designator: Designator = { type: "sedol", value: "B0YBKJ7" };
+  const result = validateDesignator(designator);
+  assertEquals(result, true);
+});
+
+Deno.test("validateDesignator - SEDOL wrong check digit", () => {
+  const designator: Designator = { type: "sedol", value: "0263495" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "check digit should be 4",
+  );
+});
+
+Deno.test("validateDesignator - SEDOL with vowel", () => {
+  const designator: Designator = { type: "sedol", value: "B0YAKJ7" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "must be 6 digits or consonants",
+  );
+});
+
+Deno.test("validateDesignator - SEDOL with unsupported country", () => {
+  const designator: Designator = { type: "sedol", value: "0263494", country: "FR" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "Invalid SEDOL country",
+  );
+});
+
+Deno.test("parseDesignator - valid FIGI (lowercase input)", () => {
+  const result = parseDesignator("figi:bbg000b9xry4");
+  assertEquals(result.type, "figi");
+  assertEquals(result.value, "BBG000B9XRY4");
+});
+
+Deno.test("validateDesignator - valid FIGI", () => {
+  const designator: Designator = { type: "figi", value: "BBG000B9XRY4" };
+  const result = validateDesignator(designator);
+  assertEquals(result, true);
+});
+
+Deno.test("validateDesignator - FIGI wrong check digit", () => {
+  const designator: Designator = { type: "figi", value: "BBG000B9XRY5" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "check digit should be 4",
+  );
+});
+
+Deno.test("validateDesignator - FIGI reserved prefix", () => {
+  const designator: Designator = { type: "figi", value: "GBG000B9XRY4" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "is reserved",
+  );
+});
+
+Deno.test("validateDesignator - valid LEI", () => {
+  const designator: Designator = { type: "lei", value: "HWUPKR0MPOU8FGXBT394" };
+  const result = validateDesignator(designator);
+  assertEquals(result, true);
+});
+
+Deno.test("validateDesignator - LEI wrong check digits", () => {
+  const designator: Designator = { type: "lei", value: "HWUPKR0MPOU8FGXBT395" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "check digits should be 94",
+  );
+});
+
+Deno.test("parseDesignator - name keeps case and collapses whitespace", () => {
+  const result = parseDesignator("name:  Vanguard   Total Stock ");
+  assertEquals(result, { type: "name", value: "Vanguard Total Stock" });
+});
+
+Deno.test("parseDesignator - name may contain colons and @", () => {
+  const result = parseDesignator("NAME:AT&T Inc.: Class A @ NYSE");
+  assertEquals(result.type, "name");
+  assertEquals(result.value, "AT&T Inc.: Class A @ NYSE");
+});
+
+Deno.test("validateDesignator - valid name", () => {
+  assertEquals(validateDesignator({ type: "name", value: "Apple" }), true);
+});
+
+Deno.test("validateDesignator - name without letters or digits", () => {
+  assertThrows(
+    () => validateDesignator({ type: "name", value: "&&" }),
+    CliError,
+    "must contain a letter or digit",
+  );
+});
+
+Deno.test("validateDesignator - name too long", () => {
+  assertThrows(
+    () => validateDesignator({ type: "name", value: "A".repeat(101) }),
+    CliError,
+    "at most 100 characters",
+  );
+});
+
+Deno.test("parseDesignator - valid WKN", () => {
+  const result = parseDesignator("wkn:a1ewww");
+  assertEquals(result.type, "wkn");
+  assertEquals(result.value, "A1EWWW");
+});
+
+Deno.test("validateDesignator - WKN with letter O", () => {
+  const designator: Designator = { type: "wkn", value: "71646O" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "Invalid WKN",
+  );
+});
+
+Deno.test("parseDesignator - Valor drops leading zeros", () => {
+  const result = parseDesignator("valor:003886335");
+  assertEquals(result.type, "valor");
+  assertEquals(result.value, "3886335");
+});
+
+Deno.test("parseDesignator - Valor with country qualifier", () => {
+  const result = parseDesignator("valor:li:3153292");
+  assertEquals(result.value, "3153292");
+  assertEquals(result.country, "LI");
+});
+
+Deno.test("validateDesignator - Valor with unsupported country", () => {
+  const designator: Designator = { type: "valor", value: "3886335", country: "DE" };
+  assertThrows(
+    () => {
+      validateDesignator(designator);
+    },
+    CliError,
+    "Invalid Valor country",
+  );
+});
+
+Deno.test("parseDesignator - ticker with as-of date", () => {
+  const result = parseDesignator("ticker:fb@2021-06-01");
+  assertEquals(result.type, "ticker");
+  assertEquals(result.value, "FB");
+  assertEquals(result.asOf, "2021-06-01");
+});
+
+Deno.test("validateDesignator - invalid as-of date", () => {
+  for (const asOf of ["2021-13-01", "2021-02-30", "June 1 2021", ""]) {
+    const designator: Designator = { type: "ticker", value: "FB", asOf };
+    assertThrows(
+      () => {
+        validateDesignator(designator);
+      },
+      CliError,
+      "Invalid as-of date",
+    );
+  }
+});
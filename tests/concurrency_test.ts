@@ -0,0 +1,90 @@
+import { assertEquals } from "@std/assert";
+import { BUSY_TIMEOUT_MS, initDatabase, type SecurityData } from "../src/db.ts";
+import type { WorkerTask } from "./concurrency_worker.ts";
+
+const WORKERS = 4;
+const ROUNDS = 5;
+
+/**
+ * Synthetic security (identifiers only need to be unique here)
+ */
+function security(prefix: string, n: number): SecurityData {
+  const digits = String(n).padStart(4, "0");
+  return {
+    name: `${prefix} Corp ${n}`,
+    ticker: `${prefix}${n}`,
+    exchange: "NASDAQ",
+    isin: `US${prefix}${digits}00`.padEnd(12, "0"),
+    cusip: `${prefix}${digits}0`.padEnd(9, "0"),
+    source: "fmp",
+  };
+}
+
+/**
+ * Run workers against one database file and wait for all of them
+ */
+async function runWorkers(tasks: WorkerTask[]): Promise<void> {
+  const results = await Promise.all(tasks.map((task) => {
+    const worker = new Worker(new URL("./concurrency_worker.ts", import.meta.url).href, { type: "module" });
+
+    return new Promise<{ worker: number; error?: string }>((resolve, reject) => {
+      worker.onmessage = (event) => resolve(event.data);
+      worker.onerror = (event) => {
+        event.preventDefault();
+        reject(new Error(event.message));
+      };
+      worker.postMessage(task);
+    }).finally(() => worker.terminate());
+  }));
+
+  assertEquals(results.filter((result) => result.error), []);
+}
+
+Deno.test("concurrent writers - no partial securities, no SQLITE_BUSY", async () => {
+  // The database comes with -wal and -shm files
+  const dir = Deno.makeTempDirSync();
+  const dbPath = `${dir}/tickisinator.db`;
+
+  const shared = Array.from({ length: 10 }, (_, n) => security("SH", n));
+  const tasks = Array.from({ length: WORKERS }, (_, worker): WorkerTask => ({
+    dbPath,
+    worker,
+    rounds: ROUNDS,
+    shared,
+    own: Array.from({ length: 10 }, (_, n) => security(`W${worker}`, n)),
+  }));
+
+  try {
+    // Workers race to create the schema too
+    await runWorkers(tasks);
+
+    const db = initDatabase(dbPath);
+    const count = (sql: string) => (db.prepare(sql).get() as { count: number }).count;
+
+    assertEquals((db.prepare("PRAGMA journal_mode").get() as { journal_mode: string }).journal_mode, "wal");
+    assertEquals((db.prepare("PRAGMA busy_timeout").get() as { timeout: number }).timeout, BUSY_TIMEOUT_MS);
+
+    // Every security written once, each with its name, ticker, ISIN, CUSIP and quote
+    const expected = shared.length + tasks.reduce((total, task) => total + task.own.length, 0);
+    assertEquals(count("SELECT COUNT(*) AS count FROM securities"), expected);
+    assertEquals(count("SELECT COUNT(*) AS count FROM securities WHERE name IS NULL"), 0);
+    assertEquals(count("SELECT COUNT(*) AS count FROM identifiers_ticker WHERE valid_to IS NULL"), expected);
+    assertEquals(count("SELECT COUNT(*) AS count FROM identifiers_ticker WHERE valid_to IS NOT NULL"), 0);
+    assertEquals(count("SELECT COUNT(DISTINCT security_id) AS count FROM identifiers_isin"), expected);
+    assertEquals(count("SELECT COUNT(DISTINCT security_id) AS count FROM identifiers_cusip"), expected);
+    assertEquals(count("SELECT COUNT(*) AS count FROM pricing"), expected);
+    assertEquals(count("SELECT COUNT(*) AS count FROM securities_fts"), expected);
+    assertEquals(count("SELECT COUNT(*) AS count FROM identifier_conflicts"), 0);
+
+    // Pricing history pruned to the retention, whichever worker wrote last
+    assertEquals(count(`
+      SELECT COUNT(*) AS count FROM (
+        SELECT security_id FROM pricing_history GROUP BY security_id HAVING COUNT(*) > 3
+      )
+    `), 0);
+
+    db.close();
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,43 @@
+/// <reference no-default-lib="true" />
+/// <reference lib="deno.worker" />
+
+/**
+ * Worker for concurrency_test.ts
+ *
+ * Opens its own connection to the shared database and writes every security
+ * of the shared set (overlapping with the other workers) and of its own set,
+ * with a quote each, several times over.
+ */
+
+import { initDatabase, insertPricing, insertSecurity, type SecurityData } from "../src/db.ts";
+
+export interface WorkerTask {
+  dbPath: string;
+  worker: number;
+  rounds: number;
+  shared: SecurityData[];
+  own: SecurityData[];
+}
+
+self.onmessage = (event: MessageEvent<WorkerTask>) => {
+  const { dbPath, worker, rounds, shared, own } = event.data;
+
+  try {
+    const db = initDatabase(dbPath);
+
+    for (let round = 0; round < rounds; round++) {
+      for (const security of [...shared, ...own]) {
+        const securityId = insertSecurity(db, security);
+        insertPricing(db, securityId, {
+          price: 100 + worker,
+          price_fetched_at: 1730000000 + round * 100 + worker,
+        }, { retention: { maxRows: 3 } });
+      }
+    }
+
+    db.close();
+    self.postMessage({ worker });
+  } catch (error) {
+    self.postMessage({ worker, error: error instanceof Error ? `${error.name}: ${error.message}` : String(error) });
+  }
+};
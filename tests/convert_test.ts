@@ -0,0 +1,119 @@
+/**
+ * Tests for offline conversion (convert command)
+ *
+ * Testing strategy:
+ * - Derive ISINs from CUSIP/SEDOL/WKN/Valor and back
+ * - Report errors (with check digit suggestions) instead of throwing
+ * - Consult the cache only when one is given, and never open it with --skip-db
+ */
+
+import { assertEquals } from "@std/assert";
+import type { Designator } from "../src/cli.ts";
+import { convertInput } from "../src/convert.ts";
+import { openCache } from "../src/main.ts";
+
+Deno.test("convertInput - ISIN to embedded CUSIP, SEDOL, WKN and Valor", () => {
+  assertEquals(convertInput("isin:US0378331005"), {
+    input: "isin:US0378331005",
+    isin: "US0378331005",
+    cusip: "037833100",
+    sedol: undefined,
+    wkn: undefined,
+    valor: undefined,
+    source: "computed",
+  });
+  assertEquals(convertInput("isin:GB0002634946").sedol, "0263494");
+  assertEquals(convertInput("isin:DE0007164600").wkn, "716460");
+  assertEquals(convertInput("isin:CH0038863350").valor, "3886335");
+});
+
+Deno.test("convertInput - CUSIP, SEDOL, WKN and Valor to ISIN", () => {
+  assertEquals(convertInput("cusip:037833100").isin, "US0378331005");
+  assertEquals(convertInput("cusip:CA:13321L108").isin, "CA13321L1085");
+  assertEquals(convertInput("sedol:0263494").isin, "GB0002634946");
+  assertEquals(convertInput("wkn:716460").isin, "DE0007164600");
+  assertEquals(convertInput("valor:3886335").isin, "CH0038863350");
+
+  // The input identifier is kept as given
+  assertEquals(convertInput("sedol:0263494").sedol, "0263494");
+});
+
+Deno.test("convertInput - CINS numbers of several countries need the country", () => {
+  const result = convertInput("cusip:G0408V102");
+
+  assertEquals(result.isin, undefined);
+  assertEquals(result.cusip, "G0408V102");
+  assertEquals(result.error?.includes("use cusip:{country}:G0408V102"), true);
+
+  assertEquals(convertInput("cusip:BM:G0408V102").isin, "BMG0408V1028");
+  assertEquals(convertInput("cusip:BM:G0408V102").error, undefined);
+});
+
+Deno.test("convertInput - private placement CUSIPs are valid but have no ISIN", () => {
+  const result = convertInput("cusip:12345*AB5");
+
+  assertEquals(result.isin, undefined);
+  assertEquals(result.cusip, "12345*AB5");
+  assertEquals(result.error, "Private placement CUSIPs (with *, @ or #) have no ISIN.");
+});
+
+Deno.test("convertInput - names can't be converted", () => {
+  const result = convertInput("name:Apple");
+
+  assertEquals(result.error, "Names can't be converted offline. Look them up instead (tickisinator name:...).");
+  assertEquals(result.isin, undefined);
+});
+
+Deno.test("convertInput - malformed designators are reported, not thrown", () => {
+  assertEquals(convertInput("AAPL").error?.includes("Expected format"), true);
+  assertEquals(convertInput("sedol:0263495").error !== undefined, true);
+});
+
+Deno.test("convertInput - wrong check digits come with suggestions", () => {
+  const result = convertInput("isin:US0378331006");
+
+  assertEquals(result.error?.includes("check digit"), true);
+  assertEquals(result.suggestions?.some((s) => s.value === "US0378331005"), true);
+  assertEquals(result.isin, undefined);
+
+  assertEquals(convertInput("cusip:037833101").suggestions?.some((s) => s.value === "037833100"), true);
+});
+
+Deno.test("convertInput - reports cached identifiers only when given a cache", () => {
+  const looked: Designator[] = [];
+  const isCached = (designator: Designator) => {
+    looked.push(designator);
+    return designator.value === "037833100";
+  };
+
+  assertEquals(convertInput("cusip:037833100", isCached).cached, true);
+  assertEquals(convertInput("isin:US5949181045", isCached).cached, false);
+  assertEquals(looked.map((d) => `${d.type}:${d.value}`), ["cusip:037833100", "isin:US5949181045"]);
+
+  // --skip-db: no lookups, no cached flag
+  assertEquals("cached" in convertInput("cusip:037833100"), false);
+});
+
+Deno.test("openCache - --skip-db never opens or creates the database", async () => {
+  const dir = Deno.makeTempDirSync();
+  const dbPath = `${dir}/cache/tickisinator.db`;
+
+  try {
+    let opened = 0;
+    const open = (path: string) => {
+      opened++;
+      throw new Error(`Opened ${path}`);
+    };
+
+    assertEquals(await openCache({ dbPath, skipDb: true, verbose: false }, open), null);
+    assertEquals(opened, 0);
+    assertEquals([...Deno.readDirSync(dir)], []);
+
+    // Without it, the directory is created and the database opened
+    const db = await openCache({ dbPath, skipDb: false, verbose: false });
+    db?.close();
+    assertEquals(Deno.statSync(dbPath).isFile, true);
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
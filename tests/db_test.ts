@@ -1,17 +1,37 @@
-import { assertEquals, assertExists } from "@std/assert";
+import { assertEquals, assertExists, assertThrows } from "@std/assert";
+import { Database as SQLiteDatabase } from "@db/sqlite";
 import {
   Database,
   initDatabase,
   insertSecurity,
   lookupByTicker,
+  lookupStoredListing,
   lookupByIsin,
   lookupByCusip,
+  lookupBySedol,
+  lookupByWkn,
+  lookupByValor,
+  lookupByFigi,
+  lookupByLei,
+  searchByName,
   insertPricing,
   getPricing,
+  getPricingHistory,
+  prunePricingHistory,
+  getListings,
+  getConflicts,
+  getIdentifierFetchedAt,
+  getFieldSources,
+  isPinned,
   isPricingStale,
+  pinSecurity,
+  IdentifierConflictError,
+  PinListingError,
   type SecurityData,
   type PricingData,
 } from "../src/db.ts";
+import { findStaleIdentifiers, parseDuration, uniformTtls } from "../src/cache.ts";
+import { FMP_PROFILE_IDENTIFIER_TYPES } from "../src/apis/fmp.ts";
 
 // Use in-memory database for tests
 const TEST_DB_PATH = ":memory:";
@@ -30,7 +50,11 @@ Deno.test("initDatabase - creates all tables", () => {
   assertEquals(tableNames.includes("identifiers_ticker"), true);
   assertEquals(tableNames.includes("identifiers_isin"), true);
   assertEquals(tableNames.includes("identifiers_cusip"), true);
+  assertEquals(tableNames.includes("identifiers_sedol"), true);
   assertEquals(tableNames.includes("identifiers_cik"), true);
+  assertEquals(tableNames.includes("identifiers_figi"), true);
+  assertEquals(tableNames.includes("issuers"), true);
+  assertEquals(tableNames.includes("identifier_conflicts"), true);
 
   db.close();
 });
@@ -81,6 +105,151 @@ Deno.test("lookupByTicker - finds inserted security", () => {
   db.close();
 });
 
+Deno.test("lookupByTicker - matches any share class spelling", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  insertSecurity(db, {
+    name: "Berkshire Hathaway Inc.",
+    ticker: "BRK-B",
+    exchange: "NYSE",
+    isin: "US0846707026",
+    source: "test",
+  });
+
+  // Stored in canonical form
+  const row = db.prepare("SELECT ticker FROM identifiers_ticker").get() as { ticker: string };
+  assertEquals(row.ticker, "BRK.B");
+
+  for (const ticker of ["BRK.B", "BRK-B", "BRK/B", "BRK B"]) {
+    assertEquals(lookupByTicker(db, ticker)?.isin, "US0846707026");
+    assertEquals(lookupByTicker(db, ticker, "NYSE")?.isin, "US0846707026");
+  }
+
+  db.close();
+});
+
+Deno.test("insertSecurity - replaces non-canonical ticker rows", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  // Row written before tickers were normalized
+  db.exec("INSERT INTO securities (id, name) VALUES (1, 'Berkshire Hathaway Inc.')");
+  db.exec(`
+    INSERT INTO identifiers_ticker (security_id, ticker, exchange, source, fetched_at)
+    VALUES (1, 'BRK-B', 'NYSE', 'fmp', 0)
+  `);
+
+  // Legacy rows are still found by alias
+  assertEquals(lookupByTicker(db, "BRK.B")?.id, 1);
+
+  const securityId = insertSecurity(db, {
+    name: "Berkshire Hathaway Inc.",
+    ticker: "BRK.B",
+    exchange: "NYSE",
+    source: "test",
+  });
+
+  assertEquals(securityId, 1);
+
+  const rows = db.prepare("SELECT ticker FROM identifiers_ticker").all() as { ticker: string }[];
+  assertEquals(rows.map((r) => r.ticker), ["BRK.B"]);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - ticker change keeps history (FB → META)", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const fbId = insertSecurity(db, {
+    name: "Facebook, Inc.",
+    ticker: "FB",
+    exchange: "NASDAQ",
+    isin: "US30303M1027",
+    source: "test",
+  });
+
+  const metaId = insertSecurity(db, {
+    name: "Meta Platforms, Inc.",
+    ticker: "META",
+    exchange: "NASDAQ",
+    isin: "US30303M1027",
+    valid_from: "2022-06-09",
+    source: "test",
+  });
+
+  assertEquals(metaId, fbId);
+
+  // FB is no longer a current ticker
+  assertEquals(lookupByTicker(db, "FB"), null);
+  assertEquals(lookupByTicker(db, "META")?.id, fbId);
+  assertEquals(lookupByIsin(db, "US30303M1027")?.ticker, "META");
+
+  // As-of lookups resolve the ticker held on that date
+  const asOf = lookupByTicker(db, "FB", undefined, "2021-06-01");
+  assertEquals(asOf?.id, fbId);
+  assertEquals(asOf?.ticker, "FB");
+  assertEquals(asOf?.valid_to, "2022-06-09");
+  assertEquals(lookupByTicker(db, "FB", undefined, "2022-06-09"), null);
+  assertEquals(lookupByTicker(db, "META", undefined, "2021-06-01"), null);
+  assertEquals(lookupByTicker(db, "META", undefined, "2022-06-09")?.id, fbId);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - reassigned ticker goes to the new security", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const oldId = insertSecurity(db, {
+    name: "Old Holder Corp.",
+    ticker: "XYZ",
+    exchange: "NYSE",
+    isin: "US0378331005",
+    source: "test",
+  });
+
+  const newId = insertSecurity(db, {
+    name: "New Holder Inc.",
+    ticker: "XYZ",
+    exchange: "NYSE",
+    isin: "US5949181045",
+    valid_from: "2023-01-02",
+    source: "test",
+  });
+
+  assertEquals(newId !== oldId, true);
+  assertEquals(lookupByTicker(db, "XYZ")?.id, newId);
+  assertEquals(lookupByTicker(db, "XYZ", "NYSE", "2022-12-30")?.id, oldId);
+  assertEquals(lookupByTicker(db, "XYZ", "NYSE", "2023-01-02")?.id, newId);
+  assertEquals(lookupByTicker(db, "XYZ")?.valid_from, "2023-01-02");
+
+  // The old holder keeps its identifiers but has no current ticker
+  assertEquals(lookupByIsin(db, "US0378331005")?.ticker, null);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - refreshing a ticker doesn't start a new interval", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const security: SecurityData = {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    source: "test",
+  };
+
+  insertSecurity(db, security);
+  insertSecurity(db, security);
+
+  const rows = db.prepare("SELECT valid_from, valid_to FROM identifiers_ticker").all();
+  assertEquals(rows, [{ valid_from: null, valid_to: null }]);
+
+  // First-seen tickers have an unknown start, so they match any earlier date
+  assertExists(lookupByTicker(db, "AAPL", undefined, "1990-01-01"));
+
+  db.close();
+});
+
 Deno.test("lookupByIsin - finds inserted security", () => {
   const db = initDatabase(TEST_DB_PATH);
 
@@ -130,6 +299,268 @@ Deno.test("lookupByCusip - finds inserted security", () => {
   db.close();
 });
 
+Deno.test("lookupBySedol - finds inserted security", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const security: SecurityData = {
+    name: "Vodafone Group Plc",
+    ticker: "VOD",
+    exchange: "LSE",
+    isin: "GB00BH4HKS39",
+    sedol: "BH4HKS3",
+    source: "test",
+  };
+
+  insertSecurity(db, security);
+
+  const result = lookupBySedol(db, "BH4HKS3");
+
+  assertExists(result);
+  assertEquals(result!.ticker, "VOD");
+  assertEquals(result!.isin, "GB00BH4HKS39");
+  assertEquals(result!.sedol, "BH4HKS3");
+
+  // SEDOL is also returned from other lookups
+  assertEquals(lookupByIsin(db, "GB00BH4HKS39")!.sedol, "BH4HKS3");
+
+  db.close();
+});
+
+Deno.test("lookupByWkn - finds inserted security", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const security: SecurityData = {
+    name: "SAP SE",
+    ticker: "SAP",
+    exchange: "XETRA",
+    isin: "DE0007164600",
+    wkn: "716460",
+    source: "test",
+  };
+
+  insertSecurity(db, security);
+
+  const result = lookupByWkn(db, "716460");
+
+  assertExists(result);
+  assertEquals(result!.ticker, "SAP");
+  assertEquals(result!.isin, "DE0007164600");
+  assertEquals(result!.wkn, "716460");
+
+  // WKN round-trips through the ISIN lookup
+  assertEquals(lookupByIsin(db, "DE0007164600")!.wkn, "716460");
+
+  db.close();
+});
+
+Deno.test("lookupByValor - finds inserted security", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const security: SecurityData = {
+    name: "Nestlé S.A.",
+    ticker: "NESN",
+    exchange: "SIX",
+    isin: "CH0038863350",
+    valor: "3886335",
+    source: "test",
+  };
+
+  insertSecurity(db, security);
+
+  const result = lookupByValor(db, "3886335");
+
+  assertExists(result);
+  assertEquals(result!.ticker, "NESN");
+  assertEquals(result!.isin, "CH0038863350");
+  assertEquals(result!.valor, "3886335");
+  assertEquals(result!.wkn, null);
+
+  // Valor round-trips through the ISIN lookup
+  assertEquals(lookupByIsin(db, "CH0038863350")!.valor, "3886335");
+
+  db.close();
+});
+
+Deno.test("insertSecurity - matches existing security by WKN", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const firstId = insertSecurity(db, {
+    name: "SAP SE",
+    ticker: "SAP",
+    exchange: "XETRA",
+    wkn: "716460",
+    source: "test",
+  });
+
+  const secondId = insertSecurity(db, {
+    name: "SAP SE",
+    ticker: "SAP",
+    exchange: "NYSE",
+    isin: "DE0007164600",
+    wkn: "716460",
+    source: "test",
+  });
+
+  assertEquals(secondId, firstId);
+
+  db.close();
+});
+
+Deno.test("lookupByFigi - finds security by any FIGI level", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const security: SecurityData = {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    figi: "BBG000B9Y5X2",
+    composite_figi: "BBG000B9XRY4",
+    share_class_figi: "BBG001S5N8V8",
+    source: "test",
+  };
+
+  insertSecurity(db, security);
+
+  for (const figi of ["BBG000B9Y5X2", "BBG000B9XRY4", "BBG001S5N8V8"]) {
+    const result = lookupByFigi(db, figi);
+
+    assertExists(result);
+    assertEquals(result!.ticker, "AAPL");
+    assertEquals(result!.isin, "US0378331005");
+    assertEquals(result!.figi, "BBG000B9Y5X2");
+    assertEquals(result!.composite_figi, "BBG000B9XRY4");
+    assertEquals(result!.share_class_figi, "BBG001S5N8V8");
+  }
+
+  // FIGIs are also returned from other lookups
+  assertEquals(lookupByTicker(db, "AAPL", "NASDAQ")!.composite_figi, "BBG000B9XRY4");
+
+  assertEquals(lookupByFigi(db, "BBG000BPH459"), null);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - matches existing security by FIGI", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const id1 = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    composite_figi: "BBG000B9XRY4",
+    source: "test",
+  });
+
+  // Same security on another exchange, linked by its composite FIGI
+  const id2 = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NYSE",
+    composite_figi: "BBG000B9XRY4",
+    source: "test",
+  });
+
+  assertEquals(id1, id2);
+
+  db.close();
+});
+
+Deno.test("lookupByLei - returns every security of the issuer", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  // Two share classes of the same issuer, linked by CIK
+  insertSecurity(db, {
+    name: "Alphabet Inc. Class A",
+    ticker: "GOOGL",
+    exchange: "NASDAQ",
+    isin: "US02079K3059",
+    cik: "0001652044",
+    lei: "5493006MHB84DD0ZWV18",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "Alphabet Inc. Class C",
+    ticker: "GOOG",
+    exchange: "NASDAQ",
+    isin: "US02079K1079",
+    cik: "0001652044",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    cik: "0000320193",
+    source: "test",
+  });
+
+  const results = lookupByLei(db, "5493006MHB84DD0ZWV18");
+
+  assertEquals(results.length, 2);
+  assertEquals(results.map((r) => r.ticker), ["GOOGL", "GOOG"]);
+  assertEquals(results.map((r) => r.lei), ["5493006MHB84DD0ZWV18", "5493006MHB84DD0ZWV18"]);
+
+  // LEI is also returned from other lookups
+  assertEquals(lookupByTicker(db, "GOOG", "NASDAQ")!.lei, "5493006MHB84DD0ZWV18");
+  assertEquals(lookupByTicker(db, "AAPL", "NASDAQ")!.lei, null);
+
+  assertEquals(lookupByLei(db, "HWUPKR0MPOU8FGXBT394"), []);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - fills in issuer LEI for known CIK", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    cik: "0000320193",
+    source: "fmp",
+  });
+  insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    cik: "0000320193",
+    lei: "HWUPKR0MPOU8FGXBT394",
+    source: "test",
+  });
+
+  const issuers = db.prepare("SELECT cik, lei FROM issuers").all();
+  assertEquals(issuers, [{ cik: "0000320193", lei: "HWUPKR0MPOU8FGXBT394" }]);
+
+  db.close();
+});
+
+Deno.test("initDatabase - adds issuer link to existing database", () => {
+  const dbPath = Deno.makeTempFileSync({ suffix: ".db" });
+
+  // Securities table as created before issuers existed
+  const rawDb = new SQLiteDatabase(dbPath);
+  rawDb.exec(`
+    CREATE TABLE securities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT,
+      security_type TEXT,
+      market_sector TEXT,
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `);
+  rawDb.close();
+
+  const db = initDatabase(dbPath);
+
+  const columns = db.prepare("PRAGMA table_info(securities)").all() as { name: string }[];
+  assertEquals(columns.some((c) => c.name === "issuer_id"), true);
+
+  db.close();
+  Deno.removeSync(dbPath);
+});
+
 Deno.test("lookupByTicker - returns null when not found", () => {
   const db = initDatabase(TEST_DB_PATH);
 
@@ -241,6 +672,504 @@ Deno.test("insertSecurity - allows same ticker on different exchanges", () => {
   db.close();
 });
 
+Deno.test("lookupByIsin - returns every listing, primary listing first", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  insertSecurity(db, {
+    name: "SAP SE",
+    ticker: "SAP",
+    exchange: "XETRA",
+    isin: "DE0007164600",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "SAP SE",
+    ticker: "SAPA",
+    exchange: "LSE",
+    isin: "DE0007164600",
+    source: "test",
+  });
+
+  const result = lookupByIsin(db, "DE0007164600");
+
+  assertExists(result);
+  assertEquals(result.ticker, "SAP");
+  assertEquals(result.exchange, "XETRA");
+  assertEquals(result.listings, [
+    { ticker: "SAP", exchange: "XETRA", primary: true },
+    { ticker: "SAPA", exchange: "LSE", primary: false },
+  ]);
+
+  // The queried listing is returned, with the same listings
+  const byTicker = lookupByTicker(db, "SAPA");
+  assertEquals(byTicker?.exchange, "LSE");
+  assertEquals(byTicker?.listings, result.listings);
+
+  db.close();
+});
+
+Deno.test("getListings - primary listing survives renames on other exchanges", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const id = insertSecurity(db, {
+    name: "Meta Platforms, Inc.",
+    ticker: "FB",
+    exchange: "NASDAQ",
+    isin: "US30303M1027",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "Meta Platforms, Inc.",
+    ticker: "FB2A",
+    exchange: "XETRA",
+    isin: "US30303M1027",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "Meta Platforms, Inc.",
+    ticker: "MET",
+    exchange: "XETRA",
+    isin: "US30303M1027",
+    valid_from: "2022-06-09",
+    source: "test",
+  });
+
+  assertEquals(getListings(db, id), [
+    { ticker: "FB", exchange: "NASDAQ", primary: true },
+    { ticker: "MET", exchange: "XETRA", primary: false },
+  ]);
+
+  db.close();
+});
+
+Deno.test("lookupStoredListing - the fetched listing, else the primary one, else the ticker's holder", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const apple = { name: "Apple Inc.", ticker: "AAPL", exchange: "NASDAQ", isin: "US0378331005", source: "fmp" };
+  const appleId = insertSecurity(db, apple);
+  insertSecurity(db, { ...apple, ticker: "APC", exchange: "XETRA" });
+
+  assertEquals(lookupStoredListing(db, appleId, { ticker: "APC", exchange: "XETRA" })?.exchange, "XETRA");
+  assertEquals(lookupStoredListing(db, appleId, { ticker: "AAPL", exchange: "LSE" })?.exchange, "NASDAQ");
+
+  // A security left without listings: the fetched ticker's holder is returned
+  const xyzId = insertSecurity(db, { name: "XYZ", ticker: "XYZ", exchange: "NYSE", source: "import" });
+  db.prepare("UPDATE identifiers_ticker SET valid_to = '2024-01-01' WHERE security_id = ?").run(appleId);
+  assertEquals(getListings(db, appleId), []);
+  assertEquals(lookupStoredListing(db, appleId, { ticker: "XYZ", exchange: "NYSE" })?.id, xyzId);
+  assertEquals(lookupStoredListing(db, appleId, { ticker: "AAPL", exchange: "NASDAQ" }), null);
+
+  db.close();
+});
+
+Deno.test("lookupByTicker - same ticker on several exchanges resolves to the first cached", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const firstId = insertSecurity(db, { name: "Example Corp", ticker: "EXM", exchange: "NYSE", source: "test" });
+  insertSecurity(db, { name: "Example Ltd", ticker: "EXM", exchange: "LSE", source: "test" });
+
+  assertEquals(lookupByTicker(db, "EXM")?.id, firstId);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - refuses an identifier that belongs to another security", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cusip: "037833100",
+    source: "fmp",
+  });
+  const microsoftId = insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    source: "fmp",
+  });
+
+  // Inconsistent provider data: Apple's CUSIP on Microsoft
+  assertThrows(
+    () =>
+      insertSecurity(db, {
+        name: "Microsoft Corporation",
+        ticker: "MSFT",
+        exchange: "NASDAQ",
+        isin: "US5949181045",
+        cusip: "037833100",
+        source: "fmp",
+      }),
+    IdentifierConflictError,
+    "cusip 037833100 already belongs to security",
+  );
+
+  // Nothing was written
+  assertEquals(lookupByCusip(db, "037833100")?.id, appleId);
+
+  const conflicts = getConflicts(db);
+  assertEquals(conflicts.length, 1);
+  assertEquals(conflicts[0].identifier_type, "cusip");
+  assertEquals(conflicts[0].identifier, "037833100");
+  assertEquals(conflicts[0].old_security_id, appleId);
+  assertEquals(conflicts[0].old_name, "Apple Inc.");
+  assertEquals(conflicts[0].old_ticker, "AAPL");
+  assertEquals(conflicts[0].new_security_id, microsoftId);
+  assertEquals(conflicts[0].new_ticker, "MSFT");
+  assertEquals(conflicts[0].source, "fmp");
+  assertEquals(conflicts[0].action, "refused");
+
+  db.close();
+});
+
+Deno.test("insertSecurity - overwrite policy moves the identifier and records the conflict", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    figi: "BBG000B9XRY4",
+    source: "fmp",
+  });
+  const microsoftId = insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    source: "fmp",
+  });
+
+  insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    figi: "BBG000B9XRY4",
+    source: "fmp",
+  }, { conflictPolicy: "overwrite" });
+
+  assertEquals(lookupByFigi(db, "BBG000B9XRY4")?.id, microsoftId);
+
+  const conflicts = getConflicts(db);
+  assertEquals(conflicts.length, 1);
+  assertEquals(conflicts[0].identifier_type, "figi");
+  assertEquals(conflicts[0].old_security_id, appleId);
+  assertEquals(conflicts[0].new_security_id, microsoftId);
+  assertEquals(conflicts[0].source, "fmp");
+  assertEquals(conflicts[0].action, "overwritten");
+
+  db.close();
+});
+
+Deno.test("insertSecurity - a more trusted source corrects another security's identifier under refuse", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const apple: SecurityData = {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    source: "fmp",
+  };
+  const appleId = insertSecurity(db, apple);
+
+  // FMP assigned Apple's CUSIP to the wrong security
+  const xyzId = insertSecurity(db, {
+    name: "XYZ Corp",
+    ticker: "XYZ",
+    exchange: "NYSE",
+    cusip: "037833100",
+    source: "fmp",
+  });
+
+  // An import (trusted over FMP) corrects it without the overwrite policy
+  assertEquals(insertSecurity(db, { ...apple, cusip: "037833100", source: "import" }), appleId);
+
+  assertEquals(lookupByCusip(db, "037833100")?.id, appleId);
+  assertEquals(getFieldSources(db, appleId).cusip, "import");
+  assertEquals(getConflicts(db).map((c) => [c.identifier, c.old_security_id, c.new_security_id, c.action]), [
+    ["037833100", xyzId, appleId, "overwritten"],
+  ]);
+
+  // FMP can't take it back: that conflict is refused
+  assertThrows(
+    () => insertSecurity(db, { name: "XYZ Corp", ticker: "XYZ", exchange: "NYSE", cusip: "037833100", source: "fmp" }),
+    IdentifierConflictError,
+  );
+  assertEquals(lookupByCusip(db, "037833100")?.id, appleId);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - refreshing a security's own identifiers is not a conflict", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const security: SecurityData = {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cusip: "037833100",
+    composite_figi: "BBG000B9XRY4",
+    source: "fmp",
+  };
+
+  insertSecurity(db, security);
+  insertSecurity(db, security);
+
+  assertEquals(getConflicts(db), []);
+
+  db.close();
+});
+
+Deno.test("insertSecurity - a less trusted source doesn't overwrite a more trusted one", () => {
+  const db = initDatabase(TEST_DB_PATH);
+  const precedence = ["manual", "sec", "fmp"];
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    market_sector: "Equity",
+    source: "manual",
+  }, { precedence });
+
+  // Another ISIN, name and a new CUSIP from FMP: only the CUSIP is new information
+  insertSecurity(db, {
+    name: "APPLE INC",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331013",
+    cusip: "037833100",
+    market_sector: "Technology",
+    security_type: "Common Stock",
+    source: "fmp",
+  }, { precedence });
+
+  const apple = lookupByTicker(db, "AAPL");
+  assertEquals([apple?.name, apple?.isin, apple?.cusip], ["Apple Inc.", "US0378331005", "037833100"]);
+  assertEquals([apple?.market_sector, apple?.security_type], ["Equity", "Common Stock"]);
+  assertEquals(lookupByIsin(db, "US0378331013"), null);
+  assertEquals(getFieldSources(db, appleId), {
+    name: "manual",
+    security_type: "fmp",
+    market_sector: "manual",
+    ticker: "manual",
+    exchange: "manual",
+    isin: "manual",
+    cusip: "fmp",
+  });
+
+  // A more trusted source takes over
+  insertSecurity(db, {
+    name: "APPLE INC",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    cusip: "037833100",
+    source: "sec",
+  }, { precedence });
+
+  assertEquals(lookupByTicker(db, "AAPL")?.name, "Apple Inc.");
+  assertEquals(getFieldSources(db, appleId).cusip, "sec");
+
+  // Even with the overwrite policy, an identifier held by a more trusted source stays put
+  const microsoft: SecurityData = {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    source: "fmp",
+  };
+  const microsoftId = insertSecurity(db, microsoft, { precedence });
+  insertSecurity(db, { ...microsoft, cusip: "037833100" }, { conflictPolicy: "overwrite", precedence });
+
+  assertEquals(lookupByCusip(db, "037833100")?.id, appleId);
+  assertEquals(getConflicts(db).map((c) => [c.identifier, c.new_security_id, c.action]), [
+    ["037833100", microsoftId, "refused"],
+  ]);
+
+  db.close();
+});
+
+Deno.test("pinSecurity - corrects a listing in place and survives refreshes", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const fmpProfile: SecurityData = {
+    name: "XYZ Holdings",
+    ticker: "XYZ",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cusip: "037833100",
+    source: "fmp",
+  };
+  const xyzId = insertSecurity(db, fmpProfile);
+  assertEquals(isPinned(db, xyzId), false);
+
+  // The pinned ISIN replaces FMP's; the CUSIP nobody pinned stays
+  assertEquals(pinSecurity(db, { ticker: "XYZ", exchange: "NASDAQ", isin: "US5949181045" }), xyzId);
+
+  let xyz = lookupByTicker(db, "XYZ");
+  assertEquals([xyz?.id, xyz?.isin, xyz?.cusip, xyz?.name], [xyzId, "US5949181045", "037833100", "XYZ Holdings"]);
+  assertEquals(lookupByIsin(db, "US0378331005"), null);
+  assertEquals(isPinned(db, xyzId), true);
+  assertEquals([getFieldSources(db, xyzId).isin, getFieldSources(db, xyzId).ticker], ["manual", "manual"]);
+
+  // Pins never expire
+  db.prepare("UPDATE identifiers_isin SET fetched_at = 1000").run();
+  assertEquals(getIdentifierFetchedAt(db, xyzId).isin, undefined);
+
+  // A refresh from FMP (even with the overwrite policy) keeps the pin
+  insertSecurity(db, fmpProfile, { conflictPolicy: "overwrite" });
+
+  xyz = lookupByTicker(db, "XYZ");
+  assertEquals([xyz?.id, xyz?.isin], [xyzId, "US5949181045"]);
+  assertEquals(lookupByIsin(db, "US0378331005"), null);
+
+  // Pinning again corrects the pin
+  pinSecurity(db, { ticker: "XYZ", exchange: "NASDAQ", isin: "US0378331005", name: "XYZ Corp" });
+
+  xyz = lookupByTicker(db, "XYZ");
+  assertEquals([xyz?.id, xyz?.isin, xyz?.name], [xyzId, "US0378331005", "XYZ Corp"]);
+
+  db.close();
+});
+
+Deno.test("pinSecurity - without an exchange pins the ticker's cached listing", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  // FMP has the wrong ISIN for XYZ on NASDAQ
+  const xyzId = insertSecurity(db, {
+    name: "XYZ Holdings",
+    ticker: "XYZ",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    source: "fmp",
+  });
+
+  // tickisinator pin ticker:XYZ isin:US0378331005
+  assertEquals(pinSecurity(db, { ticker: "XYZ", isin: "US0378331005" }), xyzId);
+
+  const xyz = lookupByTicker(db, "XYZ");
+  assertEquals([xyz?.id, xyz?.exchange, xyz?.isin, xyz?.name], [xyzId, "NASDAQ", "US0378331005", "XYZ Holdings"]);
+  assertEquals(isPinned(db, xyzId), true);
+  assertEquals(db.prepare("SELECT COUNT(*) AS count FROM securities").get(), { count: 1 });
+
+  // Uncached tickers, and tickers listed on several exchanges, need the exchange
+  assertThrows(() => pinSecurity(db, { ticker: "ABC", isin: "US0378331005" }), PinListingError, "not cached");
+  insertSecurity(db, { name: "XYZ Holdings", ticker: "XYZ", exchange: "XETRA", source: "fmp" });
+  assertThrows(
+    () => pinSecurity(db, { ticker: "XYZ", name: "XYZ Corp" }),
+    PinListingError,
+    "listed on NASDAQ, XETRA",
+  );
+
+  db.close();
+});
+
+Deno.test("pinSecurity - takes identifiers from other securities", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const microsoftId = insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    cusip: "594918104",
+    source: "fmp",
+  });
+
+  // An uncached listing with a cached ISIN joins that security
+  assertEquals(pinSecurity(db, { ticker: "MSFT", exchange: "XETRA", isin: "US5949181045" }), microsoftId);
+
+  // A cached listing takes the pinned CUSIP from the security holding it
+  const xyzId = insertSecurity(db, { name: "XYZ Corp", ticker: "XYZ", exchange: "NYSE", source: "fmp" });
+  assertEquals(pinSecurity(db, { ticker: "XYZ", exchange: "NYSE", cusip: "594918104" }), xyzId);
+
+  assertEquals(lookupByCusip(db, "594918104")?.id, xyzId);
+  assertEquals(lookupByTicker(db, "MSFT")?.cusip, null);
+  assertEquals(getConflicts(db).map((c) => [c.identifier, c.old_security_id, c.new_security_id, c.action]), [
+    ["594918104", microsoftId, xyzId, "overwritten"],
+  ]);
+
+  db.close();
+});
+
+Deno.test("getIdentifierFetchedAt - oldest fetch per identifier type", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const id = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    figi: "BBG000B9XRY4",
+    composite_figi: "BBG000B9XRY4",
+    source: "fmp",
+  });
+
+  db.prepare("UPDATE identifiers_isin SET fetched_at = 1000").run();
+  db.prepare("UPDATE identifiers_figi SET fetched_at = 2000 WHERE figi_type = 'composite'").run();
+
+  const fetchedAt = getIdentifierFetchedAt(db, id);
+
+  assertEquals(fetchedAt.isin, 1000);
+  assertEquals(fetchedAt.figi, 2000);
+  assertExists(fetchedAt.ticker);
+
+  // Identifier types the security doesn't have are left out
+  assertEquals(Object.keys(fetchedAt).sort(), ["figi", "isin", "ticker"]);
+
+  db.close();
+});
+
+Deno.test("getIdentifierFetchedAt - an FMP refresh clears expiry despite a FIGI and other listings", () => {
+  const db = initDatabase(TEST_DB_PATH);
+  const ttls = uniformTtls(parseDuration("30d"));
+
+  // Imported FIGI and a second listing, neither of which FMP ever returns
+  const id = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "XETRA",
+    isin: "US0378331005",
+    figi: "BBG000B9XRY4",
+    source: "import",
+  });
+  const fmpProfile: SecurityData = {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cusip: "037833100",
+    cik: "0000320193",
+    source: "fmp",
+  };
+  insertSecurity(db, fmpProfile);
+
+  for (const type of ["ticker", "isin", "cusip", "cik", "figi"]) {
+    db.prepare(`UPDATE identifiers_${type} SET fetched_at = 1000`).run();
+  }
+  assertEquals(
+    findStaleIdentifiers(getIdentifierFetchedAt(db, id), ttls, undefined, FMP_PROFILE_IDENTIFIER_TYPES),
+    ["ticker", "isin", "cusip", "cik"],
+  );
+
+  insertSecurity(db, fmpProfile);
+
+  assertEquals(
+    findStaleIdentifiers(getIdentifierFetchedAt(db, id), ttls, undefined, FMP_PROFILE_IDENTIFIER_TYPES),
+    [],
+  );
+
+  db.close();
+});
+
 Deno.test("lookupByTicker - with CIK data", () => {
   const db = initDatabase(TEST_DB_PATH);
 
@@ -390,6 +1319,162 @@ Deno.test("insertPricing - updates existing pricing", () => {
   db.close();
 });
 
+Deno.test("searchByName - ranks word-prefix matches", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  insertSecurity(db, {
+    name: "Vanguard Total Bond Market Index Fund ETF",
+    ticker: "BND",
+    exchange: "NASDAQ",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "Vanguard Total Stock Market Index Fund ETF",
+    ticker: "VTI",
+    exchange: "AMEX",
+    source: "test",
+  });
+  insertSecurity(db, { name: "Apple Inc.", ticker: "AAPL", exchange: "NASDAQ", source: "test" });
+
+  assertEquals(searchByName(db, "vanguard total stock").map((s) => s.ticker), ["VTI"]);
+  assertEquals(searchByName(db, "Vanguard Tot").map((s) => s.ticker).sort(), ["BND", "VTI"]);
+  assertEquals(searchByName(db, "Vanguard", 1).length, 1);
+  assertEquals(searchByName(db, "Microsoft"), []);
+
+  db.close();
+});
+
+Deno.test("searchByName - ignores diacritics and query syntax", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  insertSecurity(db, { name: "Nestlé S.A.", ticker: "NESN", exchange: "SIX", source: "test" });
+
+  assertEquals(searchByName(db, "nestle")[0]?.ticker, "NESN");
+  assertEquals(searchByName(db, 'NEAR("nestle" OR'), []);
+  assertEquals(searchByName(db, "  "), []);
+
+  db.close();
+});
+
+Deno.test("searchByName - follows renames and deletions", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const id = insertSecurity(db, {
+    name: "Facebook, Inc.",
+    ticker: "META",
+    exchange: "NASDAQ",
+    isin: "US30303M1027",
+    source: "test",
+  });
+  insertSecurity(db, {
+    name: "Meta Platforms, Inc.",
+    ticker: "META",
+    exchange: "NASDAQ",
+    isin: "US30303M1027",
+    source: "test",
+  });
+
+  assertEquals(searchByName(db, "Facebook"), []);
+  assertEquals(searchByName(db, "Meta Platforms")[0]?.id, id);
+
+  db.prepare("DELETE FROM securities WHERE id = ?").run(id);
+  assertEquals(searchByName(db, "Meta"), []);
+
+  db.close();
+});
+
+Deno.test("insertPricing - appends every observation to the history", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const securityId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    source: "fmp",
+  });
+
+  insertPricing(db, securityId, { price: 250, price_fetched_at: 1000 });
+  insertPricing(db, securityId, { price: 260, price_fetched_at: 2000 });
+  // The same observation again (e.g., a retried refresh) is stored once
+  insertPricing(db, securityId, { price: 260, price_fetched_at: 2000 });
+
+  const history = getPricingHistory(db, securityId);
+
+  assertEquals(history.map((p) => [p.price, p.price_fetched_at]), [[250, 1000], [260, 2000]]);
+  assertEquals(getPricing(db, securityId)!.price, 260);
+
+  db.close();
+});
+
+Deno.test("insertPricing - an older quote only goes into the history", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const securityId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    source: "fmp",
+  });
+
+  insertPricing(db, securityId, { price: 260, price_fetched_at: 2000 });
+  insertPricing(db, securityId, { price: 250, price_fetched_at: 1000 });
+
+  assertEquals(getPricing(db, securityId)!.price, 260);
+  assertEquals(getPricingHistory(db, securityId).map((p) => p.price), [250, 260]);
+
+  db.close();
+});
+
+Deno.test("insertPricing - prunes history to the retention", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const securityId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    source: "fmp",
+  });
+
+  for (const fetchedAt of [1000, 2000, 3000]) {
+    insertPricing(db, securityId, { price: fetchedAt / 10, price_fetched_at: fetchedAt }, {
+      retention: { maxRows: 2 },
+    });
+  }
+
+  assertEquals(getPricingHistory(db, securityId).map((p) => p.price_fetched_at), [2000, 3000]);
+
+  db.close();
+});
+
+Deno.test("prunePricingHistory - drops observations older than maxAge", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const securityId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    source: "fmp",
+  });
+
+  insertPricing(db, securityId, { price: 250, price_fetched_at: 1000 });
+  insertPricing(db, securityId, { price: 260, price_fetched_at: 5000 });
+
+  const deleted = prunePricingHistory(db, securityId, { maxAge: 1000 }, 5500);
+
+  assertEquals(deleted, 1);
+  assertEquals(getPricingHistory(db, securityId).map((p) => p.price_fetched_at), [5000]);
+
+  db.close();
+});
+
+Deno.test("getPricingHistory - empty when never priced", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  assertEquals(getPricingHistory(db, 999), []);
+
+  db.close();
+});
+
 Deno.test("getPricing - returns null when not found", () => {
   const db = initDatabase(TEST_DB_PATH);
 
@@ -0,0 +1,203 @@
+import { assertEquals } from "@std/assert";
+import {
+  getConflicts,
+  getPricing,
+  getPricingHistory,
+  initDatabase,
+  insertPricing,
+  insertSecurity,
+  lookupByIsin,
+  lookupByTicker,
+  pinSecurity,
+  searchByName,
+} from "../src/db.ts";
+import { invalidateCache, purgeSource, removeSecurities } from "../src/eviction.ts";
+
+const TEST_DB_PATH = ":memory:";
+
+function seedCache() {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cik: "0000320193",
+    source: "fmp",
+  });
+  const microsoftId = insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    source: "fmp",
+  });
+  insertSecurity(db, { name: "MICROSOFT CORP", ticker: "MSFT", exchange: "NASDAQ", cik: "0000789019", source: "sec" });
+
+  insertPricing(db, appleId, { price: 262.82, price_fetched_at: 1730000000 });
+
+  return { db, appleId, microsoftId };
+}
+
+Deno.test("removeSecurities - dry run reports without deleting", () => {
+  const { db, appleId } = seedCache();
+
+  const records = removeSecurities(db, [appleId, appleId], { dryRun: true });
+
+  assertEquals(records, [{
+    security_id: appleId,
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    action: "remove",
+    identifiers: 3,
+    status: "pending",
+  }]);
+  assertEquals(lookupByTicker(db, "AAPL")?.id, appleId);
+
+  db.close();
+});
+
+Deno.test("removeSecurities - cascades to identifiers, pricing, name index and issuer", () => {
+  const { db, appleId, microsoftId } = seedCache();
+
+  // A conflict involving Apple stays recorded without it
+  insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    source: "fmp",
+  }, { conflictPolicy: "overwrite" });
+
+  const records = removeSecurities(db, [appleId]);
+
+  assertEquals(records.map((r) => [r.security_id, r.status]), [[appleId, "applied"]]);
+  assertEquals(lookupByTicker(db, "AAPL"), null);
+  assertEquals(getPricingHistory(db, appleId), []);
+  assertEquals(searchByName(db, "apple"), []);
+  assertEquals(
+    db.prepare("SELECT COUNT(*) AS count FROM issuers WHERE cik = '0000320193'").get(),
+    { count: 0 },
+  );
+  assertEquals(getConflicts(db).map((c) => [c.old_security_id, c.new_security_id]), [[null, microsoftId]]);
+
+  // Other securities are untouched
+  assertEquals(lookupByTicker(db, "MSFT")?.id, microsoftId);
+
+  db.close();
+});
+
+Deno.test("invalidateCache - removes securities nothing was fetched for since the cutoff", () => {
+  const { db, appleId, microsoftId } = seedCache();
+
+  db.prepare("UPDATE identifiers_ticker SET fetched_at = 1000 WHERE security_id = ?").run(appleId);
+  db.prepare("UPDATE identifiers_isin SET fetched_at = 1000 WHERE security_id = ?").run(appleId);
+  db.prepare("UPDATE identifiers_cik SET fetched_at = 1000 WHERE security_id = ?").run(appleId);
+
+  // Microsoft has an old ISIN but a recent CIK
+  db.prepare("UPDATE identifiers_isin SET fetched_at = 1000 WHERE security_id = ?").run(microsoftId);
+
+  const records = invalidateCache(db, 2000);
+
+  assertEquals(records.map((r) => r.ticker), ["AAPL"]);
+  assertEquals(lookupByTicker(db, "AAPL"), null);
+  assertEquals(lookupByTicker(db, "MSFT")?.id, microsoftId);
+
+  db.close();
+});
+
+Deno.test("invalidateCache - keeps pinned securities", () => {
+  const { db, appleId } = seedCache();
+
+  pinSecurity(db, { ticker: "AAPL", exchange: "NASDAQ", isin: "US0378331005" });
+  db.prepare("UPDATE identifiers_ticker SET fetched_at = 1000").run();
+  db.prepare("UPDATE identifiers_isin SET fetched_at = 1000").run();
+  db.prepare("UPDATE identifiers_cik SET fetched_at = 1000").run();
+
+  const records = invalidateCache(db, 2000);
+
+  assertEquals(records.map((r) => r.ticker), ["MSFT"]);
+  assertEquals(lookupByTicker(db, "AAPL")?.id, appleId);
+
+  db.close();
+});
+
+Deno.test("purgeSource - removes single-source securities and trims the others", () => {
+  const { db, appleId, microsoftId } = seedCache();
+
+  const dryRun = purgeSource(db, "fmp", { dryRun: true });
+  assertEquals(dryRun.map((r) => [r.security_id, r.action, r.identifiers, r.status]), [
+    [appleId, "remove", 3, "pending"],
+    [microsoftId, "trim", 1, "pending"],
+  ]);
+  assertEquals(lookupByTicker(db, "AAPL")?.id, appleId);
+
+  purgeSource(db, "sec");
+
+  // Microsoft's name came from SEC: cleared with its CIK and listing
+  const microsoft = db.prepare("SELECT name, name_source FROM securities WHERE id = ?").get(microsoftId);
+  assertEquals(microsoft, { name: null, name_source: null });
+  assertEquals(lookupByTicker(db, "MSFT"), null);
+  assertEquals(lookupByIsin(db, "US5949181045")?.id, microsoftId);
+  assertEquals(searchByName(db, "microsoft"), []);
+  assertEquals(lookupByTicker(db, "AAPL")?.id, appleId);
+
+  db.close();
+});
+
+Deno.test("purgeSource - keeps securities with a name or pin from another source", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  // Every identifier from FMP, but the name from an import
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    source: "fmp",
+    field_sources: { name: "import" },
+  });
+
+  // Every identifier from FMP but the pinned name
+  const microsoftId = insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    source: "fmp",
+  });
+  db.prepare("UPDATE securities SET name = 'Microsoft Corp.', name_source = 'manual' WHERE id = ?").run(microsoftId);
+
+  const records = purgeSource(db, "fmp");
+
+  assertEquals(records.map((r) => [r.security_id, r.action, r.identifiers]), [
+    [appleId, "trim", 2],
+    [microsoftId, "trim", 2],
+  ]);
+  assertEquals(
+    db.prepare("SELECT id, name, name_source FROM securities ORDER BY id").all(),
+    [
+      { id: appleId, name: "Apple Inc.", name_source: "import" },
+      { id: microsoftId, name: "Microsoft Corp.", name_source: "manual" },
+    ],
+  );
+  assertEquals(lookupByIsin(db, "US0378331005"), null);
+
+  db.close();
+});
+
+Deno.test("purgeSource - quotes go with FMP", () => {
+  for (const [source, kept] of [["sec", true], ["fmp", false]] as const) {
+    const { db, microsoftId } = seedCache();
+    insertPricing(db, microsoftId, { price: 513.24, price_fetched_at: 1730000000 });
+
+    // Microsoft (FMP's ISIN, SEC's listing, name and CIK) is trimmed either way
+    assertEquals(purgeSource(db, source).find((r) => r.security_id === microsoftId)?.action, "trim");
+    assertEquals(getPricing(db, microsoftId)?.price, kept ? 513.24 : undefined);
+    assertEquals(getPricingHistory(db, microsoftId).length, kept ? 1 : 0);
+
+    db.close();
+  }
+});
@@ -0,0 +1,132 @@
+/**
+ * Tests for identifier decomposition (explain command)
+ *
+ * Testing strategy:
+ * - Decompose valid identifiers of each type into their parts
+ * - Report provided vs computed check digits for invalid ones
+ * - Never throw for invalid identifiers
+ */
+
+import { assertEquals } from "@std/assert";
+import { explainDesignator } from "../src/explain.ts";
+
+Deno.test("explainDesignator - valid US ISIN embeds CUSIP", () => {
+  const result = explainDesignator({ type: "isin", value: "US0378331005" });
+  assertEquals(result.valid, true);
+  assertEquals(result.country_code, "US");
+  assertEquals(result.country_name, "United States");
+  assertEquals(result.nsin, "037833100");
+  assertEquals(result.cusip, "037833100");
+  assertEquals(result.cusip_valid, true);
+  assertEquals(result.check_digit, { provided: "5", computed: "5" });
+});
+
+Deno.test("explainDesignator - Canadian ISIN embeds CUSIP", () => {
+  const result = explainDesignator({ type: "isin", value: "CA13321L1085" });
+  assertEquals(result.valid, true);
+  assertEquals(result.country_name, "Canada");
+  assertEquals(result.cusip, "13321L108");
+});
+
+Deno.test("explainDesignator - UK ISIN embeds SEDOL", () => {
+  const result = explainDesignator({ type: "isin", value: "GB0002374006" });
+  assertEquals(result.valid, true);
+  assertEquals(result.country_name, "United Kingdom");
+  assertEquals(result.sedol, "0237400");
+  assertEquals(result.sedol_valid, true);
+  assertEquals(result.cusip, undefined);
+});
+
+Deno.test("explainDesignator - German ISIN embeds WKN", () => {
+  const result = explainDesignator({ type: "isin", value: "DE000A1EWWW0" });
+  assertEquals(result.valid, true);
+  assertEquals(result.wkn, "A1EWWW");
+  assertEquals(result.wkn_valid, true);
+});
+
+Deno.test("explainDesignator - Swiss ISIN embeds Valor", () => {
+  const result = explainDesignator({ type: "isin", value: "CH0038863350" });
+  assertEquals(result.valid, true);
+  assertEquals(result.country_name, "Switzerland");
+  assertEquals(result.valor, "3886335");
+});
+
+Deno.test("explainDesignator - ISIN with wrong check digit", () => {
+  const result = explainDesignator({ type: "isin", value: "US0378331006" });
+  assertEquals(result.valid, false);
+  assertEquals(result.error, 'Invalid ISIN "US0378331006": check digit should be 5');
+  assertEquals(result.check_digit, { provided: "6", computed: "5" });
+  // Embedded CUSIP is still decomposed
+  assertEquals(result.cusip, "037833100");
+});
+
+Deno.test("explainDesignator - international ISIN", () => {
+  const result = explainDesignator({ type: "isin", value: "XS2021832634" });
+  assertEquals(result.country_code, "XS");
+  assertEquals(result.country_name, "International (Euroclear/Clearstream)");
+});
+
+Deno.test("explainDesignator - ISIN with unknown country code", () => {
+  const result = explainDesignator({ type: "isin", value: "QQ0378331005" });
+  assertEquals(result.country_code, "QQ");
+  assertEquals(result.country_name, undefined);
+});
+
+Deno.test("explainDesignator - CUSIP parts and computed ISIN", () => {
+  const result = explainDesignator({ type: "cusip", value: "037833100" });
+  assertEquals(result.valid, true);
+  assertEquals(result.issuer_code, "037833");
+  assertEquals(result.issue_code, "10");
+  assertEquals(result.cins, false);
+  assertEquals(result.private_placement, false);
+  assertEquals(result.country_code, "US");
+  assertEquals(result.isin, "US0378331005");
+});
+
+Deno.test("explainDesignator - CUSIP with wrong check digit has no ISIN", () => {
+  const result = explainDesignator({ type: "cusip", value: "037833101" });
+  assertEquals(result.valid, false);
+  assertEquals(result.error, 'Invalid CUSIP "037833101": check digit should be 0');
+  assertEquals(result.check_digit, { provided: "1", computed: "0" });
+  assertEquals(result.isin, undefined);
+});
+
+Deno.test("explainDesignator - CINS number with explicit country", () => {
+  const result = explainDesignator({ type: "cusip", value: "G0450A105", country: "BM" });
+  assertEquals(result.cins, true);
+  assertEquals(result.country_name, "Bermuda");
+  assertEquals(result.isin, "BMG0450A1053");
+});
+
+Deno.test("explainDesignator - SEDOL with Irish country qualifier", () => {
+  const result = explainDesignator({ type: "sedol", value: "0182704", country: "IE" });
+  assertEquals(result.valid, true);
+  assertEquals(result.country_name, "Ireland");
+  assertEquals(result.isin, "IE0001827041");
+});
+
+Deno.test("explainDesignator - WKN and Valor compute ISINs", () => {
+  assertEquals(explainDesignator({ type: "wkn", value: "716460" }).isin, "DE0007164600");
+  assertEquals(explainDesignator({ type: "valor", value: "3886335" }).isin, "CH0038863350");
+});
+
+Deno.test("explainDesignator - FIGI with wrong check digit", () => {
+  const result = explainDesignator({ type: "figi", value: "BBG000B9XRY5" });
+  assertEquals(result.valid, false);
+  assertEquals(result.prefix, "BB");
+  assertEquals(result.check_digit, { provided: "5", computed: "4" });
+});
+
+Deno.test("explainDesignator - LEI parts", () => {
+  const result = explainDesignator({ type: "lei", value: "HWUPKR0MPOU8FGXBT394" });
+  assertEquals(result.valid, true);
+  assertEquals(result.lou_prefix, "HWUP");
+  assertEquals(result.entity_code, "KR0MPOU8FGXBT3");
+  assertEquals(result.check_digit, { provided: "94", computed: "94" });
+});
+
+Deno.test("explainDesignator - malformed identifier doesn't throw", () => {
+  const result = explainDesignator({ type: "isin", value: "US03783!" });
+  assertEquals(result.valid, false);
+  assertEquals(result.check_digit, { provided: "" });
+});
@@ -0,0 +1,177 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { CliError } from "../src/cli.ts";
+import {
+  getFieldSources,
+  getIdentifierFetchedAt,
+  getPricingHistory,
+  initDatabase,
+  insertPricing,
+  insertSecurity,
+  isPinned,
+  lookupByTicker,
+  pinSecurity,
+  searchByName,
+  type SecurityData,
+} from "../src/db.ts";
+import { exportCache, parseFetchedSince } from "../src/exporter.ts";
+import { importSecurities, parseImportRows } from "../src/importer.ts";
+
+const TEST_DB_PATH = ":memory:";
+
+const APPLE: SecurityData = {
+  name: "Apple Inc.",
+  ticker: "AAPL",
+  exchange: "NASDAQ",
+  isin: "US0378331005",
+  cusip: "037833100",
+  cik: "0000320193",
+  figi: "BBG000B9XRY4",
+  source: "fmp",
+};
+
+const NESTLE: SecurityData = {
+  name: "Nestlé S.A., \"Registered\"",
+  ticker: "NESN",
+  exchange: "SIX",
+  isin: "CH0038863350",
+  valor: "3886335",
+  source: "import",
+};
+
+/**
+ * Cache with two securities, Apple listed twice and priced
+ */
+function seedCache() {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, APPLE);
+  insertSecurity(db, { ...APPLE, exchange: "XETRA", ticker: "APC" });
+  insertSecurity(db, NESTLE);
+  insertPricing(db, appleId, { price: 262.82, is_actively_trading: true, price_fetched_at: 1730000000 });
+
+  return db;
+}
+
+Deno.test("exportCache - csv and jsonl import back without loss", () => {
+  const db = seedCache();
+
+  for (const format of ["csv", "jsonl"] as const) {
+    const exported = exportCache(db, format, {}, { pricing: true });
+    const copy = initDatabase(TEST_DB_PATH);
+
+    const results = importSecurities(copy, parseImportRows(exported.join("\n"), format));
+
+    assertEquals(results.map((r) => r.status), ["accepted", "accepted", "accepted"]);
+
+    // Same records, sources and fetch times included
+    assertEquals(exportCache(copy, "jsonl", {}, { pricing: true }), exportCache(db, "jsonl", {}, { pricing: true }));
+    assertEquals(lookupByTicker(copy, "APC")?.isin, "US0378331005");
+
+    copy.close();
+  }
+
+  db.close();
+});
+
+Deno.test("exportCache - field sources and fetch times survive a round trip", () => {
+  const db = initDatabase(TEST_DB_PATH);
+  const fetchedAt = 1700000000;
+
+  // FMP data, less trusted than SEC here, with a WKN only SEC supplied
+  const appleId = insertSecurity(db, APPLE, { fetchedAt });
+  insertSecurity(db, { name: "APPLE INC", ticker: "AAPL", exchange: "NASDAQ", wkn: "865985", source: "sec" }, {
+    fetchedAt,
+    precedence: ["fmp", "sec"],
+  });
+  const before = getFieldSources(db, appleId);
+  assertEquals(before.name, "fmp");
+  assertEquals(before.wkn, "sec");
+
+  for (const format of ["csv", "jsonl"] as const) {
+    const copy = initDatabase(TEST_DB_PATH);
+
+    importSecurities(copy, parseImportRows(exportCache(db, format).join("\n"), format));
+
+    const copyId = lookupByTicker(copy, "AAPL")!.id;
+    assertEquals(getFieldSources(copy, copyId), before);
+    assertEquals(getIdentifierFetchedAt(copy, copyId), getIdentifierFetchedAt(db, appleId));
+    assertEquals(lookupByTicker(copy, "AAPL")?.fetched_at, fetchedAt);
+
+    copy.close();
+  }
+
+  db.close();
+});
+
+Deno.test("exportCache - pinned and nameless securities survive a round trip", () => {
+  const db = seedCache();
+
+  pinSecurity(db, { ticker: "NESN", exchange: "SIX", name: "Nestlé S.A.", isin: "CH0038863350" });
+  insertSecurity(db, { name: "", ticker: "XYZ", exchange: "NYSE", cusip: "594918104", source: "sec" });
+
+  // Pins are stamped with the time they're applied
+  const withoutFetchTimes = (lines: string[]) =>
+    lines.map((line) => ({ ...JSON.parse(line), fetched_at: undefined, price_fetched_at: undefined }));
+
+  for (const format of ["csv", "jsonl"] as const) {
+    const copy = initDatabase(TEST_DB_PATH);
+
+    const results = importSecurities(copy, parseImportRows(exportCache(db, format).join("\n"), format));
+
+    assertEquals(results.map((r) => r.status), ["accepted", "accepted", "accepted", "accepted"]);
+    assertEquals(withoutFetchTimes(exportCache(copy, "jsonl")), withoutFetchTimes(exportCache(db, "jsonl")));
+    assertEquals(isPinned(copy, lookupByTicker(copy, "NESN")!.id), true);
+    assertEquals(lookupByTicker(copy, "XYZ")?.cusip, "594918104");
+
+    copy.close();
+  }
+
+  db.close();
+});
+
+Deno.test("exportCache - csv has a header and quotes cells", () => {
+  const db = seedCache();
+
+  const [header, ...rows] = exportCache(db, "csv", { exchange: "SIX" });
+
+  assertEquals(header.startsWith("ticker,exchange,name,isin,"), true);
+  assertEquals(header.includes("price"), false);
+  assertEquals(rows.length, 1);
+  assertEquals(rows[0].startsWith('NESN,SIX,"Nestlé S.A., ""Registered""",CH0038863350,'), true);
+
+  db.close();
+});
+
+Deno.test("exportCache - source, exchange and fetched-since filters", () => {
+  const db = seedCache();
+  const tickers = (lines: string[]) => lines.map((line) => JSON.parse(line).ticker);
+
+  assertEquals(tickers(exportCache(db, "jsonl")), ["AAPL", "APC", "NESN"]);
+  assertEquals(tickers(exportCache(db, "jsonl", { source: "import" })), ["NESN"]);
+  assertEquals(tickers(exportCache(db, "jsonl", { exchange: "XETRA" })), ["APC"]);
+  assertEquals(tickers(exportCache(db, "jsonl", { fetchedSince: 0 })), ["AAPL", "APC", "NESN"]);
+  assertEquals(tickers(exportCache(db, "jsonl", { fetchedSince: Math.floor(Date.now() / 1000) + 60 })), []);
+
+  db.close();
+});
+
+Deno.test("exportCache - sql loads into a new database", () => {
+  const db = seedCache();
+  const copy = initDatabase(TEST_DB_PATH);
+
+  copy.exec(exportCache(db, "sql", {}, { pricing: true }).join("\n"));
+
+  assertEquals(exportCache(copy, "jsonl", {}, { pricing: true }), exportCache(db, "jsonl", {}, { pricing: true }));
+  assertEquals(getPricingHistory(copy, lookupByTicker(copy, "AAPL")!.id).length, 1);
+  assertEquals(searchByName(copy, "nestle").map((s) => s.ticker), ["NESN"]);
+
+  db.close();
+  copy.close();
+});
+
+Deno.test("parseFetchedSince - dates and durations", () => {
+  assertEquals(parseFetchedSince("2026-01-01"), 1767225600);
+  assertEquals(parseFetchedSince("30d", 1767225600), 1767225600 - 30 * 24 * 60 * 60);
+  assertThrows(() => parseFetchedSince("2026-02-30"), CliError, "Invalid --since");
+  assertThrows(() => parseFetchedSince("yesterday"), CliError, "Invalid --since");
+});
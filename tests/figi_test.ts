@@ -0,0 +1,66 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { computeFigiCheckDigit, validateFigi } from "../src/figi.ts";
+
+Deno.test("computeFigiCheckDigit - Apple composite FIGI", () => {
+  // BBG000B9XRY4 - Apple Inc. (AAPL US)
+  assertEquals(computeFigiCheckDigit("BBG000B9XRY"), 4);
+});
+
+Deno.test("computeFigiCheckDigit - Apple share class FIGI", () => {
+  // BBG001S5N8V8 - Apple Inc. share class
+  assertEquals(computeFigiCheckDigit("BBG001S5N8V"), 8);
+});
+
+Deno.test("computeFigiCheckDigit - invalid length", () => {
+  assertThrows(
+    () => computeFigiCheckDigit("BBG000B9XR"),
+    Error,
+    "Base must be exactly 11 characters",
+  );
+});
+
+Deno.test("computeFigiCheckDigit - rejects vowels", () => {
+  assertThrows(
+    () => computeFigiCheckDigit("BBG000A9XRY"),
+    Error,
+    "Invalid character in FIGI: A",
+  );
+});
+
+Deno.test("validateFigi - valid FIGI", () => {
+  const result = validateFigi("BBG000B9XRY4");
+  assertEquals(result.valid, true);
+  assertEquals(result.error, undefined);
+});
+
+Deno.test("validateFigi - invalid check digit", () => {
+  const result = validateFigi("BBG000B9XRY5");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Invalid check digit");
+  assertEquals(result.expectedCheckDigit, 4);
+});
+
+Deno.test("validateFigi - wrong length", () => {
+  const result = validateFigi("BBG000B9XRY");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "FIGI must be exactly 12 characters");
+});
+
+Deno.test("validateFigi - contains vowel", () => {
+  const result = validateFigi("BBG000A9XRY4");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "FIGI must contain only digits and uppercase consonants");
+});
+
+Deno.test("validateFigi - reserved prefix", () => {
+  // GB would be confused with a UK ISIN
+  const result = validateFigi("GBG000B9XRY4");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, 'FIGI prefix "GB" is reserved');
+});
+
+Deno.test("validateFigi - third character must be G", () => {
+  const result = validateFigi("BBH000B9XRY4");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, 'FIGI third character must be "G"');
+});
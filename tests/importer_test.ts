@@ -0,0 +1,331 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { CliError } from "../src/cli.ts";
+import {
+  getConflicts,
+  getFieldSources,
+  initDatabase,
+  insertSecurity,
+  isPinned,
+  lookupByCusip,
+  lookupByIsin,
+  lookupByTicker,
+} from "../src/db.ts";
+import {
+  detectImportFormat,
+  importSecCompanyTickers,
+  importSecurities,
+  parseColumnMapping,
+  parseImportRows,
+  resolveColumns,
+  splitImportedPin,
+  toImportedFetchedAt,
+  toImportedSecurity,
+} from "../src/importer.ts";
+import { purgeSource } from "../src/eviction.ts";
+
+const TEST_DB_PATH = ":memory:";
+
+Deno.test("detectImportFormat - from the file extension", () => {
+  assertEquals(detectImportFormat("holdings.csv"), "csv");
+  assertEquals(detectImportFormat("data/HOLDINGS.CSV"), "csv");
+  assertEquals(detectImportFormat("mappings.jsonl"), "jsonl");
+  assertEquals(detectImportFormat("mappings.ndjson"), "jsonl");
+  assertEquals(detectImportFormat("company_tickers_exchange.json"), "sec");
+  assertThrows(() => detectImportFormat("mappings.txt"), CliError, "--format");
+});
+
+Deno.test("parseColumnMapping - field=column pairs", () => {
+  assertEquals(parseColumnMapping(["isin=ISIN Code", "Ticker = Symbol"]), {
+    isin: "ISIN Code",
+    ticker: "Symbol",
+  });
+  assertThrows(() => parseColumnMapping(["isin"]), CliError, "expected field=column");
+  assertThrows(() => parseColumnMapping(["isin_code=ISIN"]), CliError, "unknown field");
+});
+
+Deno.test("parseImportRows - CSV with quotes, CRLF, byte order mark and blank lines", () => {
+  const csv = '﻿ticker,name\r\nAAPL,Apple Inc.\r\n\r\n"BRK.B","Berkshire Hathaway, ""B"""\r\nMSFT,Microsoft';
+
+  assertEquals(parseImportRows(csv, "csv"), [
+    { row: 1, values: { ticker: "AAPL", name: "Apple Inc." } },
+    { row: 2, values: { ticker: "BRK.B", name: 'Berkshire Hathaway, "B"' } },
+    { row: 3, values: { ticker: "MSFT", name: "Microsoft" } },
+  ]);
+});
+
+Deno.test("parseImportRows - JSONL, malformed lines reported per row", () => {
+  const jsonl = '{"ticker":"AAPL","cik":320193,"isin":null}\n\nnot json\n[1]\n';
+
+  const rows = parseImportRows(jsonl, "jsonl");
+
+  assertEquals(rows[0], { row: 1, values: { ticker: "AAPL", cik: "320193", isin: "" } });
+  assertEquals(rows[1].row, 2);
+  assertEquals(rows[1].error?.startsWith("Malformed JSON"), true);
+  assertEquals(rows[2], { row: 3, values: {}, error: "Expected a JSON object" });
+});
+
+Deno.test("resolveColumns - aliases, explicit mappings and a required ticker column", () => {
+  assertEquals(
+    resolveColumns(["Symbol", "Company Name", "ISIN Code", "cik_str"], { isin: "ISIN Code" }),
+    { ticker: "Symbol", isin: "ISIN Code", cik: "cik_str", name: "Company Name" },
+  );
+  assertThrows(() => resolveColumns(["isin", "name"]), CliError, "No ticker column");
+  assertThrows(() => resolveColumns(["ticker"], { isin: "ISIN Code" }), CliError, "not found");
+});
+
+Deno.test("toImportedSecurity - normalizes and validates values", () => {
+  const columns = { ticker: "ticker", exchange: "exchange", isin: "isin", cusip: "cusip", cik: "cik", name: "name" };
+
+  assertEquals(
+    toImportedSecurity(
+      { ticker: "brk-b", exchange: "nyse", isin: "us0846707026", cusip: "084670702", cik: "1067983", name: "Berkshire" },
+      columns,
+    ),
+    {
+      name: "Berkshire",
+      ticker: "BRK.B",
+      exchange: "NYSE",
+      isin: "US0846707026",
+      cusip: "084670702",
+      cik: "0001067983",
+      source: "import",
+    },
+  );
+
+  // Exchange defaults to US
+  assertEquals(toImportedSecurity({ ticker: "AAPL", name: "Apple Inc." }, columns).exchange, "US");
+
+  assertThrows(() => toImportedSecurity({ name: "Apple Inc." }, columns), CliError, "Missing ticker");
+  // Name is optional, as for securities cached without one
+  assertEquals(toImportedSecurity({ ticker: "AAPL" }, columns).name, "");
+  assertThrows(() => toImportedSecurity({ ticker: "1ABC", name: "X" }, columns), CliError, "must start with a letter");
+  assertThrows(
+    () => toImportedSecurity({ ticker: "AAPL", name: "Apple", isin: "US0378331006" }, columns),
+    CliError,
+    "Invalid check digit",
+  );
+  assertThrows(
+    () => toImportedSecurity({ ticker: "AAPL", name: "Apple", cusip: "037833101" }, columns),
+    CliError,
+    "Invalid CUSIP",
+  );
+  assertThrows(
+    () => toImportedSecurity({ ticker: "AAPL", name: "Apple", isin: "US0378331005", cusip: "594918104" }, columns),
+    CliError,
+    "doesn't match ISIN",
+  );
+  assertThrows(() => toImportedSecurity({ ticker: "AAPL", name: "Apple", cik: "CIK320193" }, columns), CliError, "CIK");
+});
+
+Deno.test("importSecurities - reports accepted, rejected and conflicting rows", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  // Imported before, so a new import can't correct it
+  insertSecurity(db, {
+    name: "Microsoft Corporation",
+    ticker: "MSFT",
+    exchange: "NASDAQ",
+    isin: "US5949181045",
+    cusip: "594918104",
+    source: "import",
+  });
+
+  const rows = parseImportRows(
+    [
+      "Symbol,Name,ISIN,CUSIP,Exchange",
+      "AAPL,Apple Inc.,US0378331005,037833100,NASDAQ",
+      "BAD,Bad Data,US0378331006,,NASDAQ",
+      // Microsoft's CUSIP for the Apple listing
+      "AAPL,Apple Inc.,,594918104,NASDAQ",
+    ].join("\n"),
+    "csv",
+  );
+
+  const results = importSecurities(db, rows);
+
+  assertEquals(results.map((r) => [r.row, r.status]), [[1, "accepted"], [2, "rejected"], [3, "conflicting"]]);
+  assertEquals(lookupByIsin(db, "US0378331005")?.ticker, "AAPL");
+  assertEquals(
+    db.prepare("SELECT source FROM identifiers_isin WHERE isin = ?").get("US0378331005"),
+    { source: "import" },
+  );
+  assertEquals(results[0].security_id, lookupByIsin(db, "US0378331005")?.id);
+
+  // Conflicting rows write nothing but stay recorded for review
+  assertEquals(lookupByCusip(db, "594918104")?.ticker, "MSFT");
+  assertEquals(getConflicts(db).map((c) => [c.identifier, c.action]), [["594918104", "refused"]]);
+
+  db.close();
+});
+
+Deno.test("toImportedSecurity - field source columns and fetched_at, as exported", () => {
+  const columns = { ticker: "ticker", name: "name", isin: "isin", source: "source" };
+  const values = {
+    ticker: "AAPL",
+    name: "Apple Inc.",
+    isin: "US0378331005",
+    source: "fmp",
+    name_source: "sec",
+    isin_source: "import",
+    // No CUSIP, so its source is ignored
+    cusip_source: "sec",
+    fetched_at: "1700000000",
+  };
+
+  assertEquals(toImportedSecurity(values, columns).field_sources, { name: "sec", isin: "import" });
+  assertEquals(toImportedSecurity({ ticker: "AAPL", name: "Apple" }, columns).field_sources, undefined);
+
+  assertEquals(toImportedFetchedAt(values), 1700000000);
+  assertEquals(toImportedFetchedAt({}), undefined);
+  assertThrows(() => toImportedFetchedAt({ fetched_at: "2024-01-01" }), CliError, "Unix timestamp");
+});
+
+Deno.test("importSecurities - values with the manual source are pinned again", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cusip: "037833100",
+    source: "fmp",
+  });
+
+  const rows = parseImportRows(
+    [
+      '{"ticker":"AAPL","exchange":"NASDAQ","name":"Apple","isin":"US0378331005",' +
+      '"name_source":"fmp","source":"Manual"}',
+      '{"ticker":"AAPL","exchange":"NASDAQ","name":"Apple","cik":"320193","cik_source":"manual"}',
+    ].join("\n"),
+    "jsonl",
+  );
+
+  const results = importSecurities(db, rows);
+
+  assertEquals(results.map((r) => [r.row, r.status]), [[1, "accepted"], [2, "rejected"]]);
+  assertEquals(results[0].security_id, appleId);
+  assertEquals(results[1].error, 'Source "manual" is reserved for pins, and cik can\'t be pinned');
+
+  // The ISIN and listing are pinned; the name kept its own source
+  assertEquals(isPinned(db, appleId), true);
+  assertEquals(getFieldSources(db, appleId), {
+    name: "fmp",
+    ticker: "manual",
+    exchange: "manual",
+    isin: "manual",
+    cusip: "fmp",
+  });
+  assertEquals(lookupByTicker(db, "AAPL")?.name, "Apple");
+
+  // A pinned value's row is split into the pin and the rest
+  assertEquals(
+    splitImportedPin({ name: "Apple", ticker: "AAPL", exchange: "NASDAQ", cik: "0000320193", source: "manual" }),
+    {
+      security: { name: "", ticker: "AAPL", exchange: "NASDAQ", cik: "0000320193", source: "import" },
+      pin: { ticker: "AAPL", exchange: "NASDAQ", name: "Apple" },
+    },
+  );
+
+  db.close();
+});
+
+Deno.test("importSecurities - unexpected errors roll back every row", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  db.exec(`
+    CREATE TRIGGER fail_on_msft BEFORE INSERT ON identifiers_ticker
+    WHEN NEW.ticker = 'MSFT' BEGIN SELECT RAISE(ABORT, 'disk full'); END
+  `);
+
+  const rows = parseImportRows("ticker,name\nAAPL,Apple Inc.\nMSFT,Microsoft Corporation\n", "csv");
+
+  assertThrows(() => importSecurities(db, rows), Error, "disk full");
+  assertEquals(lookupByTicker(db, "AAPL"), null);
+
+  db.close();
+});
+
+Deno.test("importSecCompanyTickers - reconciles SEC listings with the cache", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  // Cached from FMP without a CIK, with one; and a ticker since reassigned
+  insertSecurity(db, { name: "Apple Inc.", ticker: "AAPL", exchange: "NASDAQ", isin: "US0378331005", source: "fmp" });
+  insertSecurity(db, { name: "Microsoft Corporation", ticker: "MSFT", exchange: "NASDAQ", cik: "0000789019", source: "fmp" });
+  insertSecurity(db, { name: "Old Holder Inc.", ticker: "OLD", exchange: "NYSE", cik: "0000000001", source: "fmp" });
+
+  const results = importSecCompanyTickers(db, [
+    { cik: "0000320193", name: "Apple Inc. (SEC)", ticker: "AAPL", exchange: "NASDAQ" },
+    { cik: "0000789019", name: "MICROSOFT CORP", ticker: "MSFT", exchange: "NASDAQ" },
+    { cik: "0000000002", name: "New Holder Inc.", ticker: "OLD", exchange: "NYSE" },
+    { cik: "0001067983", name: "BERKSHIRE HATHAWAY INC", ticker: "BRK-A", exchange: "NYSE" },
+    { cik: "0001067983", name: "BERKSHIRE HATHAWAY INC", ticker: "BRK-B", exchange: "NYSE" },
+    { cik: "0001234567", name: "Unlisted Corp", ticker: "UNLC", exchange: null },
+    { cik: "", name: "No CIK Corp", ticker: "NOCIK", exchange: "NYSE" },
+  ]);
+
+  assertEquals(results.map((r) => [r.ticker, r.status]), [
+    ["AAPL", "accepted"],
+    ["MSFT", "unchanged"],
+    ["OLD", "accepted"],
+    ["BRK.A", "accepted"],
+    ["BRK.B", "accepted"],
+    ["UNLC", "rejected"],
+    ["NOCIK", "rejected"],
+  ]);
+
+  // CIK added to the cached security, keeping its name and ISIN
+  const apple = lookupByTicker(db, "AAPL");
+  assertEquals([apple?.cik, apple?.name, apple?.isin], ["0000320193", "Apple Inc.", "US0378331005"]);
+  assertEquals(
+    db.prepare("SELECT source FROM identifiers_cik WHERE cik = ?").get("0000320193"),
+    { source: "sec" },
+  );
+
+  // Untouched when the cache already agrees
+  assertEquals(
+    db.prepare("SELECT source FROM identifiers_cik WHERE cik = ?").get("0000789019"),
+    { source: "fmp" },
+  );
+
+  // Another issuer's CIK: the ticker was reassigned
+  assertEquals(lookupByTicker(db, "OLD")?.name, "New Holder Inc.");
+
+  // Share classes of one issuer are separate securities with the issuer's CIK
+  assertEquals(lookupByTicker(db, "BRK.A")?.cik, "0001067983");
+  assertEquals(lookupByTicker(db, "BRK.B")?.cik, "0001067983");
+  assertEquals(lookupByTicker(db, "BRK.A")?.id !== lookupByTicker(db, "BRK.B")?.id, true);
+
+  db.close();
+});
+
+Deno.test("importSecCompanyTickers - only the CIK of a cached listing is attributed to SEC", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    source: "fmp",
+  });
+
+  importSecCompanyTickers(db, [{ cik: "0000320193", name: "Apple Inc.", ticker: "AAPL", exchange: "NASDAQ" }]);
+
+  assertEquals(getFieldSources(db, appleId), {
+    name: "fmp",
+    ticker: "fmp",
+    exchange: "fmp",
+    isin: "fmp",
+    cik: "sec",
+  });
+
+  // Purging SEC's data leaves FMP's listing
+  purgeSource(db, "sec");
+
+  const apple = lookupByTicker(db, "AAPL");
+  assertEquals([apple?.id, apple?.name, apple?.isin], [appleId, "Apple Inc.", "US0378331005"]);
+  assertEquals(getFieldSources(db, appleId).ticker, "fmp");
+
+  db.close();
+});
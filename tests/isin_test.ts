@@ -1,5 +1,21 @@
 import { assertEquals, assertThrows } from "@std/assert";
-import { cusipToIsin, validateIsin, computeIsinCheckDigit } from "../src/isin.ts";
+import {
+  computeCusipCheckDigit,
+  computeIsinCheckDigit,
+  computeSedolCheckDigit,
+  cusipToIsin,
+  inferCusipCountry,
+  normalizeValor,
+  nsinToIsin,
+  sedolToIsin,
+  validateCusip,
+  validateIsin,
+  validateSedol,
+  validateValor,
+  validateWkn,
+  valorToIsin,
+  wknToIsin,
+} from "../src/isin.ts";
 
 Deno.test("computeIsinCheckDigit - Apple ISIN", () => {
   // US0378331005 - Apple's ISIN
@@ -47,6 +63,7 @@ Deno.test("validateIsin - invalid check digit", () => {
   const result = validateIsin("US0378331006"); // Wrong check digit (should be 5)
   assertEquals(result.valid, false);
   assertEquals(result.error, "Invalid check digit");
+  assertEquals(result.expectedCheckDigit, 5);
 });
 
 Deno.test("validateIsin - too short", () => {
@@ -93,6 +110,10 @@ Deno.test("cusipToIsin - Berkshire Hathaway Class A", () => {
   assertEquals(isin, "US0846707026");
 });
 
+Deno.test("cusipToIsin - private placement CUSIPs have no ISIN", () => {
+  assertThrows(() => cusipToIsin("12345*AB5"), Error, "Private placement CUSIPs (with *, @ or #) have no ISIN");
+});
+
 Deno.test("cusipToIsin - invalid length", () => {
   assertThrows(
     () => cusipToIsin("0378331"),
@@ -128,3 +149,276 @@ Deno.test("computeIsinCheckDigit - with letters in NSIN", () => {
   const checkDigit = computeIsinCheckDigit(base);
   assertEquals(checkDigit, 4); // Tesla's actual check digit
 });
+
+Deno.test("computeCusipCheckDigit - Apple CUSIP", () => {
+  // 037833100 - Apple's CUSIP
+  assertEquals(computeCusipCheckDigit("03783310"), 0);
+});
+
+Deno.test("computeCusipCheckDigit - Microsoft CUSIP", () => {
+  // 594918104 - Microsoft's CUSIP
+  assertEquals(computeCusipCheckDigit("59491810"), 4);
+});
+
+Deno.test("computeCusipCheckDigit - with letters (Tesla)", () => {
+  // 88160R101 - Tesla's CUSIP (R=27, doubled at an even position)
+  assertEquals(computeCusipCheckDigit("88160R10"), 1);
+});
+
+Deno.test("computeCusipCheckDigit - private placement characters", () => {
+  // PPN characters: *=36, @=37, #=38
+  assertEquals(computeCusipCheckDigit("12345*AB"), 5);
+  assertEquals(computeCusipCheckDigit("0#@*1234"), 2);
+});
+
+Deno.test("computeCusipCheckDigit - invalid length", () => {
+  assertThrows(
+    () => computeCusipCheckDigit("0378331"),
+    Error,
+    "Base must be exactly 8 characters",
+  );
+});
+
+Deno.test("computeCusipCheckDigit - invalid character", () => {
+  assertThrows(
+    () => computeCusipCheckDigit("037833!0"),
+    Error,
+    "Invalid character in CUSIP: !",
+  );
+});
+
+Deno.test("validateCusip - valid Apple CUSIP", () => {
+  const result = validateCusip("037833100");
+  assertEquals(result.valid, true);
+  assertEquals(result.error, undefined);
+});
+
+Deno.test("validateCusip - valid private placement CUSIP", () => {
+  const result = validateCusip("12345*AB5");
+  assertEquals(result.valid, true);
+});
+
+Deno.test("validateCusip - invalid check digit", () => {
+  const result = validateCusip("037833101"); // Wrong check digit (should be 0)
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Invalid check digit");
+  assertEquals(result.expectedCheckDigit, 0);
+});
+
+Deno.test("validateCusip - wrong length", () => {
+  const result = validateCusip("03783310");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "CUSIP must be exactly 9 characters");
+});
+
+Deno.test("validateCusip - invalid characters", () => {
+  const result = validateCusip("037833-00");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "CUSIP must contain only uppercase letters, digits, *, @ or #");
+});
+
+Deno.test("validateCusip - non-numeric check digit", () => {
+  const result = validateCusip("03783310X");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Check digit must be a number");
+});
+
+Deno.test("computeSedolCheckDigit - Vodafone SEDOL", () => {
+  // 0237400 - embedded in Vodafone's ISIN GB0002374006
+  assertEquals(computeSedolCheckDigit("023740"), 0);
+});
+
+Deno.test("computeSedolCheckDigit - BAE Systems SEDOL", () => {
+  // 0263494 - BAE Systems
+  assertEquals(computeSedolCheckDigit("026349"), 4);
+});
+
+Deno.test("computeSedolCheckDigit - with letters", () => {
+  // B0YBKJ7 - letters convert like ISIN/CUSIP (B=11, Y=34, K=20, J=19)
+  assertEquals(computeSedolCheckDigit("B0YBKJ"), 7);
+});
+
+Deno.test("computeSedolCheckDigit - rejects vowels", () => {
+  assertThrows(
+    () => computeSedolCheckDigit("B0YAKJ"),
+    Error,
+    "Invalid character in SEDOL: A",
+  );
+});
+
+Deno.test("validateSedol - valid SEDOL", () => {
+  const result = validateSedol("0263494");
+  assertEquals(result.valid, true);
+  assertEquals(result.error, undefined);
+});
+
+Deno.test("validateSedol - invalid check digit", () => {
+  const result = validateSedol("0263495"); // Wrong check digit (should be 4)
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Invalid check digit");
+  assertEquals(result.expectedCheckDigit, 4);
+});
+
+Deno.test("validateSedol - wrong length", () => {
+  const result = validateSedol("026349");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "SEDOL must be exactly 7 characters");
+});
+
+Deno.test("validateSedol - contains vowel", () => {
+  const result = validateSedol("B0YAKJ7");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "SEDOL must contain only digits and uppercase consonants");
+});
+
+Deno.test("sedolToIsin - Vodafone (GB default)", () => {
+  const isin = sedolToIsin("0237400");
+  assertEquals(isin, "GB0002374006");
+});
+
+Deno.test("sedolToIsin - CRH (IE)", () => {
+  const isin = sedolToIsin("0182704", "IE");
+  assertEquals(isin, "IE0001827041");
+});
+
+Deno.test("sedolToIsin - with letters", () => {
+  const isin = sedolToIsin("B0YBKJ7", "GB");
+  assertEquals(isin, "GB00B0YBKJ77");
+});
+
+Deno.test("sedolToIsin - invalid length", () => {
+  assertThrows(
+    () => sedolToIsin("023740"),
+    Error,
+    "SEDOL must be exactly 7 characters",
+  );
+});
+
+Deno.test("cusipToIsin - Canadian CUSIP with explicit country", () => {
+  // 13321L108 - Cameco Corporation
+  const isin = cusipToIsin("13321L108", "CA");
+  assertEquals(isin, "CA13321L1085");
+});
+
+Deno.test("cusipToIsin - Bermuda CINS with explicit country", () => {
+  // G0450A105 - Arch Capital Group
+  const isin = cusipToIsin("G0450A105", "BM");
+  assertEquals(isin, "BMG0450A1053");
+});
+
+Deno.test("cusipToIsin - CINS country inferred from prefix", () => {
+  // C prefix = Canada
+  const isin = cusipToIsin("C13321108");
+  assertEquals(isin.substring(0, 2), "CA");
+  assertEquals(validateIsin(isin).valid, true);
+});
+
+Deno.test("cusipToIsin - regional CINS prefix requires country", () => {
+  assertThrows(
+    () => cusipToIsin("Y2573F102"),
+    Error,
+    "Cannot infer country from CINS prefix",
+  );
+});
+
+Deno.test("cusipToIsin - invalid country code", () => {
+  assertThrows(
+    () => cusipToIsin("037833100", "USA"),
+    Error,
+    "Country code must be exactly 2 letters",
+  );
+});
+
+Deno.test("inferCusipCountry - numeric CUSIP is US", () => {
+  assertEquals(inferCusipCountry("037833100"), "US");
+});
+
+Deno.test("inferCusipCountry - CINS prefixes", () => {
+  assertEquals(inferCusipCountry("D1668R123"), "DE");
+  assertEquals(inferCusipCountry("H1467J104"), "CH");
+});
+
+Deno.test("inferCusipCountry - regional CINS prefix", () => {
+  assertEquals(inferCusipCountry("Y2573F102"), undefined);
+  assertEquals(inferCusipCountry("P0000A100"), undefined);
+});
+
+Deno.test("inferCusipCountry - CINS prefixes shared by several countries", () => {
+  // G: Bermuda, Cayman Islands, Ireland, ... as well as the United Kingdom
+  assertEquals(inferCusipCountry("G0450A105"), undefined);
+  assertEquals(inferCusipCountry("N22717107"), undefined);
+  assertThrows(() => cusipToIsin("G0450A105"), Error, "Country must be specified");
+});
+
+Deno.test("nsinToIsin - pads NSIN to 9 characters", () => {
+  assertEquals(nsinToIsin("037833100", "US"), "US0378331005");
+  assertEquals(nsinToIsin("0237400", "GB"), "GB0002374006");
+  assertEquals(nsinToIsin("716460", "de"), "DE0007164600");
+});
+
+Deno.test("nsinToIsin - NSIN too long", () => {
+  assertThrows(
+    () => nsinToIsin("0378331001", "US"),
+    Error,
+    "NSIN must be 1-9 characters",
+  );
+});
+
+Deno.test("validateWkn - valid WKNs", () => {
+  assertEquals(validateWkn("716460").valid, true); // SAP
+  assertEquals(validateWkn("A1EWWW").valid, true); // adidas
+});
+
+Deno.test("validateWkn - wrong length", () => {
+  const result = validateWkn("71646");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "WKN must be exactly 6 characters");
+});
+
+Deno.test("validateWkn - contains I or O", () => {
+  const result = validateWkn("A1EWWO");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "WKN must contain only digits and uppercase letters (except I and O)");
+});
+
+Deno.test("wknToIsin - SAP", () => {
+  assertEquals(wknToIsin("716460"), "DE0007164600");
+});
+
+Deno.test("wknToIsin - with letters (adidas)", () => {
+  assertEquals(wknToIsin("A1EWWW"), "DE000A1EWWW0");
+});
+
+Deno.test("normalizeValor - drops leading zeros", () => {
+  assertEquals(normalizeValor("003886335"), "3886335");
+  assertEquals(normalizeValor("3886335"), "3886335");
+  assertEquals(normalizeValor("000"), "0");
+});
+
+Deno.test("validateValor - valid Valor numbers", () => {
+  assertEquals(validateValor("3886335").valid, true); // Nestlé
+  assertEquals(validateValor("003886335").valid, true);
+});
+
+Deno.test("validateValor - too long", () => {
+  const result = validateValor("1234567890");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Valor number must be at most 9 digits");
+});
+
+Deno.test("validateValor - non-numeric", () => {
+  const result = validateValor("38863A5");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Valor number must contain only digits");
+});
+
+Deno.test("valorToIsin - Nestlé (CH default)", () => {
+  assertEquals(valorToIsin("3886335"), "CH0038863350");
+  assertEquals(valorToIsin("003886335"), "CH0038863350");
+});
+
+Deno.test("valorToIsin - Liechtenstein", () => {
+  const isin = valorToIsin("3153292", "LI");
+  assertEquals(isin.substring(0, 11), "LI003153292");
+  assertEquals(validateIsin(isin).valid, true);
+});
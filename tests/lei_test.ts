@@ -0,0 +1,62 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { computeLeiCheckDigits, validateLei } from "../src/lei.ts";
+
+Deno.test("computeLeiCheckDigits - Apple LEI", () => {
+  // HWUPKR0MPOU8FGXBT394 - Apple Inc.
+  assertEquals(computeLeiCheckDigits("HWUPKR0MPOU8FGXBT3"), "94");
+});
+
+Deno.test("computeLeiCheckDigits - Microsoft LEI", () => {
+  // INR2EJN1ERAN0W5ZP974 - Microsoft Corporation
+  assertEquals(computeLeiCheckDigits("INR2EJN1ERAN0W5ZP9"), "74");
+});
+
+Deno.test("computeLeiCheckDigits - numeric LOU prefix", () => {
+  // 5493000IBP32UQZ0KL24 - LEI issued by a numeric-prefix LOU
+  assertEquals(computeLeiCheckDigits("5493000IBP32UQZ0KL"), "24");
+});
+
+Deno.test("computeLeiCheckDigits - invalid length", () => {
+  assertThrows(
+    () => computeLeiCheckDigits("HWUPKR0MPOU8FGXBT"),
+    Error,
+    "Base must be exactly 18 characters",
+  );
+});
+
+Deno.test("validateLei - valid Apple LEI", () => {
+  const result = validateLei("HWUPKR0MPOU8FGXBT394");
+  assertEquals(result.valid, true);
+  assertEquals(result.error, undefined);
+});
+
+Deno.test("validateLei - invalid check digits", () => {
+  const result = validateLei("HWUPKR0MPOU8FGXBT395");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Invalid check digits");
+  assertEquals(result.expectedCheckDigits, "94");
+});
+
+Deno.test("validateLei - transposed characters", () => {
+  const result = validateLei("HWUPKR0MPOU8FGXTB394");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Invalid check digits");
+});
+
+Deno.test("validateLei - wrong length", () => {
+  const result = validateLei("HWUPKR0MPOU8FGXBT39");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "LEI must be exactly 20 characters");
+});
+
+Deno.test("validateLei - invalid characters", () => {
+  const result = validateLei("HWUPKR0MPOU8FGX-T394");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "LEI must contain only uppercase letters and digits");
+});
+
+Deno.test("validateLei - non-numeric check digits", () => {
+  const result = validateLei("HWUPKR0MPOU8FGXBT3AB");
+  assertEquals(result.valid, false);
+  assertEquals(result.error, "Check digits must be numbers");
+});
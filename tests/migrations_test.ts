@@ -0,0 +1,187 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { initDatabase, openDatabase, searchByName } from "../src/db.ts";
+import {
+  getPendingMigrations,
+  getSchemaVersion,
+  type Migration,
+  migrateDatabase,
+  MIGRATIONS,
+  SCHEMA_VERSION,
+  SchemaVersionError,
+} from "../src/migrations.ts";
+
+const TEST_DB_PATH = ":memory:";
+
+Deno.test("initDatabase - new database is at the latest schema version", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  assertEquals(getSchemaVersion(db), SCHEMA_VERSION);
+  assertEquals(getPendingMigrations(db), []);
+
+  db.close();
+});
+
+Deno.test("MIGRATIONS - versions are consecutive from 1", () => {
+  assertEquals(
+    MIGRATIONS.map((migration) => migration.version),
+    MIGRATIONS.map((_, index) => index + 1),
+  );
+});
+
+Deno.test("migrateDatabase - dry run reports pending migrations without applying them", () => {
+  const db = openDatabase(TEST_DB_PATH);
+
+  const pending = migrateDatabase(db, { dryRun: true });
+
+  assertEquals(pending.length, MIGRATIONS.length);
+  assertEquals(getSchemaVersion(db), 0);
+
+  const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all();
+  assertEquals(tables, []);
+
+  db.close();
+});
+
+Deno.test("migrateDatabase - applies only pending migrations", () => {
+  const db = openDatabase(TEST_DB_PATH);
+  const applied: number[] = [];
+
+  const migrations: Migration[] = [1, 2, 3].map((version) => ({
+    version,
+    description: `Migration ${version}`,
+    up: () => {
+      applied.push(version);
+    },
+  }));
+
+  db.exec("PRAGMA user_version = 1");
+  migrateDatabase(db, {}, migrations);
+
+  assertEquals(applied, [2, 3]);
+  assertEquals(getSchemaVersion(db), 3);
+
+  db.close();
+});
+
+Deno.test("migrateDatabase - failed migration is rolled back", () => {
+  const db = openDatabase(TEST_DB_PATH);
+
+  const migrations: Migration[] = [
+    {
+      version: 1,
+      description: "Create table",
+      up: (db) => db.exec("CREATE TABLE first (id INTEGER)"),
+    },
+    {
+      version: 2,
+      description: "Fails halfway",
+      up: (db) => {
+        db.exec("CREATE TABLE second (id INTEGER)");
+        db.exec("INSERT INTO missing_table VALUES (1)");
+      },
+    },
+  ];
+
+  assertThrows(() => migrateDatabase(db, {}, migrations));
+
+  // First migration committed, second rolled back entirely
+  assertEquals(getSchemaVersion(db), 1);
+  const tables = db.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all();
+  assertEquals(tables, [{ name: "first" }]);
+
+  db.close();
+});
+
+Deno.test("initDatabase - refuses database from a newer schema version", () => {
+  const dbPath = Deno.makeTempFileSync({ suffix: ".db" });
+
+  const rawDb = openDatabase(dbPath);
+  rawDb.exec(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+  rawDb.close();
+
+  assertThrows(() => initDatabase(dbPath), SchemaVersionError, "newer than this version");
+
+  Deno.removeSync(dbPath);
+});
+
+Deno.test("initDatabase - upgrades database created before migrations", () => {
+  const dbPath = Deno.makeTempFileSync({ suffix: ".db" });
+
+  // Tables as created by older versions, at user_version 0
+  const rawDb = openDatabase(dbPath);
+  rawDb.exec(`
+    CREATE TABLE securities (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT,
+      security_type TEXT,
+      market_sector TEXT,
+      created_at INTEGER DEFAULT (unixepoch()),
+      updated_at INTEGER DEFAULT (unixepoch())
+    )
+  `);
+  rawDb.exec(`
+    CREATE TABLE identifiers_ticker (
+      security_id INTEGER NOT NULL,
+      ticker TEXT NOT NULL,
+      exchange TEXT DEFAULT 'US',
+      source TEXT NOT NULL,
+      fetched_at INTEGER NOT NULL,
+      PRIMARY KEY (ticker, exchange),
+      FOREIGN KEY (security_id) REFERENCES securities(id) ON DELETE CASCADE
+    )
+  `);
+  rawDb.exec("INSERT INTO securities (id, name) VALUES (1, 'Berkshire Hathaway Inc.')");
+  rawDb.exec(`
+    INSERT INTO identifiers_ticker (security_id, ticker, exchange, source, fetched_at)
+    VALUES (1, 'BRK-B', 'NYSE', 'fmp', 0), (1, 'BRK/B', 'NYSE', 'fmp', 0), (1, 'BRK-A', 'NYSE', 'fmp', 0)
+  `);
+  rawDb.close();
+
+  const db = initDatabase(dbPath);
+
+  assertEquals(getSchemaVersion(db), SCHEMA_VERSION);
+
+  const columns = db.prepare("PRAGMA table_info(securities)").all() as { name: string }[];
+  assertEquals(columns.some((c) => c.name === "issuer_id"), true);
+
+  // Tickers rewritten to canonical spelling, duplicates dropped
+  const tickers = db.prepare(
+    "SELECT ticker FROM identifiers_ticker ORDER BY ticker"
+  ).all() as { ticker: string }[];
+  assertEquals(tickers.map((t) => t.ticker), ["BRK.A", "BRK.B"]);
+
+  // Existing tickers become current, with an unknown start
+  const history = db.prepare(
+    "SELECT DISTINCT valid_from, valid_to FROM identifiers_ticker"
+  ).all();
+  assertEquals(history, [{ valid_from: null, valid_to: null }]);
+
+  // Existing names are searchable
+  assertEquals(searchByName(db, "berkshire").map((s) => s.id), [1]);
+
+  // Existing names are attributed to the source of the listing
+  assertEquals(
+    db.prepare("SELECT name_source, security_type_source FROM securities").get(),
+    { name_source: "fmp", security_type_source: null },
+  );
+
+  db.close();
+  Deno.removeSync(dbPath);
+});
+
+Deno.test("migrateDatabase - pricing history starts with the current quotes", () => {
+  const db = openDatabase(TEST_DB_PATH);
+
+  migrateDatabase(db, {}, MIGRATIONS.filter((migration) => migration.version < 5));
+  db.exec("INSERT INTO securities (id, name) VALUES (1, 'Apple Inc.')");
+  db.exec("INSERT INTO pricing (security_id, price, price_fetched_at) VALUES (1, 262.82, 1730000000)");
+
+  migrateDatabase(db);
+
+  const history = db.prepare(
+    "SELECT security_id, price, price_fetched_at FROM pricing_history"
+  ).all();
+  assertEquals(history, [{ security_id: 1, price: 262.82, price_fetched_at: 1730000000 }]);
+
+  db.close();
+});
@@ -0,0 +1,55 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  DEFAULT_SOURCE_PRECEDENCE,
+  getSourcePrecedenceFromEnv,
+  outranks,
+  SourcePrecedenceError,
+  sourceRank,
+} from "../src/provenance.ts";
+
+const env = (vars: Record<string, string>) => (name: string) => vars[name];
+
+Deno.test("getSourcePrecedenceFromEnv - defaults, commas and >", () => {
+  assertEquals(getSourcePrecedenceFromEnv(env({})), DEFAULT_SOURCE_PRECEDENCE);
+  assertEquals(
+    getSourcePrecedenceFromEnv(env({ TICKISINATOR_SOURCE_PRECEDENCE: "manual,sec,fmp" })),
+    ["manual", "sec", "fmp"],
+  );
+  assertEquals(
+    getSourcePrecedenceFromEnv(env({ TICKISINATOR_SOURCE_PRECEDENCE: "SEC > Import > fmp" })),
+    ["sec", "import", "fmp"],
+  );
+});
+
+Deno.test("getSourcePrecedenceFromEnv - rejects empty lists and duplicates", () => {
+  assertThrows(
+    () => getSourcePrecedenceFromEnv(env({ TICKISINATOR_SOURCE_PRECEDENCE: " , " })),
+    SourcePrecedenceError,
+    "expected sources",
+  );
+  assertThrows(
+    () => getSourcePrecedenceFromEnv(env({ TICKISINATOR_SOURCE_PRECEDENCE: "sec,fmp,sec" })),
+    SourcePrecedenceError,
+    '"sec" is listed twice',
+  );
+});
+
+Deno.test("outranks - listed sources, then unlisted ones, then unknown origin", () => {
+  const precedence = ["manual", "sec", "fmp"];
+
+  assertEquals(outranks("manual", "fmp", precedence), true);
+  assertEquals(outranks("fmp", "sec", precedence), false);
+  assertEquals(outranks("fmp", "fmp", precedence), false);
+  assertEquals(outranks("fmp", "vendor", precedence), true);
+  assertEquals(outranks("vendor", "other", precedence), false);
+  assertEquals(outranks(null, "vendor", precedence), false);
+  assertEquals(sourceRank(null, precedence) > sourceRank("vendor", precedence), true);
+});
+
+Deno.test("outranks - pins outrank every source, wherever they are listed", () => {
+  const precedence = ["sec", "fmp", "manual"];
+
+  assertEquals(outranks("manual", "sec", precedence), true);
+  assertEquals(outranks("sec", "manual", precedence), false);
+  assertEquals(outranks("manual", "manual", precedence), false);
+});
@@ -0,0 +1,88 @@
+import { assertEquals } from "@std/assert";
+import { initDatabase, insertPricing, insertSecurity } from "../src/db.ts";
+import { formatCacheStats, getCacheStats } from "../src/stats.ts";
+
+const TEST_DB_PATH = ":memory:";
+const DAY = 24 * 60 * 60;
+
+function seedCache() {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const appleId = insertSecurity(db, {
+    name: "Apple Inc.",
+    ticker: "AAPL",
+    exchange: "NASDAQ",
+    isin: "US0378331005",
+    cusip: "037833100",
+    cik: "0000320193",
+    source: "fmp",
+  });
+  insertSecurity(db, { name: "Microsoft Corporation", ticker: "MSFT", exchange: "NASDAQ", source: "sec" });
+  insertSecurity(db, { name: "Nestlé S.A.", ticker: "NESN", exchange: "SIX", isin: "CH0038863350", source: "import" });
+
+  insertPricing(db, appleId, { price: 262.82, price_fetched_at: Math.floor(Date.now() / 1000) - 10 * DAY });
+
+  return db;
+}
+
+Deno.test("getCacheStats - counts, coverage, ages and breakdowns", () => {
+  const db = seedCache();
+  const now = Math.floor(Date.now() / 1000);
+
+  // A month-old ISIN
+  db.prepare("UPDATE identifiers_isin SET fetched_at = ? WHERE isin = ?").run(now - 40 * DAY, "CH0038863350");
+
+  const stats = getCacheStats(db, now);
+
+  assertEquals(
+    [stats.securities, stats.issuers, stats.listings, stats.securities_priced],
+    [3, 1, 3, 1],
+  );
+  assertEquals(stats.identifiers, {
+    ticker: 3,
+    isin: 2,
+    cusip: 1,
+    sedol: 0,
+    wkn: 0,
+    valor: 0,
+    cik: 1,
+    figi: 0,
+    lei: 0,
+  });
+  assertEquals([stats.securities_missing_isin, stats.securities_missing_cusip], [1, 2]);
+  assertEquals(stats.fetched_at_age.map((bucket) => bucket.count), [6, 0, 0, 1, 0, 0]);
+  assertEquals(stats.price_fetched_at_age.map((bucket) => bucket.count), [0, 0, 1, 0, 0, 0]);
+  assertEquals(stats.fetched_at_age.map((bucket) => bucket.under), ["1d", "7d", "30d", "90d", "365d", null]);
+  assertEquals(stats.sources, { fmp: 4, import: 2, sec: 1 });
+  assertEquals(stats.exchanges, { NASDAQ: 2, SIX: 1 });
+
+  // A Swiss ISIN needs no CUSIP
+  assertEquals(stats.incomplete, [{ ticker: "MSFT", exchange: "NASDAQ", missing: ["isin", "cusip"] }]);
+
+  db.close();
+});
+
+Deno.test("getCacheStats - empty cache", () => {
+  const db = initDatabase(TEST_DB_PATH);
+
+  const stats = getCacheStats(db);
+
+  assertEquals(stats.securities, 0);
+  assertEquals(stats.sources, {});
+  assertEquals(stats.incomplete, []);
+  assertEquals(stats.fetched_at_age.every((bucket) => bucket.count === 0), true);
+
+  db.close();
+});
+
+Deno.test("formatCacheStats - readable report", () => {
+  const db = seedCache();
+
+  const lines = formatCacheStats(getCacheStats(db));
+
+  assertEquals(lines[0], "Securities: 3 (1 issuers, 3 current listings, 1 priced)");
+  assertEquals(lines.includes("  >= 365d  0"), true);
+  assertEquals(lines.slice(-2), ["Incomplete listings: 1", "  MSFT (NASDAQ)  no isin, no cusip"]);
+
+  db.close();
+});
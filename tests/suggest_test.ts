@@ -0,0 +1,92 @@
+/**
+ * Tests for typo correction suggestions
+ *
+ * Testing strategy:
+ * - Look-alike substitutions, adjacent transpositions, corrected check digit
+ * - Only valid candidates are suggested
+ * - Cached candidates rank first
+ */
+
+import { assertEquals } from "@std/assert";
+import { validateIsin } from "../src/isin.ts";
+import { suggestCorrections } from "../src/suggest.ts";
+
+Deno.test("suggestCorrections - ISIN with letter I for digit 1", () => {
+  const suggestions = suggestCorrections("isin", "US037833I005");
+  assertEquals(suggestions[0], {
+    value: "US0378331005",
+    correction: "substitution",
+    cached: false,
+  });
+});
+
+Deno.test("suggestCorrections - ISIN with transposed digits", () => {
+  const suggestions = suggestCorrections("isin", "US3078331005");
+  const values = suggestions.map((s) => s.value);
+  assertEquals(values.includes("US0378331005"), true);
+  assertEquals(
+    suggestions.find((s) => s.value === "US0378331005")!.correction,
+    "transposition",
+  );
+});
+
+Deno.test("suggestCorrections - always includes corrected check digit", () => {
+  const suggestions = suggestCorrections("isin", "US0378331006");
+  assertEquals(suggestions.some((s) => s.value === "US0378331005" && s.correction === "check_digit"), true);
+});
+
+Deno.test("suggestCorrections - corrected check digit ranks before transpositions", () => {
+  // US0378330106 (a transposition) validates too
+  assertEquals(suggestCorrections("isin", "US0378331006").map((s) => [s.value, s.correction]), [
+    ["US0378331005", "check_digit"],
+    ["US0378330106", "transposition"],
+  ]);
+  assertEquals(suggestCorrections("cusip", "037833101")[0].value, "037833100");
+});
+
+Deno.test("suggestCorrections - letter in the check digit position", () => {
+  assertEquals(suggestCorrections("isin", "US037833100A")[0], {
+    value: "US0378331005",
+    correction: "check_digit",
+    cached: false,
+  });
+  assertEquals(suggestCorrections("cusip", "03783310O")[0].value, "037833100");
+});
+
+Deno.test("suggestCorrections - suggestions all validate", () => {
+  const suggestions = suggestCorrections("isin", "US5S49181O45");
+  assertEquals(suggestions.length > 0, true);
+  assertEquals(suggestions.every((s) => validateIsin(s.value).valid), true);
+});
+
+Deno.test("suggestCorrections - CUSIP with letter O for digit 0", () => {
+  const suggestions = suggestCorrections("cusip", "O37833100");
+  assertEquals(suggestions[0], {
+    value: "037833100",
+    correction: "substitution",
+    cached: false,
+  });
+});
+
+Deno.test("suggestCorrections - cached candidates rank first", () => {
+  const cached = new Set(["US0378331005"]);
+  const suggestions = suggestCorrections(
+    "isin",
+    "US0378331006",
+    (candidate) => cached.has(candidate),
+  );
+
+  assertEquals(suggestions[0].value, "US0378331005");
+  assertEquals(suggestions[0].cached, true);
+  assertEquals(suggestions.slice(1).every((s) => !s.cached), true);
+});
+
+Deno.test("suggestCorrections - no suggestions for valid identifiers", () => {
+  assertEquals(suggestCorrections("isin", "US0378331005"), []);
+  assertEquals(suggestCorrections("cusip", "037833100"), []);
+});
+
+Deno.test("suggestCorrections - no suggestions for malformed identifiers", () => {
+  assertEquals(suggestCorrections("isin", "US03783310"), []);
+  assertEquals(suggestCorrections("cusip", "037833-00"), []);
+});
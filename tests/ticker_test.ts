@@ -0,0 +1,40 @@
+import { assertEquals } from "@std/assert";
+import { normalizeTicker, tickerAliases, toFmpTicker } from "../src/ticker.ts";
+
+Deno.test("normalizeTicker - share class separators", () => {
+  assertEquals(normalizeTicker("BRK.B"), "BRK.B");
+  assertEquals(normalizeTicker("BRK-B"), "BRK.B");
+  assertEquals(normalizeTicker("BRK/B"), "BRK.B");
+  assertEquals(normalizeTicker("BRK B"), "BRK.B");
+});
+
+Deno.test("normalizeTicker - case and surrounding whitespace", () => {
+  assertEquals(normalizeTicker("  brk-b "), "BRK.B");
+  assertEquals(normalizeTicker("aapl"), "AAPL");
+});
+
+Deno.test("normalizeTicker - runs of separators collapse", () => {
+  assertEquals(normalizeTicker("BRK  B"), "BRK.B");
+  assertEquals(normalizeTicker("BRK / B"), "BRK.B");
+});
+
+Deno.test("tickerAliases - canonical form first", () => {
+  assertEquals(tickerAliases("brk-b"), ["BRK.B", "BRK-B", "BRK/B", "BRK B"]);
+});
+
+Deno.test("tickerAliases - ticker without separator has one form", () => {
+  assertEquals(tickerAliases("AAPL"), ["AAPL"]);
+});
+
+Deno.test("toFmpTicker - hyphenated share class", () => {
+  assertEquals(toFmpTicker("BRK.B"), "BRK-B");
+  assertEquals(toFmpTicker("BRK/B"), "BRK-B");
+  assertEquals(toFmpTicker("AAPL"), "AAPL");
+});
+
+Deno.test("toFmpTicker - exchange suffixes keep their dot", () => {
+  assertEquals(toFmpTicker("VOD.L"), "VOD.L");
+  assertEquals(toFmpTicker("sap.de"), "SAP.DE");
+  assertEquals(toFmpTicker("RY.TO"), "RY.TO");
+  assertEquals(toFmpTicker("BBD.B.TO"), "BBD-B.TO");
+});